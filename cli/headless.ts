@@ -0,0 +1,272 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createUpstreams, loadProductPage, ApiServerEnv, ApiUpstreams } from '../server/apiPlugin';
+import type { FalResponse } from '../server/upstreams';
+import { renderView, GeneratedView, ViewImageGenerator } from '../services/generation';
+import { createGenerationId, StepTiming } from '../services/historyStore';
+import type { StepState } from '../services/pipeline/engine';
+import { completedStepTimings, createGenerationPipeline, GenerationServices } from '../services/pipeline/generationPipeline';
+import type { ProductMetadata } from '../services/productPage';
+import { createFalProviders, DEFAULT_PROVIDER_ID, FalQueueClient, ReconstructionProvider } from '../services/reconstruction';
+import { buildMockGlb } from '../services/reconstruction/mockModel';
+import { DEFAULT_SETTINGS, GenerationSettings } from '../services/settings';
+import { DEFAULT_PRICES, PriceTable, UsageCall, UsageEntry, URL_IMPORT_CALLS, URL_IMPORT_MODEL } from '../services/usage';
+import { extensionForMimeType, mimeTypeOfDataUrl, stripExtension } from '../utils/files';
+
+/**
+ * The generation pipeline without a browser: Gemini and fal are called
+ * directly through the same clients the API proxy uses, so scripts and
+ * servers can generate models, or pass their own clients, such as local mocks.
+ * Photo cleanup and the fidelity check need a canvas and WebGL and are not available here.
+ */
+
+const MAX_PHOTOS = 3;
+// Candidate images tried, in order, when importing from a product page.
+const MAX_IMPORT_ATTEMPTS = 5;
+
+const PHOTO_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+};
+
+export interface HeadlessGenerationOptions {
+    // Product photos; only the first three are used.
+    photos?: File[];
+    // A product page to import a photo (and the product's details) from when no photos are given.
+    productUrl?: string;
+    providerId?: string;
+    settings?: Partial<GenerationSettings>;
+    // Defaults to clients configured from process.env (GEMINI_API_KEY, FAL_KEY, API_STANDINS...).
+    clients?: ApiUpstreams;
+    // USD per call for the cost estimate; defaults to the app's list prices.
+    prices?: PriceTable;
+    onProgress?: (steps: StepState[]) => void;
+    signal?: AbortSignal;
+}
+
+export interface HeadlessGeneration {
+    runId: string;
+    provider: ReconstructionProvider;
+    settings: GenerationSettings;
+    photos: File[];
+    product: ProductMetadata | null;
+    views: GeneratedView[];
+    // The provider's (temporary) model URL.
+    modelUrl: string;
+    model: Blob;
+    steps: StepTiming[];
+    usage: UsageEntry[];
+    // Estimated USD of the run's paid calls.
+    cost: number;
+}
+
+/** Written next to the model by `writeGenerationOutputs`; paths are relative to it. */
+export interface GenerationManifest {
+    runId: string;
+    createdAt: string;
+    provider: { id: string; label: string };
+    inputs: string[];
+    product: ProductMetadata | null;
+    settings: Pick<GenerationSettings, 'views' | 'imageModel' | 'backgroundColor' | 'promptTemplate'>;
+    views: { key: string; label: string; file: string; prompt: string }[];
+    model: { file: string; bytes: number; sourceUrl: string | null };
+    steps: StepTiming[];
+    totalSeconds: number;
+    usage: UsageEntry[];
+    cost: number;
+}
+
+/** Clients for the real services, or the offline stand-ins when `API_STANDINS=1`. */
+export const createHeadlessClients = (env: ApiServerEnv): ApiUpstreams =>
+    createUpstreams(env, `data:model/gltf-binary;base64,${Buffer.from(buildMockGlb()).toString('base64')}`);
+
+const falQueueClient = (fal: ApiUpstreams['fal']): FalQueueClient => {
+    const wrap = async (response: Promise<FalResponse>) => {
+        const { status, body } = await response;
+        return { ok: status >= 200 && status < 300, status, body };
+    };
+    return {
+        submit: (modelId, input) => wrap(fal.submit(modelId, input)),
+        status: (statusUrl) => wrap(fal.status(statusUrl)),
+        result: (responseUrl) => wrap(fal.result(responseUrl)),
+        cancel: (cancelUrl) => wrap(fal.cancel(cancelUrl)),
+    };
+};
+
+/** The fal backends, calling fal through `clients`. The in-page mock backend is not offered; use the stand-ins instead. */
+export const headlessProviders = (clients: ApiUpstreams) => createFalProviders(falQueueClient(clients.fal));
+
+const fileName = (url: string, fallback: string) => {
+    const urlPath = url.startsWith('data:') ? '' : url.split(/[?#]/)[0];
+    return urlPath.substring(urlPath.lastIndexOf('/') + 1) || fallback;
+};
+
+const downloadImage = async (imageUrl: string) => {
+    const response = await fetch(imageUrl);
+    if (!response.ok) throw new Error(`Failed to fetch ${imageUrl}. Status: ${response.status}`);
+    const type = response.headers.get('content-type') || '';
+    if (!type.startsWith('image/')) throw new Error(`${imageUrl} is not an image (${type || 'no content type'}).`);
+    return new File([await response.arrayBuffer()], fileName(imageUrl, 'product-image.jpg'), { type });
+};
+
+/** The page's first image that downloads, with the product's details. */
+const importProductPage = async (clients: ApiUpstreams, pageUrl: string, runId: string, recordUsage: GenerationServices['recordUsage']) => {
+    const start = performance.now();
+    const info = await loadProductPage(clients.gemini, pageUrl);
+    if (info.usedModel) {
+        recordUsage({ service: 'gemini', model: URL_IMPORT_MODEL, operation: 'URL import', count: URL_IMPORT_CALLS, runId, durationMs: performance.now() - start, ok: true });
+    }
+    const { images, usedModel, ...product } = info;
+    let lastError: unknown;
+    for (const image of images.slice(0, MAX_IMPORT_ATTEMPTS)) {
+        try {
+            return { file: await downloadImage(image.url), product };
+        } catch (e) {
+            lastError = e;
+        }
+    }
+    throw lastError;
+};
+
+const toInlineImage = async (file: File) => ({
+    data: Buffer.from(await file.arrayBuffer()).toString('base64'),
+    mimeType: file.type || 'image/jpeg',
+});
+
+/** The pipeline's services in Node. Usage is passed to `recordUsage` instead of the browser's ledger. */
+export const createNodeServices = (clients: ApiUpstreams, recordUsage: GenerationServices['recordUsage']): GenerationServices => ({
+    fetchProductImage: async (pageUrl, runId) => (await importProductPage(clients, pageUrl, runId, recordUsage)).file,
+    cleanUpPhoto: async () => {
+        throw new Error('Photo cleanup needs a browser canvas and is not available from the command line.');
+    },
+    generateViews: async (inputs, views, settings, runId) => {
+        const images = await Promise.all(inputs.map(toInlineImage));
+        const generate: ViewImageGenerator = async (request) => {
+            const start = performance.now();
+            const call: UsageCall = { service: 'gemini', model: request.model, operation: 'View image', runId };
+            try {
+                const image = await clients.gemini.generateViewImage(request);
+                recordUsage({ ...call, durationMs: performance.now() - start, ok: true });
+                return image;
+            } catch (e) {
+                recordUsage({ ...call, durationMs: performance.now() - start, ok: false });
+                throw e;
+            }
+        };
+        return Promise.all(views.map(view => renderView(generate, images, view, settings)));
+    },
+    // Gemini returns views of about 1024 px, which the backends accept as they are; there is no canvas to resize them with.
+    prepareReconstructionViews: async (views) => Object.fromEntries(views.map(view => [view.key, view.url])),
+    downloadModel: async (modelUrl) => {
+        const response = await fetch(modelUrl);
+        if (!response.ok) throw new Error(`Failed to download the model. Status: ${response.status}`);
+        return response.blob();
+    },
+    checkFidelity: async () => {
+        throw new Error('The fidelity check renders with WebGL and is not available from the command line.');
+    },
+    recordUsage,
+});
+
+/** Reads a photo from disk, typed by its extension. */
+export const readPhoto = async (filePath: string) => {
+    const type = PHOTO_TYPES[path.extname(filePath).toLowerCase()];
+    if (!type) throw new Error(`${filePath} is not a supported image (${Object.keys(PHOTO_TYPES).join(', ')}).`);
+    return new File([await readFile(filePath)], path.basename(filePath), { type });
+};
+
+/** Runs the whole generation, from photos or a product page to the model. Rejects with the failed step's error. */
+export const generateModel = async (options: HeadlessGenerationOptions): Promise<HeadlessGeneration> => {
+    const clients = options.clients ?? createHeadlessClients(process.env);
+    const providers = headlessProviders(clients);
+    const providerId = options.providerId ?? DEFAULT_PROVIDER_ID;
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) throw new Error(`Unknown backend "${providerId}". Available: ${providers.map(p => p.id).join(', ')}.`);
+    const settings: GenerationSettings = { ...DEFAULT_SETTINGS, ...options.settings, preprocessInputs: false, fidelityCheck: false, fidelityAutoRetry: false };
+
+    const prices = { ...DEFAULT_PRICES, ...options.prices };
+    const usage: UsageEntry[] = [];
+    const recordUsage: GenerationServices['recordUsage'] = (call) => {
+        const count = call.count ?? 1;
+        usage.push({ ...call, id: String(usage.length + 1), at: Date.now(), count, cost: call.ok ? (prices[call.model] ?? 0) * count : 0 });
+    };
+
+    const runId = createGenerationId();
+    let photos = (options.photos ?? []).slice(0, MAX_PHOTOS);
+    let product: ProductMetadata | null = null;
+    if (photos.length === 0) {
+        if (!options.productUrl) throw new Error('Give at least one photo or a product page URL.');
+        const imported = await importProductPage(clients, options.productUrl, runId, recordUsage);
+        photos = [imported.file];
+        product = imported.product;
+    }
+    const pipeline = createGenerationPipeline({ runId, files: photos, product, settings, provider }, createNodeServices(clients, recordUsage));
+
+    const unsubscribe = options.onProgress ? pipeline.subscribe(options.onProgress) : undefined;
+    const cancel = () => pipeline.cancel();
+    options.signal?.addEventListener('abort', cancel);
+    try {
+        if (await pipeline.run() === 'cancelled') throw new Error('The generation was cancelled.');
+    } finally {
+        options.signal?.removeEventListener('abort', cancel);
+        unsubscribe?.();
+    }
+
+    return {
+        runId,
+        provider,
+        settings,
+        photos,
+        product,
+        views: pipeline.get('views')!,
+        modelUrl: pipeline.get('modelUrl')!,
+        model: pipeline.get('model')!,
+        steps: completedStepTimings(pipeline.snapshot),
+        usage,
+        cost: usage.reduce((total, entry) => total + entry.cost, 0),
+    };
+};
+
+/**
+ * Writes the GLB to `outPath`, the view images to a `<name>-views` folder
+ * next to it and a `<name>.json` manifest describing the run.
+ */
+export const writeGenerationOutputs = async (generation: HeadlessGeneration, outPath: string): Promise<GenerationManifest> => {
+    const dir = path.dirname(outPath);
+    const base = stripExtension(path.basename(outPath));
+    const viewsDir = `${base}-views`;
+    await mkdir(path.join(dir, viewsDir), { recursive: true });
+
+    const views = await Promise.all(generation.views.map(async view => {
+        const file = `${viewsDir}/${view.key}.${extensionForMimeType(mimeTypeOfDataUrl(view.url), 'png')}`;
+        await writeFile(path.join(dir, file), Buffer.from(view.url.split(',')[1], 'base64'));
+        return { key: view.key, label: view.label, file, prompt: view.prompt };
+    }));
+    const model = Buffer.from(await generation.model.arrayBuffer());
+    await writeFile(outPath, model);
+
+    const { views: viewKeys, imageModel, backgroundColor, promptTemplate } = generation.settings;
+    const manifest: GenerationManifest = {
+        runId: generation.runId,
+        createdAt: new Date().toISOString(),
+        provider: { id: generation.provider.id, label: generation.provider.label },
+        inputs: generation.photos.map(photo => photo.name),
+        product: generation.product,
+        settings: { views: viewKeys, imageModel, backgroundColor, promptTemplate },
+        views,
+        model: {
+            file: path.basename(outPath),
+            bytes: model.length,
+            sourceUrl: generation.modelUrl.startsWith('data:') ? null : generation.modelUrl,
+        },
+        steps: generation.steps,
+        totalSeconds: generation.steps.reduce((total, step) => total + step.seconds, 0),
+        usage: generation.usage,
+        cost: generation.cost,
+    };
+    await writeFile(path.join(dir, `${base}.json`), JSON.stringify(manifest, null, 2));
+    return manifest;
+};
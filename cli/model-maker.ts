@@ -0,0 +1,112 @@
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { VIEWS } from '../services/generation';
+import type { StepState } from '../services/pipeline/engine';
+import type { ViewKey } from '../services/reconstruction';
+import { DEFAULT_PRICES, formatCost } from '../services/usage';
+import { stripExtension } from '../utils/files';
+import { createHeadlessClients, generateModel, headlessProviders, readPhoto, writeGenerationOutputs } from './headless';
+
+const USAGE = `Usage: model-maker generate <photo>... [options]
+       model-maker generate --url <product page> [options]
+       model-maker backends
+
+Generates a 3D model from up to three product photos, writing the GLB, the
+view images and a JSON manifest.
+
+Options:
+  --out <file.glb>        Where to write the model (default: <first photo>.glb)
+  --url <page>            Import the photo from a product page instead
+  --backend <id>          Reconstruction backend (see "model-maker backends")
+  --views <list>          Views to generate, e.g. front,back,left
+  --image-model <id>      Gemini image model
+  --background <color>    Background color of the generated views
+  --max-wait <minutes>    Give up on the reconstruction after this long
+  --standins              Use the offline stand-ins instead of Gemini and fal
+
+Credentials are read from GEMINI_API_KEY and FAL_KEY, e.g. with
+node --env-file=.env.local.`;
+
+const fail = (message: string, code = 1): never => {
+    console.error(message);
+    process.exit(code);
+};
+
+/** Prints each step once it starts, finishes or fails, and reconstruction progress as it changes. */
+const progressPrinter = () => {
+    const printed = new Map<string, string>();
+    return (steps: StepState[]) => steps.forEach(step => {
+        const line = step.status === 'loading' ? `… ${step.label}${step.message ? `: ${step.message}` : ''}`
+            : step.status === 'done' ? `✓ ${step.label} (${step.seconds.toFixed(1)}s)`
+            : step.status === 'error' ? `✗ ${step.label}: ${step.error}`
+            : null;
+        if (line && printed.get(step.id) !== line) {
+            printed.set(step.id, line);
+            console.error(line);
+        }
+    });
+};
+
+const parseViews = (value: string) => value.split(',').map(view => {
+    const key = view.trim();
+    if (!VIEWS.some(v => v.key === key)) fail(`Unknown view "${key}". Available: ${VIEWS.map(v => v.key).join(', ')}.`, 2);
+    return key as ViewKey;
+});
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'out': { type: 'string', short: 'o' },
+            'url': { type: 'string' },
+            'backend': { type: 'string' },
+            'views': { type: 'string' },
+            'image-model': { type: 'string' },
+            'background': { type: 'string' },
+            'max-wait': { type: 'string' },
+            'standins': { type: 'boolean' },
+            'help': { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...photoPaths] = positionals;
+    if (values.help || !command) return console.log(USAGE);
+
+    const clients = createHeadlessClients(values.standins ? { ...process.env, API_STANDINS: '1' } : process.env);
+    if (command === 'backends') {
+        headlessProviders(clients).forEach(provider => console.log(`${provider.id}\t${provider.label}: ${provider.description}`));
+        return;
+    }
+    if (command !== 'generate') fail(`Unknown command "${command}".\n\n${USAGE}`, 2);
+    if (photoPaths.length === 0 && !values.url) fail(`Give at least one photo or --url.\n\n${USAGE}`, 2);
+
+    const maxWaitMinutes = values['max-wait'] !== undefined ? Number(values['max-wait']) : undefined;
+    if (maxWaitMinutes !== undefined && !(maxWaitMinutes > 0)) fail('--max-wait must be a number of minutes.', 2);
+    const outPath = values.out ?? `${photoPaths[0] ? stripExtension(path.basename(photoPaths[0])) : 'model'}.glb`;
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.error('Cancelling...');
+        controller.abort();
+    });
+
+    const generation = await generateModel({
+        photos: await Promise.all(photoPaths.map(readPhoto)),
+        productUrl: values.url,
+        providerId: values.backend,
+        settings: {
+            ...(values.views ? { views: parseViews(values.views) } : {}),
+            ...(values['image-model'] ? { imageModel: values['image-model'] } : {}),
+            ...(values.background ? { backgroundColor: values.background } : {}),
+            ...(maxWaitMinutes !== undefined ? { maxWaitMinutes } : {}),
+        },
+        clients,
+        // The stand-ins call no paid service, so their runs cost nothing.
+        ...(values.standins ? { prices: Object.fromEntries(Object.keys(DEFAULT_PRICES).map(model => [model, 0])) } : {}),
+        onProgress: progressPrinter(),
+        signal: controller.signal,
+    });
+    const manifest = await writeGenerationOutputs(generation, outPath);
+    console.log(`Wrote ${outPath} (${manifest.views.length} views, estimated cost ${formatCost(manifest.cost)}).`);
+};
+
+main().catch(e => fail(`Generation failed: ${e?.message || e}`));
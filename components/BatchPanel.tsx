@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { BatchQueue, BatchItem } from '../services/batchQueue';
+import { collectDroppedFiles, groupFilesIntoProducts, parseProductUrlCsv } from '../services/batchInputs';
+import { createZip, uniqueEntryName, ZipEntry } from '../utils/zip';
+import { dataUrlToBlob, extensionForMimeType, mimeTypeOfDataUrl, saveBlob } from '../utils/files';
+
+interface BatchPanelProps {
+    // Owned by the caller so the batch keeps running while the panel is hidden.
+    queue: BatchQueue;
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+    queued: 'Queued',
+    running: 'Running',
+    done: 'Done',
+    error: 'Failed',
+};
+
+const BatchPanel = ({ queue }: BatchPanelProps) => {
+    const [, setVersion] = useState(0);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    const [inputError, setInputError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = queue.subscribe(() => setVersion((v: number) => v + 1));
+        return () => unsubscribe();
+    }, [queue]);
+
+    const addFiles = (files: File[]) => {
+        setInputError(null);
+        const products = groupFilesIntoProducts(files);
+        if (products.length === 0) {
+            setInputError("No images found. Drop a folder of product photos or image files.");
+            return;
+        }
+        queue.add(products);
+    };
+
+    const addCsv = async (file: File) => {
+        setInputError(null);
+        let inputs;
+        try {
+            inputs = parseProductUrlCsv(await file.text());
+        } catch (e: any) {
+            console.error(`Failed to read ${file.name}:`, e);
+            setInputError(`Could not read ${file.name}. ${e.message || ''}`.trim());
+            return;
+        }
+        if (inputs.length === 0) {
+            setInputError(`No product page URLs found in ${file.name}.`);
+            return;
+        }
+        queue.add(inputs);
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        let files: File[];
+        try {
+            files = await collectDroppedFiles(e.dataTransfer);
+        } catch (e: any) {
+            console.error("Failed to read the dropped files:", e);
+            setInputError("Could not read the dropped files.");
+            return;
+        }
+        const csv = files.find(file => file.name.toLowerCase().endsWith('.csv'));
+        if (csv) await addCsv(csv);
+        const images = files.filter(file => file.type.startsWith('image/'));
+        if (images.length > 0 || !csv) addFiles(images);
+    };
+
+    const downloadAll = async () => {
+        const done = queue.items.filter(item => item.status === 'done' && item.model);
+        if (done.length === 0) return;
+        setIsZipping(true);
+        try {
+            const taken = new Set<string>();
+            const entries: ZipEntry[] = [];
+            for (const item of done) {
+                const folder = uniqueEntryName(item.name, taken);
+                entries.push({ path: `${folder}/${folder}.glb`, data: item.model! });
+                for (const view of item.views ?? []) {
+                    const extension = extensionForMimeType(mimeTypeOfDataUrl(view.url), 'png');
+                    entries.push({ path: `${folder}/views/${view.key}.${extension}`, data: await dataUrlToBlob(view.url) });
+                }
+            }
+            saveBlob(await createZip(entries), `batch-${new Date().toISOString().slice(0, 10)}.zip`);
+        } catch (e: any) {
+            console.error("Failed to build batch download:", e);
+            setInputError(e.message || "Failed to build the batch download.");
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const renderStepIcon = (status: string) => {
+        if (status === 'loading') return <div className="spinner-small"></div>;
+        if (status === 'done') return <span>✅</span>;
+        if (status === 'error') return <span>❌</span>;
+        return <span className="batch-step-pending">•</span>;
+    };
+
+    const counts = queue.items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] ?? 0) + 1 }), {} as Record<string, number>);
+    const hasFailed = (counts.error ?? 0) > 0;
+    const hasDone = (counts.done ?? 0) > 0;
+
+    return (
+        <div className="batch-panel">
+            <div
+                className={`upload-area ${isDragging ? 'drag-over' : ''}`}
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+                onDrop={handleDrop}
+            >
+                <p>Drop a <span>folder of product photos</span> or a <span>CSV of product page URLs</span></p>
+                <p className="batch-hint">Images are grouped per product by subfolder, or by filename (e.g. <code>sku123_front.jpg</code>, <code>sku123_back.jpg</code>). Up to 3 images per product.</p>
+                <div className="batch-pickers">
+                    <button className="secondary-button" onClick={() => document.getElementById('batch-folder-input')?.click()}>Choose Folder</button>
+                    <button className="secondary-button" onClick={() => document.getElementById('batch-files-input')?.click()}>Choose Images</button>
+                    <button className="secondary-button" onClick={() => document.getElementById('batch-csv-input')?.click()}>Import CSV</button>
+                </div>
+                <input type="file" id="batch-folder-input" multiple {...{ webkitdirectory: '' }} style={{ display: 'none' }}
+                    onChange={(e) => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+                <input type="file" id="batch-files-input" multiple accept="image/*" style={{ display: 'none' }}
+                    onChange={(e) => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+                <input type="file" id="batch-csv-input" accept=".csv,text/csv" style={{ display: 'none' }}
+                    onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) await addCsv(file);
+                    }} />
+            </div>
+            {inputError && <div className="error-message small">{inputError}</div>}
+
+            {queue.items.length > 0 && (
+                <>
+                    <div className="batch-toolbar">
+                        <label className="batch-concurrency">
+                            Concurrency
+                            <input type="number" min={1} max={8} value={queue.concurrency}
+                                onChange={(e) => queue.setConcurrency(Number(e.target.value))} />
+                        </label>
+                        <span className="batch-summary">
+                            {queue.items.length} products · {counts.done ?? 0} done · {counts.running ?? 0} running · {counts.queued ?? 0} queued · {counts.error ?? 0} failed
+                        </span>
+                        <div className="batch-buttons">
+                            {queue.paused
+                                ? <button className="secondary-button" onClick={() => queue.resume()}>Resume</button>
+                                : <button className="secondary-button" onClick={() => queue.pause()}>Pause</button>}
+                            <button className="secondary-button" onClick={() => queue.retryFailed()} disabled={!hasFailed}>Retry Failed</button>
+                            <button className="secondary-button" onClick={() => queue.clearFinished()}>Clear Finished</button>
+                        </div>
+                    </div>
+                    {queue.paused && <p className="batch-hint">Paused — running items will finish, queued items wait.</p>}
+
+                    <ul className="batch-list">
+                        {queue.items.map(item => (
+                            <li key={item.id} className={`batch-item ${item.status}`}>
+                                <div className="batch-item-header">
+                                    <span className="batch-item-name" title={item.sourceUrl || item.files.map(f => f.name).join(', ')}>{item.name}</span>
+                                    <span className={`batch-status ${item.status}`}>{STATUS_LABELS[item.status]}</span>
+                                    {item.fidelity && <span className="batch-fidelity" title="Fidelity score">{Math.round(item.fidelity.score * 100)}%</span>}
+                                    {item.status === 'error' && <button className="secondary-button" onClick={() => queue.retry(item.id)}>Retry</button>}
+                                    {(item.status === 'queued' || item.status === 'error') && (
+                                        <button className="remove-inline" onClick={() => queue.remove(item.id)} aria-label={`Remove ${item.name}`}>×</button>
+                                    )}
+                                </div>
+                                <ul className="batch-steps">
+                                    {item.steps.filter(step => step.status !== 'skipped').map(step => (
+                                        <li key={step.id} className={`batch-step ${step.status}`}>
+                                            {renderStepIcon(step.status)}
+                                            <span>{step.label}</span>
+                                            {step.status === 'done' && <span className="step-time">{step.seconds.toFixed(1)}s</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {item.error && <div className="error-message small">{item.error}</div>}
+                            </li>
+                        ))}
+                    </ul>
+
+                    <button className="action-button" onClick={downloadAll} disabled={!hasDone || isZipping}>
+                        {isZipping ? 'Preparing download...' : `Download All Completed (${counts.done ?? 0}) as .zip`}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BatchPanel;
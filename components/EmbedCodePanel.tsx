@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { buildEmbedSnippet, EMBED_SCRIPT_PATH } from '../services/embed';
+import { exportModel } from '../services/exporters';
+import { ViewerOptions } from '../services/viewer';
+import { saveBlob } from '../utils/files';
+
+interface EmbedCodePanelProps {
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    // Original GLB to download as-is; omit to re-encode the loaded model.
+    modelUrl?: string;
+    baseName: string;
+    // The embed uses the viewer's current auto-rotate, background and lighting.
+    viewerOptions: ViewerOptions;
+    capturePoster: () => Promise<Blob>;
+}
+
+const EmbedCodePanel = ({ getModel, modelUrl, baseName, viewerOptions, capturePoster }: EmbedCodePanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [scriptUrl, setScriptUrl] = useState(() => `${window.location.origin}${EMBED_SCRIPT_PATH}`);
+    const [modelFileUrl, setModelFileUrl] = useState(`${baseName}.glb`);
+    const [posterUrl, setPosterUrl] = useState(`${baseName}-poster.png`);
+    const [alt, setAlt] = useState(baseName);
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [embedError, setEmbedError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const snippet = buildEmbedSnippet({
+        scriptUrl,
+        modelUrl: modelFileUrl,
+        posterUrl,
+        alt,
+        autoRotate: viewerOptions.autoRotate,
+        background: viewerOptions.background,
+        lighting: viewerOptions.lighting,
+    });
+
+    const downloadModel = async () => {
+        setIsDownloading(true);
+        setEmbedError(null);
+        try {
+            const model = getModel();
+            if (!model) throw new Error('The model is still loading. Try again in a moment.');
+            const result = await exportModel(model, 'glb', baseName, modelUrl);
+            saveBlob(result.blob, result.filename);
+        } catch (e: any) {
+            console.error("Embed model download failed:", e);
+            setEmbedError(e.message || "Failed to export the model.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const downloadPoster = async () => {
+        setEmbedError(null);
+        try {
+            saveBlob(await capturePoster(), `${baseName}-poster.png`);
+        } catch (e: any) {
+            console.error("Poster capture failed:", e);
+            setEmbedError(e.message || "Failed to capture the poster.");
+        }
+    };
+
+    const copySnippet = async () => {
+        try {
+            await navigator.clipboard.writeText(snippet);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (e) {
+            console.error("Copy failed:", e);
+            setEmbedError('Could not copy to the clipboard; select the code and copy it manually.');
+        }
+    };
+
+    if (!isOpen) {
+        return <button className="secondary-button" onClick={() => setIsOpen(true)}>Get Embed Code</button>;
+    }
+
+    return (
+        <div className="embed-panel">
+            <div className="embed-header">
+                <strong>Embed on a product page</strong>
+                <button className="remove-inline" onClick={() => setIsOpen(false)} aria-label="Close embed code">×</button>
+            </div>
+            <p className="embed-description">
+                Upload the model and poster next to your page (or enter where they are hosted). The viewer uses the current auto-rotate, background and lighting.
+            </p>
+            <div className="embed-fields">
+                <label>
+                    Model URL
+                    <input type="text" value={modelFileUrl} onChange={(e) => setModelFileUrl(e.target.value)} />
+                </label>
+                <label>
+                    Poster URL
+                    <input type="text" value={posterUrl} onChange={(e) => setPosterUrl(e.target.value)} placeholder="Optional" />
+                </label>
+                <label>
+                    Alt text
+                    <input type="text" value={alt} onChange={(e) => setAlt(e.target.value)} />
+                </label>
+                <label>
+                    Viewer script
+                    <input type="text" value={scriptUrl} onChange={(e) => setScriptUrl(e.target.value)} />
+                </label>
+            </div>
+            <textarea className="embed-code" readOnly value={snippet} rows={snippet.split('\n').length} onFocus={(e) => e.target.select()} />
+            <div className="embed-actions">
+                <button className="secondary-button" onClick={downloadModel} disabled={isDownloading}>{isDownloading ? 'Exporting...' : 'Download GLB'}</button>
+                <button className="secondary-button" onClick={downloadPoster}>Download Poster</button>
+                <button className="action-button" onClick={copySnippet}>{copied ? 'Copied!' : 'Copy Code'}</button>
+            </div>
+            {embedError && <div className="error-message small">{embedError}</div>}
+        </div>
+    );
+};
+
+export default EmbedCodePanel;
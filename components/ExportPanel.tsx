@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { EXPORT_FORMATS, exportModel, ExportFormat } from '../services/exporters';
+import { saveBlob } from '../utils/files';
+
+interface ExportPanelProps {
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    // Original GLB, downloaded as-is when GLB is selected; omit to re-encode the loaded model.
+    modelUrl?: string;
+    baseName: string;
+    // Whether the model has been calibrated to meters.
+    inMeters?: boolean;
+}
+
+const ExportPanel = ({ getModel, modelUrl, baseName, inMeters = false }: ExportPanelProps) => {
+    const [format, setFormat] = useState<ExportFormat>('glb');
+    const [isExporting, setIsExporting] = useState(false);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [lastExport, setLastExport] = useState<string | null>(null);
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        setWarnings([]);
+        setLastExport(null);
+        try {
+            const model = getModel();
+            if (!model) throw new Error('The model is still loading. Try again in a moment.');
+            const result = await exportModel(model, format, baseName, modelUrl, inMeters);
+            saveBlob(result.blob, result.filename);
+            setWarnings(result.warnings);
+            setLastExport(result.filename);
+        } catch (e: any) {
+            console.error("Export failed:", e);
+            setExportError(e.message || "Failed to export the model.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const selected = EXPORT_FORMATS.find(f => f.id === format)!;
+
+    return (
+        <div className="export-panel">
+            <div className="export-controls">
+                <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} disabled={isExporting} aria-label="Export format">
+                    {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+                <button onClick={handleExport} className="action-button" disabled={isExporting}>
+                    {isExporting ? 'Converting...' : `Download 3D Model (${selected.label})`}
+                </button>
+            </div>
+            <p className="export-description">{selected.description}</p>
+            {exportError && <div className="error-message small">{exportError}</div>}
+            {lastExport && (
+                <div className="export-report">
+                    {warnings.length === 0
+                        ? <p>{lastExport} exported with no loss.</p>
+                        : (
+                            <>
+                                <p>{lastExport} — lost in conversion:</p>
+                                <ul>{warnings.map(warning => <li key={warning}>{warning}</li>)}</ul>
+                            </>
+                        )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportPanel;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import type { FidelityReport } from '../services/fidelity';
+
+interface FidelitySectionProps {
+    // null until a check has run.
+    report: FidelityReport | null;
+    // Percentage below which the model is flagged.
+    threshold: number;
+    isChecking: boolean;
+    onCheck: () => void;
+    onRegenerate?: () => void;
+    error: string | null;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+/** Shows a view by its URL, or a photo through an object URL that is revoked with the image. */
+const ReferenceImage = ({ image, alt }: { image: string | File; alt: string }) => {
+    const [url, setUrl] = useState(typeof image === 'string' ? image : '');
+
+    useEffect(() => {
+        if (typeof image === 'string') {
+            setUrl(image);
+            return;
+        }
+        const objectUrl = URL.createObjectURL(image);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [image]);
+
+    return url ? <img src={url} alt={alt} /> : null;
+};
+
+/** Side-by-side renders of the model and the images it was made from, with similarity scores. */
+const FidelitySection = ({ report, threshold, isChecking, onCheck, onRegenerate, error }: FidelitySectionProps) => {
+    const isLow = !!report && report.score * 100 < threshold;
+
+    return (
+        <div className="summary-section">
+            <h3>Fidelity</h3>
+            {report ? (
+                <>
+                    <p className={`fidelity-score ${isLow ? 'low' : ''}`}>
+                        Overall score: <strong>{percent(report.score)}</strong>
+                        {isLow && ` — below ${threshold}%, the model may not match the product.`}
+                    </p>
+                    <div className="fidelity-grid">
+                        {report.comparisons.map((comparison, i) => (
+                            <div key={i} className="fidelity-row">
+                                <ReferenceImage image={comparison.referenceImage} alt={comparison.label} />
+                                <img src={comparison.renderUrl} alt={`Model, ${comparison.angle}`} className="fidelity-render" />
+                                <div className="fidelity-details">
+                                    <span>{comparison.label}</span>
+                                    <span>Silhouette {percent(comparison.silhouette)} · Color {percent(comparison.color)}</span>
+                                    <strong>{percent(comparison.score)}</strong>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <p className="stats-pending">Compare renders of the model with the generated views and your photos.</p>
+            )}
+            <div className="fidelity-actions">
+                <button className="secondary-button" onClick={onCheck} disabled={isChecking}>
+                    {isChecking ? 'Checking...' : report ? 'Check Again' : 'Check Fidelity'}
+                </button>
+                {isLow && onRegenerate && <button className="secondary-button" onClick={onRegenerate}>Regenerate 3D Model</button>}
+            </div>
+            {error && <div className="error-message small">{error}</div>}
+        </div>
+    );
+};
+
+export default FidelitySection;
@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { GenerationRecord } from '../services/historyStore';
+
+interface HistoryGalleryProps {
+    records: GenerationRecord[];
+    onOpen: (record: GenerationRecord) => void;
+    onDownload: (record: GenerationRecord) => void;
+    onRename: (record: GenerationRecord, name: string) => void;
+    onDelete: (record: GenerationRecord) => void;
+}
+
+const HistoryGallery = ({ records, onOpen, onDownload, onRename, onDelete }: HistoryGalleryProps) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const thumbnails: Record<string, string> = useMemo(() => {
+        const urls: Record<string, string> = {};
+        records.forEach(record => {
+            const thumb = record.views[0]?.blob ?? record.originals[0]?.blob;
+            if (thumb) urls[record.id] = URL.createObjectURL(thumb);
+        });
+        return urls;
+    }, [records]);
+
+    useEffect(() => () => Object.values(thumbnails).forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+    if (records.length === 0) return null;
+
+    const startRename = (record: GenerationRecord) => {
+        setEditingId(record.id);
+        setDraftName(record.name);
+    };
+
+    const commitRename = (record: GenerationRecord) => {
+        const name = draftName.trim();
+        if (name && name !== record.name) onRename(record, name);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="history-section">
+            <h2>Generation History</h2>
+            <p className="step-subtitle">Your past models are stored in this browser.</p>
+            <div className="history-grid">
+                {records.map(record => (
+                    <div key={record.id} className="history-card">
+                        <button className="history-thumb" onClick={() => onOpen(record)} title="Open in viewer">
+                            {thumbnails[record.id] && <img src={thumbnails[record.id]} alt={record.name} />}
+                        </button>
+                        {editingId === record.id ? (
+                            <input
+                                className="history-name-input"
+                                value={draftName}
+                                autoFocus
+                                onChange={(e) => setDraftName(e.target.value)}
+                                onBlur={() => commitRename(record)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commitRename(record);
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                aria-label="Model name"
+                            />
+                        ) : (
+                            <p className="history-name" title={record.name}>{record.name}</p>
+                        )}
+                        <p className="history-date">{new Date(record.createdAt).toLocaleString()}</p>
+                        <div className="history-actions">
+                            <button className="secondary-button" onClick={() => onOpen(record)}>Open</button>
+                            <button className="secondary-button" onClick={() => onDownload(record)}>.glb</button>
+                            <button className="secondary-button" onClick={() => startRename(record)}>Rename</button>
+                            <button className="secondary-button danger" onClick={() => onDelete(record)}>Delete</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryGallery;
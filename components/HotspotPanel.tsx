@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Hotspot, safeHotspotLink } from '../services/hotspots';
+
+interface HotspotPanelProps {
+    hotspots: Hotspot[];
+    onChange: (hotspots: Hotspot[]) => void;
+    // Whether the next click on the model places a hotspot.
+    isPicking: boolean;
+    onPickingChange: (picking: boolean) => void;
+    // Index of the hotspot whose card is open in the viewer.
+    selected: number | null;
+    onSelect: (index: number | null) => void;
+    // True while the viewer is still loading the model.
+    disabled: boolean;
+}
+
+const HotspotPanel = ({ hotspots, onChange, isPicking, onPickingChange, selected, onSelect, disabled }: HotspotPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (!isOpen) {
+        return (
+            <button className="secondary-button hotspot-toggle" onClick={() => setIsOpen(true)}>
+                {hotspots.length > 0 ? `Edit Hotspots (${hotspots.length})...` : 'Add Product Hotspots...'}
+            </button>
+        );
+    }
+
+    const close = () => {
+        onPickingChange(false);
+        setIsOpen(false);
+    };
+
+    const update = (index: number, patch: Partial<Hotspot>) =>
+        onChange(hotspots.map((hotspot, i) => i === index ? { ...hotspot, ...patch } : hotspot));
+
+    const move = (index: number, offset: number) => {
+        const next = [...hotspots];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+        if (selected === index) onSelect(index + offset);
+        else if (selected === index + offset) onSelect(index);
+    };
+
+    const remove = (index: number) => {
+        onChange(hotspots.filter((_, i) => i !== index));
+        if (selected === index) onSelect(null);
+        else if (selected !== null && selected > index) onSelect(selected - 1);
+    };
+
+    return (
+        <div className="hotspot-panel">
+            <div className="hotspot-header">
+                <h3>Hotspots</h3>
+                <button className="remove-inline" onClick={close} aria-label="Close hotspot editor">×</button>
+            </div>
+            <div className="hotspot-actions">
+                <button className={`secondary-button ${isPicking ? 'active' : ''}`} onClick={() => onPickingChange(!isPicking)} disabled={disabled} aria-pressed={isPicking}>
+                    {isPicking ? 'Click the Model...' : 'Add Hotspot'}
+                </button>
+                {hotspots.length > 0 && <button className="secondary-button" onClick={() => { onSelect(null); onChange([]); }}>Remove All</button>}
+            </div>
+            {hotspots.length === 0 ? (
+                <p className="hotspot-note">Point out features, e.g. materials or a hidden pocket: click Add Hotspot, then click the spot on the model.</p>
+            ) : (
+                <ol className="hotspot-list">
+                    {hotspots.map((hotspot, i) => (
+                        <li key={hotspot.id} className={selected === i ? 'selected' : ''}>
+                            <div className="hotspot-row">
+                                <button className="hotspot-number" onClick={() => onSelect(selected === i ? null : i)} aria-pressed={selected === i} aria-label={`Show hotspot ${i + 1} in the viewer`}>{i + 1}</button>
+                                <input type="text" value={hotspot.title} onChange={(e) => update(i, { title: e.target.value })} placeholder="Title" aria-label={`Hotspot ${i + 1} title`} />
+                                <button className="remove-inline" onClick={() => move(i, -1)} disabled={i === 0} aria-label={`Move hotspot ${i + 1} up`}>↑</button>
+                                <button className="remove-inline" onClick={() => move(i, 1)} disabled={i === hotspots.length - 1} aria-label={`Move hotspot ${i + 1} down`}>↓</button>
+                                <button className="remove-inline" onClick={() => remove(i)} aria-label={`Delete hotspot ${i + 1}`}>×</button>
+                            </div>
+                            <textarea value={hotspot.description} onChange={(e) => update(i, { description: e.target.value })} placeholder="Description" rows={2} aria-label={`Hotspot ${i + 1} description`} />
+                            <input type="url" value={hotspot.url} onChange={(e) => update(i, { url: e.target.value.trim() })} placeholder="Link (optional), https://..." aria-label={`Hotspot ${i + 1} link`} />
+                            {hotspot.url && !safeHotspotLink(hotspot.url) && <div className="error-message small">Only http:// and https:// links are shown.</div>}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            <p className="hotspot-note">Hotspots are saved in every GLB download and shown by the embeddable viewer.</p>
+        </div>
+    );
+};
+
+export default HotspotPanel;
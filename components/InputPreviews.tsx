@@ -0,0 +1,70 @@
+import React from 'react';
+import { PreprocessResult } from '../services/preprocess';
+
+export interface CleanedInput {
+    status: 'pending' | 'done' | 'error';
+    result?: PreprocessResult;
+    url?: string;
+    error?: string;
+}
+
+interface InputPreviewsProps {
+    files: File[];
+    // Cleaned versions keyed by the original file; only used when `showCleaned` is set.
+    cleaned: Map<File, CleanedInput>;
+    showCleaned: boolean;
+    onToggleCleaned: (enabled: boolean) => void;
+    onRemove: (index: number) => void;
+}
+
+const InputPreviews = ({ files, cleaned, showCleaned, onToggleCleaned, onRemove }: InputPreviewsProps) => {
+    const renderCleaned = (file: File) => {
+        const entry = cleaned.get(file);
+        if (!entry || entry.status === 'pending') {
+            return <div className="cleaned-placeholder"><div className="spinner-small"></div></div>;
+        }
+        if (entry.status === 'error') {
+            return <div className="cleaned-placeholder error" title={entry.error}>Cleanup failed; the original will be used.</div>;
+        }
+        return (
+            <>
+                <img src={entry.url} alt={`cleaned ${file.name}`} />
+                {!entry.result!.segmented && <span className="cleaned-note">No clear background found; only centered.</span>}
+            </>
+        );
+    };
+
+    return (
+        <div className="input-previews">
+            <label className="preprocess-toggle">
+                <input type="checkbox" checked={showCleaned} onChange={(e) => onToggleCleaned(e.target.checked)} />
+                Clean up photos on this device (remove background, crop and center)
+            </label>
+            {showCleaned ? (
+                <div className="cleaned-previews">
+                    {files.map((file, index) => (
+                        <div key={index} className="cleaned-pair">
+                            <div className="preview-item">
+                                <img src={URL.createObjectURL(file)} alt={`preview ${index}`} />
+                                <button onClick={() => onRemove(index)} className="remove-btn" aria-label="Remove image">×</button>
+                            </div>
+                            <span className="cleaned-arrow">→</span>
+                            <div className="preview-item cleaned">{renderCleaned(file)}</div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="image-previews">
+                    {files.map((file, index) => (
+                        <div key={index} className="preview-item">
+                            <img src={URL.createObjectURL(file)} alt={`preview ${index}`} />
+                            <button onClick={() => onRemove(index)} className="remove-btn" aria-label="Remove image">×</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default InputPreviews;
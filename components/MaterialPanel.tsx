@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { exportModel } from '../services/exporters';
+import { isSameSettings, MaterialEdits, MaterialSettings, ModelMaterial } from '../services/materials';
+import { saveBlob } from '../utils/files';
+
+interface MaterialPanelProps {
+    materials: ModelMaterial[];
+    edits: MaterialEdits;
+    onChange: (edits: MaterialEdits) => void;
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    baseName: string;
+    // Whether the model has been calibrated to meters.
+    inMeters: boolean;
+}
+
+const MAX_UNDO = 50;
+
+const SLIDERS: { key: keyof MaterialSettings; label: string; min: number; max: number; step: number; percent?: boolean; texture?: boolean }[] = [
+    { key: 'roughness', label: 'Roughness', min: 0, max: 1, step: 0.01 },
+    { key: 'metalness', label: 'Metalness', min: 0, max: 1, step: 0.01 },
+    { key: 'emissiveIntensity', label: 'Emissive strength', min: 0, max: 5, step: 0.05 },
+    { key: 'brightness', label: 'Texture brightness', min: 0, max: 2, step: 0.01, percent: true, texture: true },
+    { key: 'contrast', label: 'Texture contrast', min: 0, max: 2, step: 0.01, percent: true, texture: true },
+    { key: 'saturation', label: 'Texture saturation', min: 0, max: 2, step: 0.01, percent: true, texture: true },
+];
+
+const MaterialPanel = ({ materials, edits, onChange, getModel, baseName, inMeters }: MaterialPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [selected, setSelected] = useState(0);
+    const [undoStack, setUndoStack] = useState<MaterialEdits[]>([]);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    // The control being changed; a slider drag or color pick is one undo step.
+    const lastChange = useRef<string | null>(null);
+
+    // A newly loaded model starts a new history.
+    useEffect(() => {
+        setUndoStack([]);
+        lastChange.current = null;
+    }, [materials]);
+
+    if (!isOpen) {
+        return <button className="secondary-button material-toggle" onClick={() => setIsOpen(true)}>Edit Materials (color, gloss, texture)...</button>;
+    }
+
+    const material = materials[Math.min(selected, materials.length - 1)];
+    const settings = material ? edits[material.index] ?? material.original : null;
+
+    const commit = (next: MaterialEdits, change: string | null) => {
+        if (change === null || change !== lastChange.current) setUndoStack((prev: MaterialEdits[]) => [...prev, edits].slice(-MAX_UNDO));
+        lastChange.current = change;
+        onChange(next);
+    };
+
+    const update = (patch: Partial<MaterialSettings>) => {
+        if (!material || !settings) return;
+        const next = { ...edits };
+        const updated = { ...settings, ...patch };
+        if (isSameSettings(updated, material.original)) delete next[material.index];
+        else next[material.index] = updated;
+        commit(next, `${material.index}:${Object.keys(patch).join()}`);
+    };
+
+    const resetMaterial = () => {
+        if (!material) return;
+        const next = { ...edits };
+        delete next[material.index];
+        commit(next, null);
+    };
+
+    const undo = () => {
+        if (undoStack.length === 0) return;
+        lastChange.current = null;
+        onChange(undoStack[undoStack.length - 1]);
+        setUndoStack((prev: MaterialEdits[]) => prev.slice(0, -1));
+    };
+
+    const handleDownload = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            const model = getModel();
+            if (!model) throw new Error('The model is still loading. Try again in a moment.');
+            const result = await exportModel(model, 'glb', `${baseName}-edited`, undefined, inMeters);
+            saveBlob(result.blob, result.filename);
+        } catch (e: any) {
+            console.error("Export failed:", e);
+            setExportError(e.message || "Failed to export the model.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const hasEdits = Object.keys(edits).length > 0;
+
+    return (
+        <div className="material-panel">
+            <div className="material-header">
+                <h3>Materials</h3>
+                <button className="remove-inline" onClick={() => setIsOpen(false)} aria-label="Close material editor">×</button>
+            </div>
+            {!material || !settings ? (
+                <p className="material-note">This model has no editable materials.</p>
+            ) : (
+                <>
+                    {materials.length > 1 && (
+                        <select value={material.index} onChange={(e) => setSelected(Number(e.target.value))} aria-label="Material">
+                            {materials.map(m => <option key={m.index} value={m.index}>{m.name}{edits[m.index] ? ' (edited)' : ''}</option>)}
+                        </select>
+                    )}
+                    <div className="material-controls" onPointerUp={() => { lastChange.current = null; }} onBlur={() => { lastChange.current = null; }}>
+                        <label>
+                            Base color tint
+                            <input type="color" value={settings.color} onChange={(e) => update({ color: e.target.value })} />
+                        </label>
+                        <label>
+                            Emissive color
+                            <input type="color" value={settings.emissive} onChange={(e) => update({ emissive: e.target.value })} />
+                        </label>
+                        {SLIDERS.filter(slider => !slider.texture || material.hasTexture).map(slider => (
+                            <label key={slider.key}>
+                                {slider.label}
+                                <input type="range" min={slider.min} max={slider.max} step={slider.step} value={settings[slider.key] as number}
+                                    onChange={(e) => update({ [slider.key]: Number(e.target.value) })} />
+                                <span>{slider.percent ? `${Math.round((settings[slider.key] as number) * 100)}%` : (settings[slider.key] as number).toFixed(2)}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="material-actions">
+                        <button className="secondary-button" onClick={undo} disabled={undoStack.length === 0}>Undo</button>
+                        <button className="secondary-button" onClick={resetMaterial} disabled={!edits[material.index]}>Reset Material</button>
+                        <button className="secondary-button" onClick={() => commit({}, null)} disabled={!hasEdits}>Reset All</button>
+                        <button className="secondary-button" onClick={handleDownload} disabled={!hasEdits || isExporting}>
+                            {isExporting ? 'Exporting...' : 'Download Edited GLB'}
+                        </button>
+                    </div>
+                    {exportError && <div className="error-message small">{exportError}</div>}
+                    <p className="material-note">Edits show live in the viewer and are included in every download.</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MaterialPanel;
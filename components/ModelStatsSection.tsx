@@ -0,0 +1,65 @@
+import React from 'react';
+import { ModelStats } from '../services/modelStats';
+import { formatBytes } from '../utils/files';
+import { formatLength } from '../utils/units';
+
+interface ModelStatsSectionProps {
+    // null while the viewer is still loading the model.
+    stats: ModelStats | null;
+    // Whether model units are known to be meters (see scale calibration).
+    calibrated: boolean;
+}
+
+const ModelStatsSection = ({ stats, calibrated }: ModelStatsSectionProps) => {
+    if (!stats) {
+        return (
+            <div className="summary-section">
+                <h3>Model Stats</h3>
+                <p className="stats-pending">Inspecting model...</p>
+            </div>
+        );
+    }
+
+    const { dimensions } = stats;
+    const rows: [string, string][] = [
+        ['File size', stats.fileSizeBytes !== null ? formatBytes(stats.fileSizeBytes) : '—'],
+        ['Vertices', stats.vertices.toLocaleString()],
+        ['Triangles', stats.triangles.toLocaleString()],
+        ['Meshes', String(stats.meshes)],
+        ['Materials', String(stats.materials)],
+        ['Dimensions (W × H × D)', `${formatLength(dimensions.x, calibrated)} × ${formatLength(dimensions.y, calibrated)} × ${formatLength(dimensions.z, calibrated)}`],
+    ];
+
+    return (
+        <div className="summary-section">
+            <h3>Model Stats</h3>
+            <dl className="stats-list">
+                {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                        <dt>{label}</dt>
+                        <dd>{value}</dd>
+                    </React.Fragment>
+                ))}
+                <dt>Textures</dt>
+                <dd>
+                    {stats.textures.length === 0 ? 'None' : (
+                        <ul className="stats-textures">
+                            {stats.textures.map((texture, i) => (
+                                <li key={i}>{texture.slot}: {texture.width}×{texture.height} {texture.format}</li>
+                            ))}
+                        </ul>
+                    )}
+                </dd>
+            </dl>
+            {stats.warnings.length === 0
+                ? <p className="stats-ok">No issues found.</p>
+                : (
+                    <ul className="stats-warnings">
+                        {stats.warnings.map(warning => <li key={warning}>⚠️ {warning}</li>)}
+                    </ul>
+                )}
+        </div>
+    );
+};
+
+export default ModelStatsSection;
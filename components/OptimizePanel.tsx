@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    analyzeGlb,
+    optimizeGlb,
+    DEFAULT_OPTIMIZE_OPTIONS,
+    GeometryCompression,
+    ModelVariant,
+    OptimizeOptions,
+    TextureFormat,
+} from '../services/optimizer';
+import { formatBytes, saveBlob } from '../utils/files';
+
+interface OptimizePanelProps {
+    modelUrl: string;
+    baseName: string;
+    // URL currently shown in the viewer; null means the original model.
+    previewUrl: string | null;
+    onPreview: (url: string | null) => void;
+}
+
+const LOD_PRESETS: Record<number, number[]> = {
+    0: [],
+    1: [0.5],
+    2: [0.5, 0.2],
+    3: [0.5, 0.25, 0.1],
+};
+
+const formatChange = (value: number, original: number) => {
+    if (!original) return '';
+    const change = ((value - original) / original) * 100;
+    return `${change > 0 ? '+' : ''}${change.toFixed(0)}%`;
+};
+
+const OptimizePanel = ({ modelUrl, baseName, previewUrl, onPreview }: OptimizePanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [options, setOptions] = useState<OptimizeOptions>(DEFAULT_OPTIMIZE_OPTIONS);
+    const [reduceTriangles, setReduceTriangles] = useState(true);
+    const [lodCount, setLodCount] = useState(2);
+    const [original, setOriginal] = useState<{ sizeBytes: number; triangles: number } | null>(null);
+    const [variants, setVariants] = useState<ModelVariant[]>([]);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [optimizeError, setOptimizeError] = useState<string | null>(null);
+
+    const variantUrls: Record<string, string> = useMemo(() => {
+        const urls: Record<string, string> = {};
+        variants.forEach(variant => { urls[variant.id] = URL.createObjectURL(variant.blob); });
+        return urls;
+    }, [variants]);
+
+    useEffect(() => () => Object.keys(variantUrls).forEach(id => URL.revokeObjectURL(variantUrls[id])), [variantUrls]);
+
+    // A new source model invalidates previous results.
+    useEffect(() => {
+        setVariants([]);
+        setOriginal(null);
+        setOptimizeError(null);
+    }, [modelUrl]);
+
+    useEffect(() => {
+        if (!isOpen || original) return;
+        let cancelled = false;
+        fetch(modelUrl)
+            .then(response => response.blob())
+            .then(analyzeGlb)
+            .then(stats => { if (!cancelled) setOriginal(stats); })
+            .catch(e => console.error("Failed to analyze model:", e));
+        return () => { cancelled = true; };
+    }, [isOpen, modelUrl, original]);
+
+    const update = (patch: Partial<OptimizeOptions>) => setOptions((prev: OptimizeOptions) => ({ ...prev, ...patch }));
+
+    const runOptimization = async () => {
+        setOptimizeError(null);
+        setProgress('Loading model...');
+        onPreview(null);
+        try {
+            const source = await (await fetch(modelUrl)).blob();
+            const result = await optimizeGlb(source, {
+                ...options,
+                targetTriangles: reduceTriangles ? options.targetTriangles : null,
+                lodRatios: LOD_PRESETS[lodCount],
+            }, setProgress);
+            setVariants(result);
+        } catch (e: any) {
+            console.error("Optimization failed:", e);
+            setOptimizeError(e.message || "Failed to optimize the model.");
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    if (!isOpen) {
+        return <button className="secondary-button optimize-toggle" onClick={() => setIsOpen(true)}>Optimize for Web (decimate, LODs, compression)...</button>;
+    }
+
+    return (
+        <div className="optimize-panel">
+            <div className="optimize-header">
+                <h3>Optimize Model</h3>
+                <button className="remove-inline" onClick={() => { setIsOpen(false); onPreview(null); }} aria-label="Close optimizer">×</button>
+            </div>
+            <div className="optimize-options">
+                <label>
+                    <input type="checkbox" checked={reduceTriangles} onChange={(e) => setReduceTriangles(e.target.checked)} />
+                    Triangle budget
+                    <input type="number" min={100} step={1000} value={options.targetTriangles ?? 0} disabled={!reduceTriangles}
+                        onChange={(e) => update({ targetTriangles: Math.max(100, Number(e.target.value) || 0) })} />
+                </label>
+                <label>
+                    Extra LODs
+                    <select value={lodCount} onChange={(e) => setLodCount(Number(e.target.value))}>
+                        {Object.keys(LOD_PRESETS).map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Max texture size
+                    <select value={options.maxTextureSize ?? 0} onChange={(e) => update({ maxTextureSize: Number(e.target.value) || null })}>
+                        <option value={0}>Keep</option>
+                        <option value={2048}>2048 px</option>
+                        <option value={1024}>1024 px</option>
+                        <option value={512}>512 px</option>
+                    </select>
+                </label>
+                <label>
+                    Texture format
+                    <select value={options.textureFormat} onChange={(e) => update({ textureFormat: e.target.value as TextureFormat })}>
+                        <option value="keep">Keep original</option>
+                        <option value="webp">WebP (EXT_texture_webp)</option>
+                        <option value="jpeg">JPEG</option>
+                        <option value="png">PNG</option>
+                    </select>
+                </label>
+                <label>
+                    Texture quality
+                    <input type="range" min={0.4} max={1} step={0.05} value={options.textureQuality}
+                        disabled={options.textureFormat === 'png'}
+                        onChange={(e) => update({ textureQuality: Number(e.target.value) })} />
+                    <span>{Math.round(options.textureQuality * 100)}</span>
+                </label>
+                <label>
+                    Geometry compression
+                    <select value={options.compression} onChange={(e) => update({ compression: e.target.value as GeometryCompression })}>
+                        <option value="none">None</option>
+                        <option value="quantize">Quantize (KHR_mesh_quantization)</option>
+                        <option value="meshopt">Meshopt (EXT_meshopt_compression)</option>
+                    </select>
+                </label>
+            </div>
+            <button className="action-button" onClick={runOptimization} disabled={!!progress}>
+                {progress ?? 'Optimize'}
+            </button>
+            {optimizeError && <div className="error-message small">{optimizeError}</div>}
+
+            {(original || variants.length > 0) && (
+                <table className="optimize-table">
+                    <thead>
+                        <tr><th>Variant</th><th>Size</th><th>Triangles</th><th></th></tr>
+                    </thead>
+                    <tbody>
+                        {original && (
+                            <tr className={previewUrl === null ? 'active' : ''}>
+                                <td>Original</td>
+                                <td>{formatBytes(original.sizeBytes)}</td>
+                                <td>{original.triangles.toLocaleString()}</td>
+                                <td><button className="secondary-button" onClick={() => onPreview(null)}>Preview</button></td>
+                            </tr>
+                        )}
+                        {variants.map(variant => (
+                            <tr key={variant.id} className={previewUrl === variantUrls[variant.id] ? 'active' : ''}>
+                                <td>{variant.label}</td>
+                                <td>{formatBytes(variant.sizeBytes)} <span className="optimize-change">{original && formatChange(variant.sizeBytes, original.sizeBytes)}</span></td>
+                                <td>{variant.triangles.toLocaleString()} <span className="optimize-change">{original && formatChange(variant.triangles, original.triangles)}</span></td>
+                                <td className="optimize-actions">
+                                    <button className="secondary-button" onClick={() => onPreview(variantUrls[variant.id])}>Preview</button>
+                                    <button className="secondary-button" onClick={() => saveBlob(variant.blob, `${baseName}-${variant.id}.glb`)}>Download</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default OptimizePanel;
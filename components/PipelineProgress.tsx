@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import type { StepState } from '../services/pipeline/engine';
+
+interface PipelineProgressProps {
+    steps: StepState[];
+    // Called with the failed step's id; omitted while retrying is not possible.
+    onRetry?: (stepId: string) => void;
+}
+
+const renderStatusIcon = (status: StepState['status']) => {
+    if (status === 'loading') return <div className="spinner"></div>;
+    if (status === 'done') return <span className="step-status">✅</span>;
+    if (status === 'error') return <span className="step-status">❌</span>;
+    return <span className="step-status">...</span>;
+};
+
+/** The generation steps with live timings, progress messages and a retry for the failed step. */
+const PipelineProgress = ({ steps, onRetry }: PipelineProgressProps) => {
+    const [now, setNow] = useState(() => performance.now());
+    const isRunning = steps.some(step => step.status === 'loading');
+
+    useEffect(() => {
+        if (!isRunning) return;
+        const interval = setInterval(() => setNow(performance.now()), 100);
+        return () => clearInterval(interval);
+    }, [isRunning]);
+
+    return (
+        <ul className="steps-container">
+            {steps.filter(step => step.status !== 'skipped').map(step => (
+                <li key={step.id} className={`step-item ${step.status}`}>
+                    {renderStatusIcon(step.status)}
+                    <div className="step-details">
+                        <span className="step-name">{step.label}</span>
+                        {step.status === 'loading' && step.startedAt !== undefined && (
+                            <span className="step-time">
+                                Elapsed: {(step.seconds + Math.max(0, now - step.startedAt) / 1000).toFixed(2)}s
+                                {step.attempt > 1 && ` (try ${step.attempt})`}
+                            </span>
+                        )}
+                        {step.status === 'done' && <span className="step-time">Completed in {step.seconds.toFixed(2)}s</span>}
+                        {step.status === 'loading' && step.message && (
+                            <div className="reconstruction-status">
+                                <p>{step.message}</p>
+                                {step.logs && step.logs.length > 0 && (
+                                    <pre className="reconstruction-logs">{step.logs.slice(-5).join('\n')}</pre>
+                                )}
+                            </div>
+                        )}
+                        {step.status === 'error' && onRetry && (
+                            <button className="secondary-button step-retry" onClick={() => onRetry(step.id)}>Retry from here</button>
+                        )}
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default PipelineProgress;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { fetchImageFromUrl, fetchProductPage } from '../services/api';
+import type { ProductMetadata, ProductPageInfo } from '../services/productPage';
+
+interface ProductImportPanelProps {
+    // How many more photos can be added.
+    maxImages: number;
+    onAdd: (files: File[], product: ProductMetadata) => void;
+}
+
+const SOURCE_LABELS: Record<ProductPageInfo['images'][number]['source'], string> = {
+    'json-ld': 'Product data',
+    'open-graph': 'Share image',
+    'page': 'Page',
+    'model': 'Found by Gemini',
+};
+
+/** Reads a product page, then lets the user pick which of its images to add as photos. */
+const ProductImportPanel = ({ maxImages, onAdd }: ProductImportPanelProps) => {
+    const [productUrl, setProductUrl] = useState('');
+    const [isFetching, setIsFetching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [page, setPage] = useState<ProductPageInfo | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
+    // Candidates the browser could not display; usually tracking pixels or expired links.
+    const [broken, setBroken] = useState<string[]>([]);
+
+    const handleFetch = async () => {
+        if (!productUrl || isFetching) return;
+        try {
+            new URL(productUrl);
+        } catch (_) {
+            setError("Please enter a valid URL.");
+            return;
+        }
+
+        setIsFetching(true);
+        setError(null);
+        setPage(null);
+        setBroken([]);
+        try {
+            const info = await fetchProductPage(productUrl);
+            setPage(info);
+            setSelected(info.images.slice(0, Math.min(1, maxImages)).map(image => image.url));
+        } catch (e: any) {
+            console.error("Failed to read the product page:", e);
+            setError(e.message || "An unexpected error occurred while reading the page.");
+        } finally {
+            setIsFetching(false);
+        }
+    };
+
+    const toggle = (url: string) => {
+        setSelected((prev: string[]) => {
+            if (prev.includes(url)) return prev.filter(u => u !== url);
+            return prev.length < maxImages ? [...prev, url] : prev;
+        });
+    };
+
+    const handleAdd = async () => {
+        if (!page || selected.length === 0) return;
+        setIsFetching(true);
+        setError(null);
+        try {
+            const files = await Promise.all(selected.map(fetchImageFromUrl));
+            const { images, usedModel, ...product } = page;
+            onAdd(files, product);
+            setPage(null);
+            setSelected([]);
+            setProductUrl('');
+        } catch (e: any) {
+            console.error("Failed to fetch the selected images:", e);
+            setError(e.message || "An unexpected error occurred while fetching the images.");
+        } finally {
+            setIsFetching(false);
+        }
+    };
+
+    const candidates = page?.images.filter(image => !broken.includes(image.url)) ?? [];
+
+    return (
+        <div className="url-input-area">
+            <p>Already listed? Paste your live product page URL to pick from its images. The product's name, brand and stated dimensions are kept with the model.</p>
+            <div className="url-input-group">
+                <input
+                    type="url"
+                    placeholder="e.g. https://www.liveauctioneers.com/item/214360132_a-contemporary-desk-los-angeles-ca"
+                    value={productUrl}
+                    onChange={(e) => setProductUrl(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleFetch(); }}
+                    disabled={isFetching}
+                    aria-label="Product page URL"
+                />
+                <button onClick={handleFetch} disabled={isFetching || !productUrl || maxImages <= 0}>
+                    {isFetching && !page ? <div className="spinner-small"></div> : 'Read Page'}
+                </button>
+            </div>
+            {maxImages <= 0 && <p className="settings-hint">Remove a photo to add images from a product page.</p>}
+
+            {page && (
+                <div className="product-import">
+                    <div className="product-info">
+                        <strong>{page.title || page.url}</strong>
+                        {page.brand && <span>{page.brand}</span>}
+                        {page.dimensions && <span>Dimensions: {page.dimensions.text}</span>}
+                        {page.usedModel && <span className="settings-hint">No images were found in the page markup; this one was found by Gemini.</span>}
+                    </div>
+                    {candidates.length > 0 ? (
+                        <>
+                            <p className="settings-hint">Choose up to {maxImages} image{maxImages === 1 ? '' : 's'} ({selected.length} selected).</p>
+                            <div className="product-candidates">
+                                {candidates.map(image => (
+                                    <button
+                                        key={image.url}
+                                        className={`product-candidate ${selected.includes(image.url) ? 'selected' : ''}`}
+                                        onClick={() => toggle(image.url)}
+                                        disabled={isFetching || (!selected.includes(image.url) && selected.length >= maxImages)}
+                                        title={`${SOURCE_LABELS[image.source]}: ${image.url}`}
+                                        aria-pressed={selected.includes(image.url)}
+                                    >
+                                        <img src={image.url} alt={SOURCE_LABELS[image.source]} referrerPolicy="no-referrer" loading="lazy"
+                                            onError={() => {
+                                                setBroken((prev: string[]) => [...prev, image.url]);
+                                                setSelected((prev: string[]) => prev.filter(u => u !== image.url));
+                                            }} />
+                                        <span>{SOURCE_LABELS[image.source]}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="product-actions">
+                                <button className="secondary-button" onClick={handleAdd} disabled={isFetching || selected.length === 0}>
+                                    {isFetching ? <div className="spinner-small"></div> : `Add ${selected.length} Image${selected.length === 1 ? '' : 's'}`}
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <p className="settings-hint">None of the page's images could be displayed.</p>
+                    )}
+                </div>
+            )}
+            {error && <div className="error-message small">{error}</div>}
+        </div>
+    );
+};
+
+export default ProductImportPanel;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import type { GenerationRecord } from '../services/historyStore';
+import { readProjectBundle } from '../services/projectBundle';
+
+interface ProjectBundleImportProps {
+    onOpen: (record: GenerationRecord) => void;
+    disabled?: boolean;
+}
+
+const ProjectBundleImport = ({ onOpen, disabled = false }: ProjectBundleImportProps) => {
+    const [isReading, setIsReading] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleFile = async (file: File) => {
+        setIsReading(true);
+        setImportError(null);
+        try {
+            const { record } = await readProjectBundle(file);
+            onOpen(record);
+        } catch (e: any) {
+            console.error("Failed to open the bundle:", e);
+            setImportError(e.message || "Failed to open the bundle.");
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    return (
+        <div className="bundle-import">
+            <button className="secondary-button" onClick={() => document.getElementById('bundle-input')?.click()} disabled={disabled || isReading}>
+                {isReading ? 'Opening...' : 'Open Project Bundle'}
+            </button>
+            <span className="settings-hint">A .zip saved with Download Everything.</span>
+            <input type="file" id="bundle-input" accept=".zip,application/zip" style={{ display: 'none' }}
+                onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }} />
+            {importError && <div className="error-message small">{importError}</div>}
+        </div>
+    );
+};
+
+export default ProjectBundleImport;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { EXPORT_FORMATS, exportModel, ExportFormat } from '../services/exporters';
+import type { GenerationRecord } from '../services/historyStore';
+import { buildProjectBundle } from '../services/projectBundle';
+import { saveBlob } from '../utils/files';
+
+interface ProjectBundlePanelProps {
+    // The saved generation being shown; null until it has been saved.
+    record: GenerationRecord | null;
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    baseName: string;
+    // Whether the model has been calibrated to meters.
+    inMeters: boolean;
+    // Whether the scale, orientation, pivot, materials or hotspots differ from the generated file.
+    adjusted: boolean;
+    dimensions: { x: number; y: number; z: number } | null;
+    fidelityScore: number | null;
+}
+
+// The GLB is always included; these are converted on request.
+const EXTRA_FORMATS = EXPORT_FORMATS.filter(f => f.id !== 'glb');
+
+const ProjectBundlePanel = ({ record, getModel, baseName, inMeters, adjusted, dimensions, fidelityScore }: ProjectBundlePanelProps) => {
+    const [formats, setFormats] = useState<ExportFormat[]>([]);
+    const [isBuilding, setIsBuilding] = useState(false);
+    const [bundleError, setBundleError] = useState<string | null>(null);
+
+    const toggleFormat = (format: ExportFormat) =>
+        setFormats((prev: ExportFormat[]) => prev.includes(format) ? prev.filter(f => f !== format) : [...prev, format]);
+
+    const handleDownload = async () => {
+        if (!record) return;
+        setIsBuilding(true);
+        setBundleError(null);
+        try {
+            // An adjusted model is also re-encoded, so the bundle has a GLB with the new scale and pivot.
+            const converted: ExportFormat[] = adjusted ? ['glb', ...formats] : formats;
+            const model = converted.length > 0 ? getModel() : null;
+            if (converted.length > 0 && !model) throw new Error('The model is still loading. Try again in a moment.');
+            const exports = [];
+            for (const format of converted) {
+                const result = await exportModel(model, format, format === 'glb' ? `${baseName}-adjusted` : baseName, undefined, inMeters);
+                exports.push({ ...result, format });
+            }
+            const bundle = await buildProjectBundle({ record, name: baseName, exports, inMeters, dimensions, fidelityScore });
+            saveBlob(bundle, `${baseName}-bundle.zip`);
+        } catch (e: any) {
+            console.error("Bundle export failed:", e);
+            setBundleError(e.message || "Failed to build the bundle.");
+        } finally {
+            setIsBuilding(false);
+        }
+    };
+
+    return (
+        <div className="bundle-panel">
+            <strong>Project bundle</strong>
+            <p className="bundle-description">
+                One ZIP with the original photos, the generated views, the GLB and a <code>manifest.json</code> of prompts, models, request IDs, timings and dimensions. Open it again from the start page.
+            </p>
+            <div className="bundle-formats">
+                Also convert to
+                {EXTRA_FORMATS.map(f => (
+                    <label key={f.id}>
+                        <input type="checkbox" checked={formats.includes(f.id)} onChange={() => toggleFormat(f.id)} disabled={isBuilding} />
+                        {f.label}
+                    </label>
+                ))}
+            </div>
+            <button onClick={handleDownload} className="secondary-button" disabled={!record || isBuilding}>
+                {isBuilding ? 'Building Bundle...' : 'Download Everything (.zip)'}
+            </button>
+            {bundleError && <div className="error-message small">{bundleError}</div>}
+        </div>
+    );
+};
+
+export default ProjectBundlePanel;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Axis, AXIS_LABELS, ScaleCalibration } from '../services/calibration';
+import { ModelStats } from '../services/modelStats';
+import type { ProductDimensions } from '../services/productPage';
+import { formatLength, LengthUnit, METERS_PER_UNIT } from '../utils/units';
+
+interface ScalePanelProps {
+    dimensions: ModelStats['dimensions'] | null;
+    calibration: ScaleCalibration | null;
+    onCalibrate: (axis: Axis, meters: number) => void;
+    onReset: () => void;
+    showDimensions: boolean;
+    onShowDimensionsChange: (show: boolean) => void;
+    isMeasuring: boolean;
+    onMeasuringChange: (measuring: boolean) => void;
+    // Distance between the two picked points, in model units.
+    measuredDistance: number | null;
+    error: string | null;
+    // Stated on the product page the photos came from; pre-fills the known dimension.
+    productDimensions?: ProductDimensions | null;
+}
+
+/** The stated dimension to calibrate against: height first, as it does not depend on which way the product faces. */
+const suggestedDimension = (dimensions: ProductDimensions | null | undefined): { axis: Axis; value: number; unit: LengthUnit } | null => {
+    if (!dimensions) return null;
+    if (dimensions.height) return { axis: 'y', value: dimensions.height, unit: dimensions.unit };
+    if (dimensions.width) return { axis: 'x', value: dimensions.width, unit: dimensions.unit };
+    if (dimensions.depth) return { axis: 'z', value: dimensions.depth, unit: dimensions.unit };
+    return null;
+};
+
+const ScalePanel = ({
+    dimensions, calibration, onCalibrate, onReset, showDimensions, onShowDimensionsChange,
+    isMeasuring, onMeasuringChange, measuredDistance, error, productDimensions,
+}: ScalePanelProps) => {
+    const [axis, setAxis] = useState<Axis>('y');
+    const [value, setValue] = useState('');
+    const [unit, setUnit] = useState<LengthUnit>('cm');
+
+    useEffect(() => {
+        const suggestion = suggestedDimension(productDimensions);
+        if (!suggestion) return;
+        setAxis(suggestion.axis);
+        setValue(String(suggestion.value));
+        setUnit(suggestion.unit);
+    }, [productDimensions?.text]);
+
+    const calibrated = calibration !== null;
+    const handleApply = () => onCalibrate(axis, Number(value) * METERS_PER_UNIT[unit]);
+
+    return (
+        <div className="scale-panel">
+            <div className="scale-header">
+                <strong>Real-world scale</strong>
+                <span className="scale-size">
+                    {dimensions
+                        ? `${formatLength(dimensions.x, calibrated)} × ${formatLength(dimensions.y, calibrated)} × ${formatLength(dimensions.z, calibrated)}`
+                        : 'Measuring...'}
+                </span>
+            </div>
+            <div className="scale-controls">
+                <select value={axis} onChange={(e) => setAxis(e.target.value as Axis)} aria-label="Known dimension">
+                    {(Object.keys(AXIS_LABELS) as Axis[]).map(key => <option key={key} value={key}>{AXIS_LABELS[key]}</option>)}
+                </select>
+                <input type="number" min="0" step="any" value={value} placeholder="e.g. 24"
+                    onChange={(e) => setValue(e.target.value)} aria-label="Known length" />
+                <select value={unit} onChange={(e) => setUnit(e.target.value as LengthUnit)} aria-label="Unit">
+                    {(Object.keys(METERS_PER_UNIT) as LengthUnit[]).map(key => <option key={key} value={key}>{key}</option>)}
+                </select>
+                <button className="secondary-button" onClick={handleApply} disabled={!value || !dimensions}>Apply Scale</button>
+                {calibrated && <button className="secondary-button" onClick={onReset}>Reset</button>}
+            </div>
+            {productDimensions && !calibrated && (
+                <p className="scale-note">From the product page: {productDimensions.text}. Check the axis before applying.</p>
+            )}
+            {error && <div className="error-message small">{error}</div>}
+            {calibration && (
+                <p className="scale-note">
+                    Scaled so the {AXIS_LABELS[calibration.axis].toLowerCase()} is {formatLength(calibration.meters, true)}; exports are written in meters.
+                </p>
+            )}
+            <div className="scale-controls">
+                <label className="viewer-toggle">
+                    <input type="checkbox" checked={showDimensions} onChange={(e) => onShowDimensionsChange(e.target.checked)} />
+                    Show dimensions
+                </label>
+                <label className="viewer-toggle">
+                    <input type="checkbox" checked={isMeasuring} onChange={(e) => onMeasuringChange(e.target.checked)} />
+                    Measure
+                </label>
+                {isMeasuring && (
+                    <span className="scale-measurement">
+                        {measuredDistance !== null ? formatLength(measuredDistance, calibrated) : 'Click two points on the model.'}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ScalePanel;
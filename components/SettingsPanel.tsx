@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { VIEWS } from '../services/generation';
+import { ReconstructionProvider, ViewKey } from '../services/reconstruction';
+import {
+    loadPromptTemplates,
+    savePromptTemplates,
+    BACKGROUND_COLORS,
+    DEFAULT_PROMPT_TEMPLATE,
+    GenerationSettings,
+    IMAGE_MODELS,
+    PromptTemplate,
+} from '../services/settings';
+
+interface SettingsPanelProps {
+    settings: GenerationSettings;
+    onChange: (settings: GenerationSettings) => void;
+    provider: ReconstructionProvider;
+    disabled?: boolean;
+}
+
+const SettingsPanel = ({ settings, onChange, provider, disabled }: SettingsPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [templates, setTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+
+    const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+    const toggleView = (key: ViewKey) => update({
+        views: settings.views.includes(key) ? settings.views.filter(view => view !== key) : [...settings.views, key],
+    });
+
+    const saveTemplate = () => {
+        const name = window.prompt('Name this prompt template:')?.trim();
+        if (!name) return;
+        const next = [...templates.filter(t => t.name !== name), { name, template: settings.promptTemplate }];
+        setTemplates(next);
+        savePromptTemplates(next);
+    };
+
+    const deleteTemplate = (name: string) => {
+        const next = templates.filter(t => t.name !== name);
+        setTemplates(next);
+        savePromptTemplates(next);
+    };
+
+    const loadTemplate = (name: string) => {
+        if (name === '__default') update({ promptTemplate: DEFAULT_PROMPT_TEMPLATE });
+        const template = templates.find(t => t.name === name);
+        if (template) update({ promptTemplate: template.template });
+    };
+
+    const activeTemplate = templates.find(t => t.template === settings.promptTemplate);
+    const missingPlaceholder = !settings.promptTemplate.includes('{viewName}');
+
+    return (
+        <div className="settings-panel">
+            <button className="settings-toggle" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+                {isOpen ? '▾' : '▸'} Generation Settings
+            </button>
+            {isOpen && (
+                <fieldset className="settings-body" disabled={disabled}>
+                    <label className="settings-checkbox">
+                        <input type="checkbox" checked={settings.preprocessInputs} onChange={(e) => update({ preprocessInputs: e.target.checked })} />
+                        Clean up input photos on this device (remove background, crop and center)
+                    </label>
+
+                    <div className="settings-field">
+                        <span className="settings-label">Views to generate</span>
+                        <div className="settings-views">
+                            {VIEWS.map(view => {
+                                const required = provider.requiredViews.includes(view.key);
+                                const supported = provider.supportedViews.includes(view.key);
+                                return (
+                                    <label key={view.key} className={!supported ? 'unsupported' : ''}
+                                        title={required ? `Required by ${provider.label}` : !supported ? `Not used by ${provider.label}` : ''}>
+                                        <input type="checkbox" checked={required || (supported && settings.views.includes(view.key))}
+                                            disabled={required || !supported} onChange={() => toggleView(view.key)} />
+                                        {view.name}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div className="settings-field">
+                        <label className="settings-label" htmlFor="settings-image-model">Image model</label>
+                        <select id="settings-image-model" value={settings.imageModel} onChange={(e) => update({ imageModel: e.target.value })}>
+                            {IMAGE_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                        </select>
+                    </div>
+
+                    <div className="settings-field">
+                        <label className="settings-label" htmlFor="settings-background">Background color</label>
+                        <input id="settings-background" list="settings-background-options" value={settings.backgroundColor}
+                            onChange={(e) => update({ backgroundColor: e.target.value })} />
+                        <datalist id="settings-background-options">
+                            {BACKGROUND_COLORS.map(color => <option key={color} value={color} />)}
+                        </datalist>
+                    </div>
+
+                    <div className="settings-field">
+                        <label className="settings-label" htmlFor="settings-max-wait">Maximum wait for the 3D model (minutes)</label>
+                        <input id="settings-max-wait" type="number" min={1} max={180} value={settings.maxWaitMinutes}
+                            onChange={(e) => update({ maxWaitMinutes: Math.max(1, Number(e.target.value) || 1) })} />
+                    </div>
+
+                    <div className="settings-field">
+                        <label className="settings-checkbox">
+                            <input type="checkbox" checked={settings.fidelityCheck} onChange={(e) => update({ fidelityCheck: e.target.checked })} />
+                            Check the finished model against the views and photos
+                        </label>
+                        <label className="settings-label" htmlFor="settings-fidelity-threshold">Flag models scoring below (%)</label>
+                        <input id="settings-fidelity-threshold" type="number" min={0} max={100} value={settings.fidelityThreshold}
+                            disabled={!settings.fidelityCheck}
+                            onChange={(e) => update({ fidelityThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })} />
+                        <label className="settings-checkbox">
+                            <input type="checkbox" checked={settings.fidelityAutoRetry} disabled={!settings.fidelityCheck}
+                                onChange={(e) => update({ fidelityAutoRetry: e.target.checked })} />
+                            Generate the 3D model once more when it scores below that (a second paid job)
+                        </label>
+                    </div>
+
+                    <div className="settings-field">
+                        <label className="settings-label" htmlFor="settings-template">Prompt template</label>
+                        <div className="settings-template-controls">
+                            <select value={settings.promptTemplate === DEFAULT_PROMPT_TEMPLATE ? '__default' : activeTemplate?.name ?? ''}
+                                onChange={(e) => loadTemplate(e.target.value)} aria-label="Saved templates">
+                                <option value="__default">Default (studio photo)</option>
+                                {templates.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                                {settings.promptTemplate !== DEFAULT_PROMPT_TEMPLATE && !activeTemplate && <option value="">Unsaved changes</option>}
+                            </select>
+                            <button className="secondary-button" onClick={saveTemplate}>Save As...</button>
+                            {activeTemplate && <button className="secondary-button" onClick={() => deleteTemplate(activeTemplate.name)}>Delete</button>}
+                        </div>
+                        <textarea id="settings-template" rows={6} value={settings.promptTemplate}
+                            onChange={(e) => update({ promptTemplate: e.target.value })} />
+                        <p className="settings-hint">
+                            Placeholders: <code>{'{viewName}'}</code>, <code>{'{backgroundColor}'}</code>.
+                            {missingPlaceholder && <span className="settings-warning"> Without {'{viewName}'} every view gets the same prompt.</span>}
+                        </p>
+                    </div>
+                </fieldset>
+            )}
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { TransformMode } from '../services/transform';
+
+interface TransformPanelProps {
+    mode: TransformMode | null;
+    onModeChange: (mode: TransformMode | null) => void;
+    onSnapUpright: () => void;
+    onPlaceOnGround: () => void;
+    onCenterPivot: () => void;
+    onReset: () => void;
+    // Whether the orientation or placement differs from the file as generated.
+    isAdjusted: boolean;
+    // True while the viewer is still loading the model.
+    disabled: boolean;
+}
+
+const MODES: { id: TransformMode; label: string }[] = [
+    { id: 'rotate', label: 'Rotate' },
+    { id: 'translate', label: 'Move' },
+];
+
+const TransformPanel = ({ mode, onModeChange, onSnapUpright, onPlaceOnGround, onCenterPivot, onReset, isAdjusted, disabled }: TransformPanelProps) => (
+    <div className="transform-panel">
+        <strong>Orientation &amp; pivot</strong>
+        <div className="transform-controls">
+            {MODES.map(m => (
+                <button key={m.id} className={`secondary-button ${mode === m.id ? 'active' : ''}`}
+                    onClick={() => onModeChange(mode === m.id ? null : m.id)} disabled={disabled} aria-pressed={mode === m.id}>
+                    {m.label}
+                </button>
+            ))}
+            <button className="secondary-button" onClick={onSnapUpright} disabled={disabled}>Snap Upright</button>
+            <button className="secondary-button" onClick={onPlaceOnGround} disabled={disabled}>Place on Ground</button>
+            <button className="secondary-button" onClick={onCenterPivot} disabled={disabled}>Center Pivot at Base</button>
+            {isAdjusted && <button className="secondary-button" onClick={onReset} disabled={disabled}>Reset</button>}
+        </div>
+        <p className="transform-note">
+            {mode
+                ? 'Drag the gizmo. The grid and axes show the ground (y = 0) and the origin of exported files.'
+                : isAdjusted
+                    ? 'Downloads and the bundle carry the new orientation and pivot.'
+                    : 'Straighten the model and set its pivot before downloading, so it stands on the floor in storefront viewers and AR.'}
+        </p>
+    </div>
+);
+
+export default TransformPanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import {
+    renderTurntable,
+    TURNTABLE_FORMATS,
+    TURNTABLE_FRAME_COUNTS,
+    TURNTABLE_FRAME_RATES,
+    TURNTABLE_SIZES,
+    TurntableFormat,
+} from '../services/turntable';
+import { BACKGROUND_PRESETS, CameraBookmark, ViewerOptions } from '../services/viewer';
+import { saveBlob } from '../utils/files';
+
+interface TurntablePanelProps {
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    baseName: string;
+    viewerOptions: ViewerOptions;
+    // The on-screen camera, used as the starting view.
+    getCamera: () => CameraBookmark | null;
+}
+
+// Index into BACKGROUND_PRESETS, or -1 for the viewer's current background.
+const SAME_AS_VIEWER = -1;
+
+const TurntablePanel = ({ getModel, baseName, viewerOptions, getCamera }: TurntablePanelProps) => {
+    const [format, setFormat] = useState<TurntableFormat>('webm');
+    const [size, setSize] = useState(1024);
+    const [frames, setFrames] = useState(72);
+    const [fps, setFps] = useState(24);
+    const [backgroundIndex, setBackgroundIndex] = useState(SAME_AS_VIEWER);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [renderError, setRenderError] = useState<string | null>(null);
+
+    const isPoster = format === 'poster';
+    const isRendering = progress !== null;
+    const selected = TURNTABLE_FORMATS.find(f => f.id === format)!;
+
+    const handleRender = async () => {
+        setRenderError(null);
+        setProgress({ done: 0, total: isPoster ? 1 : frames });
+        try {
+            const model = getModel();
+            if (!model) throw new Error('The model is still loading. Try again in a moment.');
+            const background = backgroundIndex === SAME_AS_VIEWER ? viewerOptions.background : BACKGROUND_PRESETS[backgroundIndex].background;
+            const result = await renderTurntable(
+                model,
+                viewerOptions,
+                { format, size, frames, fps, background },
+                baseName,
+                getCamera(),
+                (done, total) => setProgress({ done, total }),
+            );
+            saveBlob(result.blob, result.filename);
+        } catch (e: any) {
+            console.error("Turntable render failed:", e);
+            setRenderError(e.message || "Failed to render the turntable.");
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="turntable-panel">
+            <strong>Turntable &amp; poster</strong>
+            <div className="turntable-controls">
+                <label>
+                    Output
+                    <select value={format} onChange={(e) => setFormat(e.target.value as TurntableFormat)} disabled={isRendering}>
+                        {TURNTABLE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Size
+                    <select value={size} onChange={(e) => setSize(Number(e.target.value))} disabled={isRendering}>
+                        {TURNTABLE_SIZES.map(s => <option key={s} value={s}>{s}×{s}</option>)}
+                    </select>
+                </label>
+                {!isPoster && (
+                    <>
+                        <label>
+                            Frames
+                            <select value={frames} onChange={(e) => setFrames(Number(e.target.value))} disabled={isRendering}>
+                                {TURNTABLE_FRAME_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </label>
+                        {format !== 'png-sequence' && (
+                            <label>
+                                FPS
+                                <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={isRendering}>
+                                    {TURNTABLE_FRAME_RATES.map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </label>
+                        )}
+                    </>
+                )}
+                <label>
+                    Background
+                    <select value={backgroundIndex} onChange={(e) => setBackgroundIndex(Number(e.target.value))} disabled={isRendering}>
+                        <option value={SAME_AS_VIEWER}>Same as viewer</option>
+                        {BACKGROUND_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+                    </select>
+                </label>
+            </div>
+            <p className="turntable-description">
+                {selected.description}
+                {(format === 'webm' || format === 'gif') && ` ${(frames / fps).toFixed(1)}s per turn.`}
+            </p>
+            <button className="secondary-button" onClick={handleRender} disabled={isRendering}>
+                {isRendering ? `Rendering ${progress.done}/${progress.total}...` : `Render ${selected.label}`}
+            </button>
+            {renderError && <div className="error-message small">{renderError}</div>}
+        </div>
+    );
+};
+
+export default TurntablePanel;
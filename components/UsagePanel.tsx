@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { reconstructionProviders } from '../services/reconstruction';
+import {
+    clearUsage,
+    formatCost,
+    loadBudget,
+    loadPrices,
+    loadUsage,
+    periodStart,
+    pricedModels,
+    saveBudget,
+    savePrices,
+    subscribeUsage,
+    summarizeUsage,
+    BudgetPeriod,
+    DEFAULT_PRICES,
+    UsageBudget,
+} from '../services/usage';
+
+const RECENT_CALLS = 8;
+
+/** Cumulative spend, the budget and the price table used for the estimates. */
+const UsagePanel = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [, setVersion] = useState(0);
+
+    useEffect(() => subscribeUsage(() => setVersion((v: number) => v + 1)), []);
+
+    const entries = loadUsage();
+    const prices = loadPrices();
+    const budget = loadBudget();
+    const models = pricedModels(reconstructionProviders);
+    const labelOf = (id: string) => models.find(model => model.id === id)?.label ?? id;
+    const allTime = summarizeUsage(entries);
+    const thisMonth = summarizeUsage(entries, periodStart('month'));
+    const budgetSpent = budget.period === 'month' ? thisMonth.cost : allTime.cost;
+
+    const updateBudget = (patch: Partial<UsageBudget>) => saveBudget({ ...budget, ...patch });
+
+    const updatePrice = (id: string, value: string) => {
+        const price = Number(value);
+        if (value === '' || !Number.isFinite(price) || price < 0) return;
+        savePrices({ ...prices, [id]: price });
+    };
+
+    const handleClear = () => {
+        if (window.confirm('Clear the usage history? Budget totals start again from zero.')) clearUsage();
+    };
+
+    return (
+        <div className="settings-panel">
+            <button className="settings-toggle" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+                {isOpen ? '▾' : '▸'} Usage &amp; Costs <span className="usage-summary">{formatCost(thisMonth.cost)} this month</span>
+            </button>
+            {isOpen && (
+                <div className="settings-body">
+                    <div className="usage-totals">
+                        <div><span className="settings-label">This month</span><strong>{formatCost(thisMonth.cost)}</strong><span>{thisMonth.calls} calls</span></div>
+                        <div><span className="settings-label">All time</span><strong>{formatCost(allTime.cost)}</strong><span>{allTime.calls} calls</span></div>
+                        {budget.limit !== null && (
+                            <div className={budgetSpent > budget.limit ? 'over-budget' : ''}>
+                                <span className="settings-label">Budget left</span>
+                                <strong>{formatCost(Math.max(0, budget.limit - budgetSpent))}</strong>
+                                <span>of {formatCost(budget.limit)}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="settings-field">
+                        <span className="settings-label">Budget</span>
+                        <div className="usage-budget-controls">
+                            <input type="number" min={0} step={0.5} placeholder="No budget" aria-label="Budget in USD"
+                                value={budget.limit ?? ''}
+                                onChange={(e) => updateBudget({ limit: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) })} />
+                            <select value={budget.period} onChange={(e) => updateBudget({ period: e.target.value as BudgetPeriod })} aria-label="Budget period">
+                                <option value="month">per month</option>
+                                <option value="all">in total</option>
+                            </select>
+                            <select value={budget.mode} onChange={(e) => updateBudget({ mode: e.target.value as UsageBudget['mode'] })} aria-label="When over budget">
+                                <option value="warn">Warn before going over</option>
+                                <option value="block">Block runs that go over</option>
+                            </select>
+                        </div>
+                        <p className="settings-hint">Runs are checked against the budget before they start, using the estimated cost of every paid call they will make.</p>
+                    </div>
+
+                    {Object.keys(allTime.byModel).length > 0 && (
+                        <div className="settings-field">
+                            <span className="settings-label">By model (all time)</span>
+                            <table className="usage-table">
+                                <tbody>
+                                    {Object.entries(allTime.byModel).map(([id, total]) => (
+                                        <tr key={id}><td>{labelOf(id)}</td><td>{total.calls}</td><td>{formatCost(total.cost)}</td></tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {entries.length > 0 && (
+                        <div className="settings-field">
+                            <span className="settings-label">Recent calls</span>
+                            <table className="usage-table">
+                                <tbody>
+                                    {entries.slice(-RECENT_CALLS).reverse().map(entry => (
+                                        <tr key={entry.id} className={entry.ok ? '' : 'failed'}>
+                                            <td>{new Date(entry.at).toLocaleString()}</td>
+                                            <td>{entry.operation}{entry.ok ? '' : ' (failed)'}</td>
+                                            <td>{(entry.durationMs / 1000).toFixed(1)}s</td>
+                                            <td>{formatCost(entry.cost)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="settings-field">
+                        <span className="settings-label">Prices (USD)</span>
+                        <table className="usage-table">
+                            <tbody>
+                                {models.map(model => (
+                                    <tr key={model.id}>
+                                        <td>{model.label}</td>
+                                        <td>
+                                            <input type="number" min={0} step={0.001} value={prices[model.id] ?? 0}
+                                                onChange={(e) => updatePrice(model.id, e.target.value)} aria-label={`${model.label} price`} />
+                                        </td>
+                                        <td>{model.unit}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="settings-hint">Estimates only; check your Gemini and fal billing for actual charges.</p>
+                    </div>
+
+                    <div className="settings-template-controls">
+                        <button className="secondary-button" onClick={() => savePrices(DEFAULT_PRICES)}>Reset Prices</button>
+                        <button className="secondary-button" onClick={handleClear} disabled={entries.length === 0}>Clear Usage History</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsagePanel;
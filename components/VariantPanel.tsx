@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GeneratedView } from '../services/generation';
+import type { Pipeline } from '../services/pipeline/engine';
+import type { GenerationContext } from '../services/pipeline/generationPipeline';
+import type { ProductMetadata } from '../services/productPage';
+import type { ReconstructionJob, ReconstructionProvider } from '../services/reconstruction';
+import type { GenerationSettings } from '../services/settings';
+import { formatCost, runCost } from '../services/usage';
+import {
+    buildVariantRecord,
+    Colorway,
+    createVariantPipeline,
+    estimateVariantCost,
+    exportVariantsGlb,
+    ORIGINAL_VARIANT_NAME,
+    ProductVariant,
+    showVariant,
+    zipVariantModels,
+} from '../services/variants';
+import { saveBlob } from '../utils/files';
+
+interface VariantPanelProps {
+    // The approved views of the original run, and what it was made from.
+    views: GeneratedView[];
+    files: File[];
+    product: ProductMetadata | null;
+    settings: GenerationSettings;
+    provider: ReconstructionProvider;
+    // The original model; variants are grouped with it.
+    modelUrl: string;
+    variants: ProductVariant[];
+    onAdd: (variant: ProductVariant) => void;
+    onRemove: (id: string) => void;
+    // Index of the colorway in the viewer: 0 for the original, then `variants`.
+    shown: number;
+    // Returns the loaded model, or null while the viewer is still loading it.
+    getModel: () => any;
+    baseName: string;
+    // Checks an estimate against the budget; false when the run must not start.
+    confirmBudget: (estimate: number, showError: (message: string) => void) => boolean;
+}
+
+interface VariantRun {
+    colorway: Colorway;
+    pipeline: Pipeline<GenerationContext>;
+    job: ReconstructionJob | null;
+    status: string;
+    error?: string;
+}
+
+const emptyColorway = (): Colorway => ({ name: '', description: '' });
+
+const VariantPanel = ({ views, files, product, settings, provider, modelUrl, variants, onAdd, onRemove, shown, getModel, baseName, confirmBudget }: VariantPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [colorways, setColorways] = useState<Colorway[]>([emptyColorway()]);
+    const [runs, setRuns] = useState<VariantRun[]>([]);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [exportWarnings, setExportWarnings] = useState<string[]>([]);
+    const runsRef = useRef<VariantRun[]>([]);
+
+    const updateRun = (run: VariantRun, patch: Partial<VariantRun>) => {
+        Object.assign(run, patch);
+        setRuns([...runsRef.current]);
+    };
+
+    const cancelRun = (run: VariantRun) => {
+        run.pipeline.cancel();
+        if (run.job) provider.cancel(run.job).catch(e => console.error(`Failed to cancel ${provider.label} request`, e));
+        runsRef.current = runsRef.current.filter(r => r !== run);
+        setRuns(runsRef.current);
+    };
+
+    // Runs belong to the product they were started for.
+    useEffect(() => () => {
+        runsRef.current.filter(run => run.pipeline.isRunning).forEach(cancelRun);
+        runsRef.current = [];
+        setRuns([]);
+    }, [modelUrl]);
+
+    if (!isOpen) {
+        return (
+            <button className="secondary-button variant-toggle" onClick={() => setIsOpen(true)}>
+                {variants.length > 0 ? `Colorways (${variants.length + 1})...` : 'Generate Colorway Variants...'}
+            </button>
+        );
+    }
+
+    const updateColorway = (index: number, patch: Partial<Colorway>) =>
+        setColorways((prev: Colorway[]) => prev.map((colorway, i) => i === index ? { ...colorway, ...patch } : colorway));
+
+    /** Runs the colorway's pipeline; after a failure, running it again resumes from the failed step. */
+    const execute = async (run: VariantRun) => {
+        const { colorway } = run;
+        updateRun(run, { error: undefined });
+        try {
+            const outcome = await run.pipeline.run();
+            if (outcome === 'cancelled' || !runsRef.current.includes(run)) return;
+            const record = await buildVariantRecord({
+                colorway,
+                views: run.pipeline.get('views')!,
+                model: run.pipeline.get('model')!,
+                modelSourceUrl: run.pipeline.get('modelUrl'),
+                requestId: run.job?.requestId,
+                cost: runCost(run.pipeline.get('runId')!),
+            });
+            if (!runsRef.current.includes(run)) return;
+            runsRef.current = runsRef.current.filter(r => r !== run);
+            setRuns(runsRef.current);
+            onAdd(showVariant(record));
+        } catch (e: any) {
+            if (!runsRef.current.includes(run)) return;
+            console.error(`Failed to generate the ${colorway.name} colorway:`, e);
+            updateRun(run, { error: e.message || 'The colorway could not be generated.' });
+        }
+    };
+
+    const startRun = (colorway: Colorway) => {
+        const run: VariantRun = { colorway, pipeline: null!, job: null, status: 'Starting' };
+        run.pipeline = createVariantPipeline({ colorway, views, files, product, settings, provider }, {
+            onSubmitted: job => { run.job = job; },
+        });
+        run.pipeline.subscribe(steps => {
+            const active = steps.find(step => step.status === 'loading');
+            if (active) updateRun(run, { status: active.message ? `${active.label}: ${active.message}` : active.label });
+        });
+        runsRef.current = [...runsRef.current, run];
+        execute(run);
+    };
+
+    const handleGenerate = () => {
+        setFormError(null);
+        const requested = colorways.map(colorway => ({ name: colorway.name.trim(), description: colorway.description.trim() })).filter(colorway => colorway.name);
+        if (requested.length === 0) {
+            setFormError('Name at least one colorway, e.g. "Navy".');
+            return;
+        }
+        const taken = [ORIGINAL_VARIANT_NAME, ...variants.map(v => v.name), ...runs.map(run => run.colorway.name)].map(name => name.toLowerCase());
+        const duplicate = requested.find((colorway, i) => taken.includes(colorway.name.toLowerCase())
+            || requested.findIndex(other => other.name.toLowerCase() === colorway.name.toLowerCase()) !== i);
+        if (duplicate) {
+            setFormError(`There is already a colorway named ${duplicate.name}.`);
+            return;
+        }
+        if (!confirmBudget(requested.length * estimateVariantCost(views.length, settings, provider), setFormError)) return;
+        setColorways([emptyColorway()]);
+        requested.forEach(startRun);
+    };
+
+    const retryRun = (run: VariantRun) => {
+        // Recolored views are kept when only the reconstruction failed.
+        const recolored = run.pipeline.get('views') ? 0 : views.length;
+        if (!confirmBudget(estimateVariantCost(recolored, settings, provider), setFormError)) return;
+        run.job = null;
+        execute(run);
+    };
+
+    const handleExport = async (single: boolean) => {
+        setIsExporting(true);
+        setExportError(null);
+        setExportWarnings([]);
+        try {
+            const all = [{ name: ORIGINAL_VARIANT_NAME, url: modelUrl }, ...variants];
+            if (single) {
+                const model = getModel();
+                if (!model) throw new Error('The model is still loading. Try again in a moment.');
+                const result = await exportVariantsGlb(model, all, shown, baseName);
+                setExportWarnings(result.warnings);
+                saveBlob(result.blob, result.filename);
+            } else {
+                const original = await (await fetch(modelUrl)).blob();
+                const models = [{ name: ORIGINAL_VARIANT_NAME, model: original }, ...variants];
+                saveBlob(await zipVariantModels(models, baseName), `${baseName}-colorways.zip`);
+            }
+        } catch (e: any) {
+            console.error("Colorway export failed:", e);
+            setExportError(e.message || "Failed to export the colorways.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const estimate = estimateVariantCost(views.length, settings, provider);
+
+    return (
+        <div className="variant-panel">
+            <div className="variant-header">
+                <h3>Colorway variants</h3>
+                <button className="remove-inline" onClick={() => setIsOpen(false)} aria-label="Close colorway variants">×</button>
+            </div>
+            {views.length === 0 ? (
+                <p className="variant-note">This result has no generated views to recolor.</p>
+            ) : (
+                <>
+                    <p className="variant-note">
+                        The {views.length} approved views are recolored by {settings.imageModel}, and each colorway is reconstructed with {provider.label}.
+                        About {formatCost(estimate)} per colorway.
+                    </p>
+                    {colorways.map((colorway, i) => (
+                        <div key={i} className="variant-colorway">
+                            <input type="text" value={colorway.name} onChange={(e) => updateColorway(i, { name: e.target.value })} placeholder="Name, e.g. Navy" aria-label={`Colorway ${i + 1} name`} />
+                            <input type="text" value={colorway.description} onChange={(e) => updateColorway(i, { description: e.target.value })} placeholder="Colors and finishes, e.g. navy canvas, tan leather trim" aria-label={`Colorway ${i + 1} description`} />
+                            {colorways.length > 1 && (
+                                <button className="remove-inline" onClick={() => setColorways((prev: Colorway[]) => prev.filter((_, j) => j !== i))} aria-label={`Remove colorway ${i + 1}`}>×</button>
+                            )}
+                        </div>
+                    ))}
+                    <div className="variant-actions">
+                        <button className="secondary-button" onClick={() => setColorways((prev: Colorway[]) => [...prev, emptyColorway()])}>Add Another</button>
+                        <button className="secondary-button" onClick={handleGenerate}>Generate Colorways</button>
+                    </div>
+                    {formError && <div className="error-message small">{formError}</div>}
+                </>
+            )}
+            {runs.length > 0 && (
+                <ul className="variant-runs">
+                    {runs.map((run, i) => (
+                        <li key={`${run.colorway.name}-${i}`}>
+                            <strong>{run.colorway.name}</strong>
+                            {run.error ? <span className="error-message small">{run.error}</span> : <span>{run.status}...</span>}
+                            {run.error && <button className="secondary-button" onClick={() => retryRun(run)}>Retry</button>}
+                            <button className="remove-inline" onClick={() => cancelRun(run)} aria-label={run.error ? `Dismiss ${run.colorway.name}` : `Cancel ${run.colorway.name}`}>×</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {variants.length > 0 && (
+                <>
+                    <ul className="variant-list">
+                        {variants.map(variant => (
+                            <li key={variant.id}>
+                                <strong>{variant.name}</strong>
+                                {variant.description && <span>{variant.description}</span>}
+                                <button className="remove-inline" onClick={() => onRemove(variant.id)} aria-label={`Delete the ${variant.name} colorway`}>×</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="variant-actions">
+                        <button className="secondary-button" onClick={() => handleExport(false)} disabled={isExporting}>Download Separate GLBs (.zip)</button>
+                        <button className="secondary-button" onClick={() => handleExport(true)} disabled={isExporting}>
+                            {isExporting ? 'Exporting...' : 'Download One GLB with Variants'}
+                        </button>
+                    </div>
+                    {exportError && <div className="error-message small">{exportError}</div>}
+                    {exportWarnings.length > 0 && (
+                        <div className="export-report">
+                            <ul>{exportWarnings.map(warning => <li key={warning}>{warning}</li>)}</ul>
+                        </div>
+                    )}
+                    <p className="variant-note">Separate GLBs are the models as generated. The single GLB uses <code>KHR_materials_variants</code> on the model shown, with its adjustments.</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VariantPanel;
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface VariantSwitcherProps {
+    // Colorway names, the original first.
+    names: string[];
+    shown: number;
+    onChange: (index: number) => void;
+    // True while the viewer is still loading the model.
+    disabled: boolean;
+}
+
+/** Switches the viewer between the colorways of one product. */
+const VariantSwitcher = ({ names, shown, onChange, disabled }: VariantSwitcherProps) => (
+    <div className="variant-switcher" role="group" aria-label="Colorway">
+        {names.map((name, i) => (
+            <button key={`${name}-${i}`} className={`secondary-button ${i === shown ? 'active' : ''}`}
+                onClick={() => onChange(i)} disabled={disabled && i !== shown} aria-pressed={i === shown}>
+                {name}
+            </button>
+        ))}
+    </div>
+);
+
+export default VariantSwitcher;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { GeneratedView } from '../services/generation';
+
+interface ViewReviewProps {
+    views: GeneratedView[];
+    // Keys of views that are currently being regenerated.
+    busyViews: string[];
+    onRegenerate: (index: number, hint: string) => void;
+    onReplace: (index: number, file: File) => void;
+    onContinue: () => void;
+    onRerunAll: () => void;
+    onCancel: () => void;
+}
+
+const ViewReview = ({ views, busyViews, onRegenerate, onReplace, onContinue, onRerunAll, onCancel }: ViewReviewProps) => {
+    const [hints, setHints] = useState<Record<string, string>>({});
+    const isBusy = busyViews.length > 0;
+
+    return (
+        <div className="view-review">
+            <h3>Review the generated views</h3>
+            <p className="step-subtitle">Only the views you approve are sent to 3D reconstruction. Regenerate or replace any view that looks wrong.</p>
+            <div className="preview-grid">
+                {views.map((view, index) => {
+                    const busy = busyViews.includes(view.key);
+                    const inputId = `replace-view-${view.key}`;
+                    return (
+                        <div key={view.key} className={`view-review-item ${busy ? 'busy' : ''}`}>
+                            <div className="view-review-image">
+                                <img src={view.url} alt={view.label} />
+                                {busy && <div className="view-review-spinner"><div className="spinner"></div></div>}
+                            </div>
+                            <p>{view.label}</p>
+                            <input
+                                type="text"
+                                placeholder="Optional hint, e.g. 'show the zipper'"
+                                value={hints[view.key] ?? ''}
+                                onChange={(e) => setHints((prev: Record<string, string>) => ({ ...prev, [view.key]: e.target.value }))}
+                                disabled={busy}
+                            />
+                            <div className="view-review-actions">
+                                <button className="secondary-button" onClick={() => onRegenerate(index, hints[view.key] ?? '')} disabled={busy}>Regenerate</button>
+                                <button className="secondary-button" onClick={() => document.getElementById(inputId)?.click()} disabled={busy}>Replace...</button>
+                            </div>
+                            <input type="file" id={inputId} accept="image/*" style={{ display: 'none' }}
+                                onChange={(e) => { const file = e.target.files?.[0]; if (file) onReplace(index, file); e.target.value = ''; }} />
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="loading-actions">
+                <button onClick={onContinue} className="action-button" disabled={isBusy}>Continue to 3D</button>
+                <button onClick={onRerunAll} className="secondary-button" disabled={isBusy}>Rerun All Views</button>
+                <button onClick={onCancel} className="secondary-button danger">Cancel & Start Over</button>
+            </div>
+        </div>
+    );
+};
+
+export default ViewReview;
@@ -0,0 +1,80 @@
+import React from 'react';
+import {
+    BACKGROUND_PRESETS,
+    CameraBookmark,
+    DISPLAY_MODES,
+    DisplayMode,
+    LIGHTING_PRESETS,
+    LightingPresetId,
+    ViewerOptions,
+} from '../services/viewer';
+
+interface ViewerToolbarProps {
+    options: ViewerOptions;
+    onChange: (patch: Partial<ViewerOptions>) => void;
+    bookmarks: CameraBookmark[];
+    onSaveBookmark: () => void;
+    onApplyBookmark: (bookmark: CameraBookmark) => void;
+    onDeleteBookmark: (name: string) => void;
+    onResetCamera: () => void;
+}
+
+const ViewerToolbar = ({ options, onChange, bookmarks, onSaveBookmark, onApplyBookmark, onDeleteBookmark, onResetCamera }: ViewerToolbarProps) => {
+    const backgroundIndex = BACKGROUND_PRESETS.findIndex(preset => JSON.stringify(preset.background) === JSON.stringify(options.background));
+
+    return (
+        <div className="viewer-toolbar">
+            <div className="viewer-toolbar-row">
+                <label>
+                    Lighting
+                    <select value={options.lighting} onChange={(e) => onChange({ lighting: e.target.value as LightingPresetId })}>
+                        {LIGHTING_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Background
+                    <select value={backgroundIndex} onChange={(e) => onChange({ background: BACKGROUND_PRESETS[Number(e.target.value)].background })}>
+                        {backgroundIndex === -1 && <option value={-1}>Custom</option>}
+                        {BACKGROUND_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+                    </select>
+                </label>
+                {options.background.type === 'color' && (
+                    <input type="color" value={options.background.color} aria-label="Background color"
+                        onChange={(e) => onChange({ background: { type: 'color', color: e.target.value } })} />
+                )}
+                <label>
+                    View
+                    <select value={options.displayMode} onChange={(e) => onChange({ displayMode: e.target.value as DisplayMode })}>
+                        {DISPLAY_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                    </select>
+                </label>
+            </div>
+            <div className="viewer-toolbar-row">
+                <label className="viewer-toggle">
+                    <input type="checkbox" checked={options.autoRotate} onChange={(e) => onChange({ autoRotate: e.target.checked })} />
+                    Auto-rotate
+                </label>
+                <label className="viewer-toggle">
+                    <input type="checkbox" checked={options.wireframe} onChange={(e) => onChange({ wireframe: e.target.checked })} />
+                    Wireframe
+                </label>
+                <label className="viewer-toggle">
+                    <input type="checkbox" checked={options.shadow} onChange={(e) => onChange({ shadow: e.target.checked })} />
+                    Ground shadow
+                </label>
+                <div className="viewer-bookmarks">
+                    <button className="secondary-button" onClick={onResetCamera}>Reset Camera</button>
+                    <button className="secondary-button" onClick={onSaveBookmark}>Save View</button>
+                    {bookmarks.map(bookmark => (
+                        <span key={bookmark.name} className="viewer-bookmark">
+                            <button className="secondary-button" onClick={() => onApplyBookmark(bookmark)}>{bookmark.name}</button>
+                            <button className="remove-inline" onClick={() => onDeleteBookmark(bookmark.name)} aria-label={`Delete ${bookmark.name}`}>×</button>
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ViewerToolbar;
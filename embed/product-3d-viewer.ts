@@ -0,0 +1,4 @@
+// Entry point of the standalone embed script (see vite.embed.config.ts).
+import { defineProductViewer } from '../services/viewer/productViewerElement';
+
+defineProductViewer();
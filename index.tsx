@@ -1,12 +1,79 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Modality, Type } from "@google/genai";
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import {
+    reconstructionProviders,
+    getReconstructionProvider,
+    DEFAULT_PROVIDER_ID,
+    ReconstructionJob,
+    ReconstructionProvider,
+} from './services/reconstruction';
+import { generateSingleView, referenceImages, viewFromFile, GeneratedView, VIEWS } from './services/generation';
+import type { Pipeline, PipelineOutcome, StepState } from './services/pipeline/engine';
+import {
+    completedStepTimings,
+    createGenerationPipeline,
+    estimateGenerationCost,
+    runWithFidelityRetry,
+    GenerationContext,
+    GENERATION_STEPS,
+} from './services/pipeline/generationPipeline';
+import { browserGenerationServices } from './services/pipeline/browserServices';
+import { checkFidelity, FidelityReport } from './services/fidelity';
+import { checkBudget, estimateRunCost, formatCost, runCost } from './services/usage';
+import { loadSettings, saveSettings, GenerationSettings } from './services/settings';
+import { preprocessImage } from './services/preprocess';
+import type { ProductMetadata } from './services/productPage';
+import { viewFileName } from './services/projectBundle';
+import {
+    buildGenerationRecord,
+    buildPendingGeneration,
+    deleteGeneration,
+    deletePendingGeneration,
+    listGenerations,
+    listPendingGenerations,
+    renameGeneration,
+    saveGeneration,
+    savePendingGeneration,
+    GenerationRecord,
+    PendingGeneration,
+    StepTiming,
+} from './services/historyStore';
+import { saveBlob, stripExtension } from './utils/files';
+import HistoryGallery from './components/HistoryGallery';
+import BatchPanel from './components/BatchPanel';
+import ExportPanel from './components/ExportPanel';
+import OptimizePanel from './components/OptimizePanel';
+import ModelStatsSection from './components/ModelStatsSection';
+import ViewReview from './components/ViewReview';
+import SettingsPanel from './components/SettingsPanel';
+import InputPreviews, { CleanedInput } from './components/InputPreviews';
+import ViewerToolbar from './components/ViewerToolbar';
+import ScalePanel from './components/ScalePanel';
+import TransformPanel from './components/TransformPanel';
+import MaterialPanel from './components/MaterialPanel';
+import HotspotPanel from './components/HotspotPanel';
+import VariantPanel from './components/VariantPanel';
+import VariantSwitcher from './components/VariantSwitcher';
+import EmbedCodePanel from './components/EmbedCodePanel';
+import TurntablePanel from './components/TurntablePanel';
+import PipelineProgress from './components/PipelineProgress';
+import UsagePanel from './components/UsagePanel';
+import ProductImportPanel from './components/ProductImportPanel';
+import ProjectBundlePanel from './components/ProjectBundlePanel';
+import ProjectBundleImport from './components/ProjectBundleImport';
+import FidelitySection from './components/FidelitySection';
+import { BatchQueue, BatchCompletion } from './services/batchQueue';
+import { inspectModel, ModelStats } from './services/modelStats';
+import { applyCalibration, Axis, calibrateModel, ScaleCalibration } from './services/calibration';
+import { applyMaterialEdits, listMaterials, MaterialEdits, ModelMaterial } from './services/materials';
+import { Hotspot, hotspotAt, readHotspots, writeHotspots } from './services/hotspots';
+import { ORIGINAL_VARIANT_NAME, ProductVariant, showVariant, variantRecord } from './services/variants';
+import { applyTransform, boundsInParent, centerPivotAtBase, placeOnGround, readTransform, snapUpright, ModelTransform, TransformMode } from './services/transform';
+import { loadBookmarks, loadViewerOptions, saveBookmarks, saveViewerOptions, CameraBookmark, StudioViewer, ViewerOptions } from './services/viewer';
 
-const FAL_KEY = "da50f91d-c96c-49e9-af4d-04d3471a3953:ec20f99b08ad9c407a1ddb83f17ca1cc";
-const FAL_HUNYUAN_API_URL = "https://queue.fal.run/fal-ai/hunyuan3d/v2/multi-view";
+const PROVIDER_STORAGE_KEY = 'reconstructionProviderId';
+const DEFAULT_MODEL_NAME = '3d-model';
 
 const App = () => {
     // Generator State
@@ -15,70 +82,110 @@ const App = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [modelUrl, setModelUrl] = useState<string | null>(null);
-    const [steps, setSteps] = useState<any[]>([]);
-    const [generatedImages, setGeneratedImages] = useState<any[]>([]);
+    const modelUrlRef = useRef(modelUrl);
+    modelUrlRef.current = modelUrl;
+    // Optimized variant shown in the viewer instead of the original model, if any.
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [modelStats, setModelStats] = useState<ModelStats | null>(null);
+
+    // Viewer State
+    const [viewerOptions, setViewerOptions] = useState<ViewerOptions>(loadViewerOptions);
+    const viewerOptionsRef = useRef(viewerOptions);
+    viewerOptionsRef.current = viewerOptions;
+    const [bookmarks, setBookmarks] = useState<CameraBookmark[]>(loadBookmarks);
+
+    // Scale State: calibration belongs to the generated model and is re-applied to every variant shown.
+    const [scaleCalibration, setScaleCalibration] = useState<ScaleCalibration | null>(null);
+    const scaleCalibrationRef = useRef(scaleCalibration);
+    scaleCalibrationRef.current = scaleCalibration;
+    // Orientation and pivot set in the viewer; null while the model is as generated.
+    const [modelTransform, setModelTransform] = useState<ModelTransform | null>(null);
+    const modelTransformRef = useRef(modelTransform);
+    modelTransformRef.current = modelTransform;
+    const [transformMode, setTransformMode] = useState<TransformMode | null>(null);
+    const [modelMaterials, setModelMaterials] = useState<ModelMaterial[]>([]);
+    const [materialEdits, setMaterialEdits] = useState<MaterialEdits>({});
+    const materialEditsRef = useRef(materialEdits);
+    materialEditsRef.current = materialEdits;
+    // Hotspots as edited; null while they are as stored in the loaded file.
+    const [hotspotEdits, setHotspotEdits] = useState<Hotspot[] | null>(null);
+    const hotspotEditsRef = useRef(hotspotEdits);
+    hotspotEditsRef.current = hotspotEdits;
+    const [modelHotspots, setModelHotspots] = useState<Hotspot[]>([]);
+    const [selectedHotspot, setSelectedHotspot] = useState<number | null>(null);
+    const [isPickingHotspot, setIsPickingHotspot] = useState(false);
+    const [scaleError, setScaleError] = useState<string | null>(null);
+    const [isMeasuring, setIsMeasuring] = useState(false);
+    const [measuredDistance, setMeasuredDistance] = useState<number | null>(null);
+    // Step states of the current run's pipeline.
+    const [pipelineSteps, setPipelineSteps] = useState<StepState[]>([]);
+    const [generatedImages, setGeneratedImages] = useState<GeneratedView[]>([]);
+    const generatedImagesRef = useRef(generatedImages);
+    generatedImagesRef.current = generatedImages;
+    // The pipeline pauses after view generation until the user continues to 3D.
+    const [isReviewingViews, setIsReviewingViews] = useState(false);
+    const [busyViews, setBusyViews] = useState<string[]>([]);
     const [totalGenerationTime, setTotalGenerationTime] = useState<number | null>(null);
+    // Estimated USD of the shown model's paid calls, reruns included.
+    const [generationCost, setGenerationCost] = useState<number | null>(null);
+    const [fidelityReport, setFidelityReport] = useState<FidelityReport | null>(null);
+    // The saved record of the result being shown, for the project bundle.
+    const [currentRecord, setCurrentRecord] = useState<GenerationRecord | null>(null);
+    const currentRecordRef = useRef(currentRecord);
+    currentRecordRef.current = currentRecord;
+    // Colorways of the result, and the one in the viewer (null for the original).
+    const [variants, setVariants] = useState<ProductVariant[]>([]);
+    const variantsRef = useRef(variants);
+    variantsRef.current = variants;
+    const [activeVariantId, setActiveVariantId] = useState<string | null>(null);
+    const [isCheckingFidelity, setIsCheckingFidelity] = useState(false);
+    const [fidelityError, setFidelityError] = useState<string | null>(null);
+    const [modelName, setModelName] = useState(DEFAULT_MODEL_NAME);
 
     // URL Input State
-    const [inputMethod, setInputMethod] = useState<'upload' | 'url'>('upload');
-    const [productUrl, setProductUrl] = useState('');
-    const [isFetchingUrl, setIsFetchingUrl] = useState(false);
-    const [urlError, setUrlError] = useState<string | null>(null);
+    const [inputMethod, setInputMethod] = useState<'upload' | 'url' | 'batch'>('upload');
+    // Details of the product page the photos were imported from, kept with the generation.
+    const [productInfo, setProductInfo] = useState<ProductMetadata | null>(null);
 
-    const viewerRef = useRef<HTMLDivElement>(null);
-    const sceneRef = useRef<THREE.Scene | null>(null);
-    const generationId = useRef(0);
-    const falCancelUrl = useRef<string | null>(null);
-    const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-    const stepStartRef = useRef<number | null>(null);
-    const generationStartRef = useRef<number | null>(null);
+    // Reconstruction Backend State
+    const [providerId, setProviderId] = useState<string>(() => localStorage.getItem(PROVIDER_STORAGE_KEY) || DEFAULT_PROVIDER_ID);
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    // Generation Settings State
+    const [settings, setSettings] = useState<GenerationSettings>(loadSettings);
+    const settingsRef = useRef(settings);
+    settingsRef.current = settings;
 
-    const initialSteps = [
-        { name: 'Generate View Images', status: 'pending', time: 0 },
-        { name: 'Generate 3D Model', status: 'pending', time: 0 },
-    ];
+    // Input Cleanup State: results are kept per original file so toggling cleanup off and on is free.
+    const [cleanedInputs, setCleanedInputs] = useState<Map<File, CleanedInput>>(() => new Map());
+    const cleanupStartedRef = useRef(new WeakSet<File>());
 
-    // --- 3D Generator Functions ---
-    const updateStep = (index: number, newStatus: string) => {
-        if (timerIntervalRef.current) {
-            clearInterval(timerIntervalRef.current);
-            timerIntervalRef.current = null;
-        }
+    // History State
+    const [history, setHistory] = useState<GenerationRecord[]>([]);
+    // Runs whose reconstruction job was still in flight when the page was closed.
+    const [pendingGenerations, setPendingGenerations] = useState<PendingGeneration[]>([]);
 
-        setSteps(prev => {
-            const newSteps = [...prev];
-            const stepToUpdate = newSteps[index];
-
-            if (newStatus === 'loading') {
-                stepStartRef.current = performance.now();
-                stepToUpdate.status = 'loading';
-                stepToUpdate.time = '0.00';
-
-                timerIntervalRef.current = setInterval(() => {
-                    if (stepStartRef.current === null) return;
-                    const elapsed = ((performance.now() - stepStartRef.current) / 1000);
-                    setSteps(currentSteps => currentSteps.map((s, i) => {
-                        if (i === index && s.status === 'loading') {
-                            return { ...s, time: elapsed.toFixed(2) };
-                        }
-                        return s;
-                    }));
-                }, 100);
-
-            } else { // 'done' or 'error'
-                if (stepToUpdate.status === 'loading' && stepStartRef.current) {
-                     const finalTime = ((performance.now() - stepStartRef.current) / 1000).toFixed(2);
-                     stepToUpdate.time = finalTime;
-                }
-                stepToUpdate.status = newStatus;
-                stepStartRef.current = null;
-            }
-            return newSteps;
+    // Batch Mode: the queue lives for the whole session, the provider is read when each item starts.
+    const providerIdRef = useRef(providerId);
+    providerIdRef.current = providerId;
+    const batchQueueRef = useRef<BatchQueue | null>(null);
+    if (!batchQueueRef.current) {
+        batchQueueRef.current = new BatchQueue({
+            getProvider: () => getReconstructionProvider(providerIdRef.current),
+            getSettings: () => settingsRef.current,
+            onItemComplete: (completion) => saveBatchCompletion(completion),
         });
-    };
+    }
 
+    const viewerRef = useRef<HTMLDivElement>(null);
+    const studioViewerRef = useRef<StudioViewer | null>(null);
+    const loadedModelRef = useRef<THREE.Object3D | null>(null);
+    const generationId = useRef(0);
+    // The current run. It keeps the settings and inputs it started with, so edits made during review do not mix into it.
+    const pipelineRef = useRef<Pipeline<GenerationContext> | null>(null);
+    // The submitted reconstruction job, and the write of its pending record.
+    const activeJobRef = useRef<{ provider: ReconstructionProvider; job: ReconstructionJob; saved: Promise<void> } | null>(null);
+
+    // --- 3D Generator Functions ---
     const handleFileChange = (selectedFiles: FileList | null) => {
         if (selectedFiles) {
             const newFiles = Array.from(selectedFiles).slice(0, 3 - files.length);
@@ -104,295 +211,411 @@ const App = () => {
 
     const removeFile = (index: number) => {
         setFiles(prev => prev.filter((_, i) => i !== index));
+        if (files.length <= 1) setProductInfo(null);
     };
 
-    const fileToGenerativePart = async (file: File) => {
-        const base64EncodedDataPromise = new Promise<string>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-            reader.readAsDataURL(file);
-        });
-        return {
-            inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
-        };
-    };
-    
-    const handleUrlFetch = async () => {
-        if (!productUrl || isFetchingUrl || files.length >= 3) return;
-    
-        try {
-            new URL(productUrl);
-        } catch (_) {
-            setUrlError("Please enter a valid URL.");
-            return;
-        }
-    
-        setIsFetchingUrl(true);
-        setUrlError(null);
+    const handleProductImport = (imported: File[], product: ProductMetadata) => {
+        setFiles(prev => [...prev, ...imported].slice(0, 3));
+        setProductInfo(product);
         setError(null);
-    
-        try {
-            // Step 1: Get image URL from product page using URL Context tool
-            const findImagePrompt = `Analyze the content of the product page at ${productUrl} and return the URL of the main, high-resolution product image. The image should be on a clean background if possible. Return the image URL.`;
-            
-            const imageResponse = await ai.models.generateContent({
-                model: "gemini-2.5-flash-lite",
-                contents: [findImagePrompt],
-                config: { thinkingConfig: { thinkingBudget: -1,}, tools: [{urlContext: {}}] },
-            });
-    
-            const firstResponseText = imageResponse.text;
-    
-            // Step 2: Extract the URL cleanly using structured output
-            const extractUrlPrompt = `From the following text, extract the image URL: "${firstResponseText}"`;
-            const jsonResponse = await ai.models.generateContent({
-                model: "gemini-2.5-flash-lite",
-                contents: [extractUrlPrompt],
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            imageUrl: {
-                                type: Type.STRING,
-                                description: "The extracted image URL"
-                            },
-                        },
-                        required: ["imageUrl"],
-                    },
-                },
-            });
-            
-            const parsedJson = JSON.parse(jsonResponse.text);
-            const imageUrl = parsedJson.imageUrl;
-    
-            if (!imageUrl) {
-                throw new Error("Gemini could not find an image URL on the provided page.");
-            }
-    
-            // Step 3: Fetch the image and convert it to a File object
-            const imageFetchResponse = await fetch(imageUrl);
-            if (!imageFetchResponse.ok) {
-                throw new Error(`Failed to fetch the image from the extracted URL. Status: ${imageFetchResponse.status}`);
-            }
-            
-            const blob = await imageFetchResponse.blob();
-            const filename = imageUrl.substring(imageUrl.lastIndexOf('/') + 1).split('?')[0] || 'product-image.jpg';
-            const imageFile = new File([blob], filename, { type: blob.type });
-    
-            // Step 4: Add the file to the state
-            setFiles(prev => [...prev, imageFile].slice(0, 3));
-            setProductUrl('');
-            setInputMethod('upload'); // Switch back to see the preview
-    
-        } catch (e: any) {
-            console.error("Failed to fetch image from URL:", e);
-            setUrlError(e.message || "An unexpected error occurred while fetching the image.");
-        } finally {
-            setIsFetchingUrl(false);
-        }
+        setInputMethod('upload'); // Switch back to see the preview
     };
-    
-    const downloadAsset = async (url: string, filename: string) => {
+
+    /** Downloads `url`; `filename` may depend on the downloaded type, e.g. for the extension. */
+    const downloadAsset = async (url: string, filename: string | ((blob: Blob) => string)) => {
         try {
             const response = await fetch(url);
             const blob = await response.blob();
-            const link = document.createElement('a');
-            link.href = URL.createObjectURL(blob);
-            link.download = filename;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(link.href);
+            saveBlob(blob, typeof filename === 'string' ? filename : filename(blob));
         } catch (error) {
             console.error("Download failed:", error);
             setError("Failed to download asset.");
         }
     };
     
-    const resizeImage = (imageUrl: string, maxSize: number = 1024): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'anonymous';
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                const ctx = canvas.getContext('2d');
-    
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context'));
-                }
-    
-                let { width, height } = img;
-    
-                if (width > height) {
-                    if (width > maxSize) {
-                        height = Math.round((height * maxSize) / width);
-                        width = maxSize;
-                    }
-                } else {
-                    if (height > maxSize) {
-                        width = Math.round((width * maxSize) / height);
-                        height = maxSize;
-                    }
-                }
-    
-                canvas.width = width;
-                canvas.height = height;
-    
-                ctx.drawImage(img, 0, 0, width, height);
-    
-                const resizedDataUrl = canvas.toDataURL('image/webp', 0.9);
-                resolve(resizedDataUrl);
-            };
-            img.onerror = (err) => {
-                reject(new Error('Failed to load image for resizing.'));
-            };
-            img.src = imageUrl;
+    const refreshHistory = async () => {
+        try {
+            setHistory(await listGenerations());
+        } catch (e) {
+            console.error("Failed to load generation history:", e);
+        }
+    };
+
+    /**
+     * Stores a finished run in IndexedDB, so the result no longer depends on the provider's temporary link.
+     * Returns the record, or null when it could not be built.
+     */
+    const persistGeneration = async (details: {
+        model: Blob;
+        remoteModelUrl: string;
+        requestId: string | null;
+        sourceUrl: string | null;
+        name: string;
+        providerId: string;
+        files: File[];
+        views: GeneratedView[];
+        steps: StepTiming[];
+        totalGenerationTime: number | null;
+        cost: number | null;
+        settings: GenerationSettings;
+        product: ProductMetadata | null;
+    }) => {
+        let record: GenerationRecord;
+        try {
+            record = await buildGenerationRecord({
+                name: details.name,
+                providerId: details.providerId,
+                files: details.files,
+                views: details.views,
+                model: details.model,
+                modelSourceUrl: details.remoteModelUrl,
+                requestId: details.requestId,
+                sourceUrl: details.sourceUrl,
+                steps: details.steps,
+                totalGenerationTime: details.totalGenerationTime,
+                cost: details.cost,
+                settings: details.settings,
+                product: details.product,
+            });
+        } catch (e) {
+            console.error("Failed to save generation to history:", e);
+            return null;
+        }
+        try {
+            await saveGeneration(record);
+            refreshHistory();
+        } catch (e) {
+            console.error("Failed to save generation to history:", e);
+        }
+        return record;
+    };
+
+    const saveBatchCompletion = async ({ item, settings, steps, totalGenerationTime, cost }: BatchCompletion) => {
+        if (!item.model || !item.views) return;
+        const record = await buildGenerationRecord({
+            name: item.name,
+            providerId: providerIdRef.current,
+            files: item.files,
+            views: item.views,
+            model: item.model,
+            modelSourceUrl: item.modelSourceUrl,
+            requestId: item.requestId,
+            sourceUrl: item.sourceUrl,
+            steps,
+            totalGenerationTime,
+            cost,
+            settings,
         });
+        await saveGeneration(record);
+        refreshHistory();
     };
 
-    const performGeneration = async () => {
-        generationId.current++;
-        const currentGenerationId = generationId.current;
+    const failGeneration = (e: any) => {
+        console.error("An error occurred during generation:", e);
+        setError(e.message || "An unknown error occurred.");
+    };
 
-        try {
-            updateStep(0, 'loading');
-            
-            const imageParts = await Promise.all(files.map(fileToGenerativePart));
-
-            const generateSingleView = async (viewName: string) => {
-                const prompt = `Using the attached image(s) as a reference, generate a single, high-resolution, photorealistic image of the object's **${viewName}**. The object must be centered on a clean, plain white background, as though it was photographed in a whitespace studio with professional lighting. Ensure the lighting is neutral and clearly shows the object's details. The final image must be a 1:1 square aspect ratio. Do not include any text, labels, or watermarks.`;
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image-preview',
-                    contents: { parts: [...imageParts, { text: prompt }] },
-                    config: { responseModalities: [Modality.IMAGE] },
-                });
+    const runName = (photos: File[], product: ProductMetadata | null) =>
+        product?.title || (photos[0] ? stripExtension(photos[0].name) : `Model ${new Date().toLocaleDateString()}`);
 
-                const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-                if (!imagePart?.inlineData) throw new Error(`Gemini failed to generate the ${viewName}.`);
-                
-                const url = `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-                return { label: viewName.charAt(0).toUpperCase() + viewName.slice(1), url };
-            };
+    /** Remembers a submitted job so it can be resumed if the page is reloaded before it finishes. */
+    const rememberPendingJob = async (pipeline: Pipeline<GenerationContext>, provider: ReconstructionProvider, job: ReconstructionJob) => {
+        if (!provider.resumable) return;
+        try {
+            await savePendingGeneration(await buildPendingGeneration({
+                name: runName(pipeline.get('photos') ?? [], pipeline.get('product') ?? null),
+                providerId: provider.id,
+                job,
+                files: pipeline.get('photos') ?? [],
+                views: pipeline.get('views') ?? [],
+                steps: completedStepTimings(pipeline.snapshot),
+                settings: pipeline.get('settings')!,
+                runId: pipeline.get('runId'),
+                product: pipeline.get('product'),
+            }));
+        } catch (e) {
+            console.error("Failed to save the pending job:", e);
+        }
+    };
 
-            const viewPromises = [
-                generateSingleView("front view"),
-                generateSingleView("back view"),
-                generateSingleView("left side view")
-            ];
+    const forgetPendingJob = (job: ReconstructionJob) => {
+        deletePendingGeneration(job.requestId).catch(e => console.error("Failed to remove the pending job:", e));
+    };
 
-            const results = await Promise.all(viewPromises);
-            if (generationId.current !== currentGenerationId) return;
+    /** Checks a run's estimated cost against the budget; false when it must not start. */
+    const confirmBudget = (estimate: number, showError: (message: string) => void = setError) => {
+        const overBudget = checkBudget(estimate);
+        if (!overBudget) return true;
+        if (overBudget.budget.mode === 'block') {
+            showError(`${overBudget.message} Raise the budget under Usage & Costs to continue.`);
+            return false;
+        }
+        return window.confirm(`${overBudget.message} Start anyway?`);
+    };
 
-            setGeneratedImages(results);
-            updateStep(0, 'done');
-            
-            updateStep(1, 'loading');
+    /** Makes `pipeline` the current run, rendering its steps in the overlay. */
+    const startPipeline = (initial: Partial<GenerationContext>) => {
+        pipelineRef.current?.cancel();
+        const pipeline = createGenerationPipeline(initial, browserGenerationServices, {
+            onSubmitted: (job, provider) => {
+                // A job submitted again (e.g. after a low fidelity score) replaces the finished one.
+                const previous = activeJobRef.current;
+                if (previous) previous.saved.then(() => forgetPendingJob(previous.job));
+                activeJobRef.current = { provider, job, saved: rememberPendingJob(pipeline, provider, job) };
+            },
+        });
+        pipelineRef.current = pipeline;
+        pipeline.subscribe(steps => {
+            if (pipelineRef.current === pipeline) setPipelineSteps(steps);
+        });
+        setPipelineSteps(pipeline.snapshot);
+        return pipeline;
+    };
 
-            const resizePromises = results.map(img => resizeImage(img.url, 1024));
-            const resizedImageUrls = await Promise.all(resizePromises);
+    /** Runs the pipeline up to the generated views, then waits for the user to review them. */
+    const generateViewsStep = async (pipeline: Pipeline<GenerationContext>, start: () => Promise<PipelineOutcome>) => {
+        const currentGenerationId = generationId.current;
+        setIsReviewingViews(false);
+        setBusyViews([]);
+        try {
+            const outcome = await start();
+            if (outcome === 'cancelled' || generationId.current !== currentGenerationId) return;
+            setGeneratedImages(pipeline.get('views')!);
+            setIsReviewingViews(true);
+        } catch (e: any) {
             if (generationId.current !== currentGenerationId) return;
+            failGeneration(e);
+        }
+    };
 
-            const [frontResized, backResized, leftResized] = resizedImageUrls;
-
-            const input = {
-                front_image_url: frontResized,
-                back_image_url: backResized,
-                left_image_url: leftResized,
-                textured_mesh: true,
-            };
+    /**
+     * Runs the rest of the pipeline, then saves the model and shows it. A failed
+     * step stays on screen so it can be retried. `earlierSteps` are timings from
+     * before a reload, for resumed runs.
+     */
+    const completeGeneration = async (pipeline: Pipeline<GenerationContext>, start: () => Promise<PipelineOutcome>, earlierSteps: StepTiming[] = []) => {
+        const currentGenerationId = generationId.current;
+        setIsReviewingViews(false);
+        setError(null);
+        try {
+            const outcome = await runWithFidelityRetry(pipeline, start);
+            if (outcome === 'cancelled' || generationId.current !== currentGenerationId) return;
 
-            const submitResponse = await fetch(FAL_HUNYUAN_API_URL, {
-                method: 'POST',
-                headers: { 'Authorization': `Key ${FAL_KEY}`, 'Content-Type': 'application/json' },
-                body: JSON.stringify(input),
+            // Time spent reviewing is not part of the generation time.
+            const steps = [...earlierSteps, ...completedStepTimings(pipeline.snapshot)];
+            const duration = steps.reduce((total, step) => total + step.seconds, 0);
+            const photos = pipeline.get('photos')!;
+            const model = pipeline.get('model')!;
+            const product = pipeline.get('product') ?? null;
+            const name = runName(photos, product);
+            const cost = runCost(pipeline.get('runId')!);
+            const record = await persistGeneration({
+                model,
+                remoteModelUrl: pipeline.get('modelUrl')!,
+                requestId: activeJobRef.current?.job.requestId ?? null,
+                sourceUrl: pipeline.get('sourceUrl') ?? null,
+                name,
+                providerId: pipeline.get('provider')!.id,
+                files: photos,
+                views: pipeline.get('views')!,
+                steps,
+                totalGenerationTime: duration,
+                cost,
+                settings: pipeline.get('settings')!,
+                product,
             });
-
             if (generationId.current !== currentGenerationId) return;
-            if (!submitResponse.ok) throw new Error(`Fal.ai submission failed: ${await submitResponse.text()}`);
-            const submitResult = await submitResponse.json();
-            falCancelUrl.current = submitResult.cancel_url;
-            const statusUrl = submitResult.status_url;
-
-            let finalResult = null;
-            while (!finalResult) {
-                if (generationId.current !== currentGenerationId) return;
-                const pollRes = await fetch(statusUrl, { headers: { 'Authorization': `Key ${FAL_KEY}` } });
-                const pollBody = await pollRes.json();
-                
-                if (pollBody.status === "COMPLETED") {
-                    const resultResponse = await fetch(submitResult.response_url, { headers: { 'Authorization': `Key ${FAL_KEY}` } });
-                    const resultData = await resultResponse.json();
-                    if (resultData.status === 'ERROR' || resultData.model_mesh?.url == null) {
-                        throw new Error(`Generation failed: ${resultData.logs?.map((log: any) => log.message).join('\n') || 'Unknown error'}`);
-                    }
-                    finalResult = resultData;
-                    break;
-                } else if (pollBody.status === "ERROR") {
-                    throw new Error(pollBody.logs?.map((log: any) => log.message).join('\n') || 'Polling error.');
-                }
-                await new Promise(resolve => setTimeout(resolve, 5000));
-            }
+
+            setModelName(name);
+            setCurrentRecord(record);
+            setModelUrl(URL.createObjectURL(model));
+            setTotalGenerationTime(duration);
+            setGenerationCost(cost);
+            setFidelityReport(pipeline.get('fidelity') ?? null);
+            setIsLoading(false);
+        } catch (e: any) {
             if (generationId.current !== currentGenerationId) return;
-            
-            updateStep(1, 'done');
-            setModelUrl(finalResult.model_mesh.url);
-
-            if (generationStartRef.current) {
-                const duration = (performance.now() - generationStartRef.current) / 1000;
-                setTotalGenerationTime(duration);
-                generationStartRef.current = null;
+            failGeneration(e);
+        } finally {
+            // The pending record is removed once the job has ended, but only after it has been written.
+            const active = activeJobRef.current;
+            if (active && generationId.current === currentGenerationId) {
+                activeJobRef.current = null;
+                active.saved.then(() => forgetPendingJob(active.job));
             }
+        }
+    };
+
+    /** Step 1: generates the views, then waits for the user to review them. */
+    const performGeneration = () => {
+        generationId.current++;
+        const pipeline = startPipeline({
+            files,
+            product: productInfo,
+            settings,
+            provider: getReconstructionProvider(providerId),
+            // Photos are cleaned up in the background as they are added; a photo that could not be cleaned is sent as is.
+            inputs: settings.preprocessInputs
+                ? files.map(file => cleanedInputs.get(file)?.result?.file ?? file)
+                : files,
+        });
+        return generateViewsStep(pipeline, () => pipeline.run({ until: GENERATION_STEPS.views }));
+    };
 
+    const regenerateView = async (index: number, hint: string) => {
+        const currentGenerationId = generationId.current;
+        const pipeline = pipelineRef.current;
+        if (!pipeline) return;
+        const view = VIEWS.find(v => v.key === generatedImages[index].key)!;
+        const viewSettings = pipeline.get('settings')!;
+        setError(null);
+        if (!confirmBudget(estimateRunCost({ imageModel: viewSettings.imageModel, views: 1 }))) return;
+        setBusyViews(prev => [...prev, view.key]);
+        try {
+            // Charged to the run, so the rerun shows in its cost.
+            const result = await generateSingleView(await referenceImages(pipeline.get('inputs') ?? []), view, viewSettings, hint, pipeline.get('runId'));
+            if (generationId.current !== currentGenerationId) return;
+            setGeneratedImages(prev => prev.map((existing, i) => i === index ? result : existing));
         } catch (e: any) {
             if (generationId.current !== currentGenerationId) return;
-            console.error("An error occurred during generation:", e);
-            setError(e.message || "An unknown error occurred.");
-            setSteps(prev => prev.map(s => s.status === 'loading' ? { ...s, status: 'error' } : s));
-            if (generationStartRef.current) {
-                generationStartRef.current = null;
-            }
+            console.error(`Failed to regenerate the ${view.name}:`, e);
+            setError(e.message || `Failed to regenerate the ${view.name}.`);
         } finally {
-            if (generationId.current === currentGenerationId) {
-                setIsLoading(false);
-                falCancelUrl.current = null;
-            }
+            setBusyViews(prev => prev.filter(key => key !== view.key));
         }
     };
+
+    const replaceView = async (index: number, file: File) => {
+        const view = VIEWS.find(v => v.key === generatedImages[index].key)!;
+        try {
+            const result = await viewFromFile(file, view);
+            setGeneratedImages(prev => prev.map((existing, i) => i === index ? result : existing));
+        } catch (e: any) {
+            setError(e.message || "Failed to read the replacement image.");
+        }
+    };
+
+    /** Step 2: reconstructs the model from the approved views. */
+    const continueToReconstruction = () => {
+        const pipeline = pipelineRef.current;
+        if (!pipeline) return;
+        // Views regenerated or replaced during review.
+        if (pipeline.get('views') !== generatedImages) pipeline.set('views', generatedImages);
+        return completeGeneration(pipeline, () => pipeline.run());
+    };
+
+    /** Reruns a failed step, reusing everything computed before it. */
+    const retryPipelineStep = (stepId: string) => {
+        const pipeline = pipelineRef.current;
+        if (!pipeline || pipeline.isRunning) return;
+        setError(null);
+        const order: string[] = Object.values(GENERATION_STEPS);
+        const estimate = estimateGenerationCost(
+            { settings: pipeline.get('settings')!, provider: pipeline.get('provider')!, files: pipeline.get('files'), sourceUrl: pipeline.get('sourceUrl') },
+            {
+                views: order.indexOf(stepId) <= order.indexOf(GENERATION_STEPS.views),
+                reconstruction: order.indexOf(stepId) <= order.indexOf(GENERATION_STEPS.reconstruct),
+            },
+        );
+        if (!confirmBudget(estimate)) return;
+        if (order.indexOf(stepId) <= order.indexOf(GENERATION_STEPS.views)) {
+            generateViewsStep(pipeline, () => pipeline.retryFrom(stepId, { until: GENERATION_STEPS.views }));
+            return;
+        }
+        // A failed (or timed out, and so cancelled) job is submitted again rather than polled.
+        if (stepId === GENERATION_STEPS.reconstruct) pipeline.set('resumeJob', null);
+        completeGeneration(pipeline, () => pipeline.retryFrom(stepId));
+    };
+
+    /** Picks up polling a job submitted before the page was reloaded, instead of submitting (and paying for) it again. */
+    const resumePendingGeneration = (pending: PendingGeneration) => {
+        generationId.current++;
+        resetStateForGeneration();
+        setPendingGenerations((prev: PendingGeneration[]) => prev.filter(p => p.id !== pending.id));
+
+        const resumedFiles = pending.originals.map(original => new File([original.blob], original.name, { type: original.type }));
+        const views = pending.views.map((view, i): GeneratedView => ({
+            key: view.key ?? VIEWS[i].key,
+            label: view.label,
+            url: URL.createObjectURL(view.blob),
+            prompt: pending.prompts[i]?.prompt ?? '',
+        }));
+        setFiles(resumedFiles);
+        setGeneratedImages(views);
+        setModelName(pending.name);
+        setProductInfo(pending.product ?? null);
+
+        const provider = getReconstructionProvider(pending.providerId);
+        const pipeline = startPipeline({
+            files: resumedFiles,
+            photos: resumedFiles,
+            inputs: resumedFiles,
+            views,
+            settings: pending.settings,
+            provider,
+            product: pending.product ?? null,
+            resumeJob: { job: pending.job, submittedAt: pending.submittedAt },
+            ...(pending.runId ? { runId: pending.runId } : {}),
+        });
+        activeJobRef.current = { provider, job: pending.job, saved: Promise.resolve() };
+        return completeGeneration(pipeline, () => pipeline.run(), pending.steps);
+    };
+
+    const discardPendingGeneration = async (pending: PendingGeneration) => {
+        setPendingGenerations((prev: PendingGeneration[]) => prev.filter(p => p.id !== pending.id));
+        forgetPendingJob(pending.job);
+        try { await getReconstructionProvider(pending.providerId).cancel(pending.job); }
+        catch (e) { console.error("Failed to cancel the pending job:", e); }
+    };
     
     const startGeneration = () => {
         if (files.length === 0 || isLoading) return;
+        if (!confirmBudget(estimateGenerationCost({ settings, provider: getReconstructionProvider(providerId), files }))) return;
         resetStateForGeneration();
-        generationStartRef.current = performance.now();
         performGeneration();
     };
 
+    const cancelActiveJob = async () => {
+        pipelineRef.current?.cancel();
+        const active = activeJobRef.current;
+        activeJobRef.current = null;
+        if (!active) return;
+        forgetPendingJob(active.job);
+        try { await active.provider.cancel(active.job); }
+        catch (e) { console.error(`Failed to cancel ${active.provider.label} request`, e); }
+    };
+
+    const handleSettingsChange = (next: GenerationSettings) => {
+        setSettings(next);
+        saveSettings(next);
+    };
+
+    const handleProviderChange = (id: string) => {
+        setProviderId(id);
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    };
+
     const rerunImageGenerationStep = async () => {
-        if (falCancelUrl.current) {
-            try { await fetch(falCancelUrl.current, { method: 'PUT', headers: { 'Authorization': `Key ${FAL_KEY}` } }); } 
-            catch (e) { console.error("Failed to cancel fal.ai request", e); }
-        }
-        
+        const pipeline = pipelineRef.current;
+        if (pipeline && !confirmBudget(estimateGenerationCost(
+            { settings: pipeline.get('settings')!, provider: pipeline.get('provider')! },
+            { views: true, reconstruction: false },
+        ))) return;
+        generationId.current++;
+        await cancelActiveJob();
+        if (!pipeline) return;
+
         setError(null);
         setModelUrl(null);
-        setSteps(initialSteps);
         setGeneratedImages([]);
         setIsLoading(true);
         setTotalGenerationTime(null);
-        generationStartRef.current = performance.now();
-        performGeneration();
+        generateViewsStep(pipeline, () => pipeline.retryFrom(GENERATION_STEPS.views, { until: GENERATION_STEPS.views }));
     };
 
     const handleCancelGeneration = async () => {
         generationId.current++;
-        if (falCancelUrl.current) {
-            try { await fetch(falCancelUrl.current, { method: 'PUT', headers: { 'Authorization': `Key ${FAL_KEY}` } }); } 
-            catch (e) { console.error("Failed to cancel fal.ai request", e); }
-        }
-        if (timerIntervalRef.current) {
-            clearInterval(timerIntervalRef.current);
-            timerIntervalRef.current = null;
-        }
+        await cancelActiveJob();
         reset();
     };
     
@@ -400,118 +623,412 @@ const App = () => {
         setIsLoading(true);
         setError(null);
         setModelUrl(null);
-        setSteps(initialSteps);
+        pipelineRef.current?.cancel();
+        pipelineRef.current = null;
+        setPipelineSteps([]);
         setGeneratedImages([]);
-        falCancelUrl.current = null;
+        setIsReviewingViews(false);
+        activeJobRef.current = null;
         setTotalGenerationTime(null);
-        generationStartRef.current = null;
+        setGenerationCost(null);
+        setFidelityReport(null);
+        setFidelityError(null);
+        setCurrentRecord(null);
+        setVariants([]);
+        setActiveVariantId(null);
+        setModelName(DEFAULT_MODEL_NAME);
+    };
+
+    const openHistoryRecord = (record: GenerationRecord) => {
+        generationId.current++;
+        resetStateForGeneration();
+        setIsLoading(false);
+        setFiles(record.originals.map(original => new File([original.blob], original.name, { type: original.type })));
+        setGeneratedImages(record.views.map((view, i): GeneratedView => ({
+            key: view.key ?? VIEWS[i].key,
+            label: view.label,
+            url: URL.createObjectURL(view.blob),
+            prompt: record.prompts[i]?.prompt ?? '',
+        })));
+        setTotalGenerationTime(record.totalGenerationTime);
+        setGenerationCost(record.cost ?? null);
+        setModelName(record.name);
+        setProductInfo(record.product ?? null);
+        setCurrentRecord(record);
+        setVariants((record.variants ?? []).map(showVariant));
+        setModelUrl(URL.createObjectURL(record.model));
+    };
+
+    const handleCheckFidelity = async () => {
+        if (!modelUrl) return;
+        const checkedUrl = modelUrl;
+        setIsCheckingFidelity(true);
+        setFidelityError(null);
+        try {
+            const model = await (await fetch(checkedUrl)).blob();
+            const report = await checkFidelity(model, generatedImages, files);
+            if (modelUrlRef.current === checkedUrl) setFidelityReport(report);
+        } catch (e: any) {
+            console.error("Fidelity check failed:", e);
+            setFidelityError(e.message || "Failed to check the model.");
+        } finally {
+            setIsCheckingFidelity(false);
+        }
+    };
+
+    /** Submits the approved views for reconstruction again, e.g. after a low fidelity score. */
+    const regenerateModel = () => {
+        const pipeline = pipelineRef.current;
+        if (!pipeline || pipeline.isRunning) return;
+        if (!confirmBudget(estimateGenerationCost(
+            { settings: pipeline.get('settings')!, provider: pipeline.get('provider')! },
+            { views: false, reconstruction: true },
+        ), setFidelityError)) return;
+        setModelUrl(null);
+        setFidelityReport(null);
+        // Colorways belong to the model they were grouped with.
+        setVariants([]);
+        setActiveVariantId(null);
+        setIsLoading(true);
+        pipeline.set('resumeJob', null);
+        completeGeneration(pipeline, () => pipeline.retryFrom(GENERATION_STEPS.reconstruct));
+    };
+
+    const handleRenameHistoryRecord = async (record: GenerationRecord, name: string) => {
+        try {
+            await renameGeneration(record.id, name);
+        } catch (e: any) {
+            setError(e.message || "Failed to rename the model.");
+        }
+        refreshHistory();
+    };
+
+    const handleDeleteHistoryRecord = async (record: GenerationRecord) => {
+        if (!window.confirm(`Delete "${record.name}" from your history?`)) return;
+        try {
+            await deleteGeneration(record.id);
+        } catch (e: any) {
+            setError(e.message || "Failed to delete the model.");
+        }
+        refreshHistory();
     };
 
     const reset = () => {
         setFiles([]);
+        setProductInfo(null);
         resetStateForGeneration();
         setIsLoading(false);
-        if (viewerRef.current) viewerRef.current.innerHTML = '';
-        sceneRef.current = null;
     };
     
     useEffect(() => {
-        return () => {
-            if (timerIntervalRef.current) {
-                clearInterval(timerIntervalRef.current);
-            }
-        };
+        refreshHistory();
+        listPendingGenerations()
+            .then(setPendingGenerations)
+            .catch(e => console.error("Failed to load pending jobs:", e));
     }, []);
 
     useEffect(() => {
-        if (!modelUrl || !viewerRef.current) return;
-    
-        const currentViewer = viewerRef.current;
-        currentViewer.innerHTML = ''; 
-    
-        const scene = new THREE.Scene();
-        sceneRef.current = scene;
-        scene.background = new THREE.Color(0x1e1e1e);
-    
-        const camera = new THREE.PerspectiveCamera(75, currentViewer.clientWidth / currentViewer.clientHeight, 0.1, 1000);
-        
-        const renderer = new THREE.WebGLRenderer({ antialias: true });
-        renderer.setSize(currentViewer.clientWidth, currentViewer.clientHeight);
-        renderer.setPixelRatio(window.devicePixelRatio);
-        currentViewer.appendChild(renderer.domElement);
-    
-        scene.add(new THREE.AmbientLight(0xffffff, 2));
-        const hemiLight = new THREE.HemisphereLight(0xffffff, 0x444444, 2);
-        hemiLight.position.set(0, 20, 0);
-        scene.add(hemiLight);
-        const directionalLight1 = new THREE.DirectionalLight(0xffffff, 3);
-        directionalLight1.position.set(5, 10, 7.5).normalize();
-        scene.add(directionalLight1);
-        const directionalLight2 = new THREE.DirectionalLight(0xffffff, 2);
-        directionalLight2.position.set(-5, 10, -7.5).normalize();
-        scene.add(directionalLight2);
-    
-        const controls = new OrbitControls(camera, renderer.domElement);
-        controls.enableDamping = true;
-        controls.autoRotate = true;
-    
-        const loader = new GLTFLoader();
-        loader.load(modelUrl, (gltf) => {
-            const model = gltf.scene;
-            const box = new THREE.Box3().setFromObject(model);
-            const size = box.getSize(new THREE.Vector3());
-            const center = box.getCenter(new THREE.Vector3());
-    
-            model.position.x += (model.position.x - center.x);
-            model.position.y += (model.position.y - center.y);
-            model.position.z += (model.position.z - center.z);
-    
-            controls.target.copy(center);
-    
-            const maxDim = Math.max(size.x, size.y, size.z);
-            const fov = camera.fov * (Math.PI / 180);
-            let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
-            cameraZ *= 2.0; // Increased multiplier to zoom out
-    
-            camera.position.set(center.x, center.y, center.z + cameraZ);
-            camera.lookAt(center);
-    
-            scene.add(model);
-        }, undefined, (error) => {
+        if (!settings.preprocessInputs) return;
+        const setEntry = (file: File, entry: CleanedInput) => setCleanedInputs((prev: Map<File, CleanedInput>) => new Map(prev).set(file, entry));
+        files.filter(file => !cleanupStartedRef.current.has(file)).forEach(file => {
+            cleanupStartedRef.current.add(file);
+            setEntry(file, { status: 'pending' });
+            preprocessImage(file)
+                .then(result => setEntry(file, { status: 'done', result, url: URL.createObjectURL(result.file) }))
+                .catch(e => {
+                    console.error(`Failed to clean up ${file.name}:`, e);
+                    setEntry(file, { status: 'error', error: e.message });
+                });
+        });
+    }, [files, settings.preprocessInputs]);
+
+    // Cleanups of photos that were removed (or cleared with the input) are released, along with their preview URLs.
+    useEffect(() => {
+        const stale = [...cleanedInputs.keys()].filter(file => !files.includes(file));
+        if (stale.length === 0) return;
+        stale.forEach(file => {
+            const url = cleanedInputs.get(file)?.url;
+            if (url) URL.revokeObjectURL(url);
+            cleanupStartedRef.current.delete(file);
+        });
+        setCleanedInputs((prev: Map<File, CleanedInput>) => {
+            const next = new Map(prev);
+            stale.forEach(file => next.delete(file));
+            return next;
+        });
+    }, [files, cleanedInputs]);
+
+    const activeVariant = variants.find(variant => variant.id === activeVariantId) ?? null;
+    // The original model or the colorway picked in the switcher.
+    const shownModelUrl = activeVariant?.url ?? modelUrl;
+    const shownModelName = activeVariant ? `${modelName}-${activeVariant.name}` : modelName;
+
+    // Models are held by object URLs; each is released once it is replaced.
+    useEffect(() => () => {
+        if (modelUrl) URL.revokeObjectURL(modelUrl);
+    }, [modelUrl]);
+
+    useEffect(() => () => {
+        variants.filter(variant => !variantsRef.current.includes(variant)).forEach(variant => URL.revokeObjectURL(variant.url));
+    }, [variants]);
+
+    // Views reopened from the history or a pending job are object URLs; generated ones are data URLs.
+    useEffect(() => () => {
+        const shown = new Set(generatedImagesRef.current.map(view => view.url));
+        generatedImages.filter(view => view.url.startsWith('blob:') && !shown.has(view.url)).forEach(view => URL.revokeObjectURL(view.url));
+    }, [generatedImages]);
+
+    useEffect(() => {
+        setPreviewUrl(null);
+        setScaleCalibration(null);
+        setScaleError(null);
+        setModelTransform(null);
+        setMaterialEdits({});
+        setHotspotEdits(null);
+        // The viewer effect below reads the refs before the next render updates them.
+        scaleCalibrationRef.current = null;
+        modelTransformRef.current = null;
+        materialEditsRef.current = {};
+        hotspotEditsRef.current = null;
+    }, [shownModelUrl]);
+
+    const viewedModelUrl = previewUrl ?? shownModelUrl;
+    const isModelAdjusted = !!scaleCalibration || !!modelTransform || Object.keys(materialEdits).length > 0 || !!hotspotEdits;
+    const hotspots = hotspotEdits ?? modelHotspots;
+    const hotspotsRef = useRef(hotspots);
+    hotspotsRef.current = hotspots;
+    const isCleaningInputs = settings.preprocessInputs && files.some(file => cleanedInputs.get(file)?.status !== 'done' && cleanedInputs.get(file)?.status !== 'error');
+
+    useEffect(() => {
+        if (!viewedModelUrl || !viewerRef.current) return;
+
+        const viewer = new StudioViewer(viewerRef.current, viewerOptionsRef.current);
+        studioViewerRef.current = viewer;
+
+        viewer.load(viewedModelUrl).then(model => {
+            if (studioViewerRef.current !== viewer) return;
+            loadedModelRef.current = model;
+            const calibration = scaleCalibrationRef.current;
+            const transform = modelTransformRef.current;
+            if (transform) applyTransform(model, transform);
+            if (calibration) applyCalibration(model, calibration.factor);
+            if (calibration || transform) {
+                viewer.updateBounds();
+                viewer.frame();
+            }
+            setModelMaterials(listMaterials(model));
+            applyMaterialEdits(model, materialEditsRef.current);
+            const edited = hotspotEditsRef.current;
+            if (edited) {
+                writeHotspots(model, edited);
+                viewer.refreshHotspots();
+            }
+            setModelHotspots(edited ?? readHotspots(model));
+            viewer.setCalibrated(!!calibration);
+
+            fetch(viewedModelUrl)
+                .then(response => response.blob())
+                .then(blob => blob.size, () => null)
+                .then(fileSize => {
+                    if (loadedModelRef.current === model) setModelStats(inspectModel(model, fileSize));
+                });
+        }).catch(error => {
+            if (studioViewerRef.current !== viewer) return;
             console.error("An error happened during model loading:", error);
             setError('Failed to load the 3D model.');
         });
-    
-        const animate = () => {
-            if (!sceneRef.current) return;
-            requestAnimationFrame(animate);
-            controls.update();
-            renderer.render(scene, camera);
-        };
-        animate();
-    
-        const handleResize = () => {
-            if (!currentViewer || !renderer) return;
-            camera.aspect = currentViewer.clientWidth / currentViewer.clientHeight;
-            camera.updateProjectionMatrix();
-            renderer.setSize(currentViewer.clientWidth, currentViewer.clientHeight);
-        };
-        window.addEventListener('resize', handleResize);
-    
+
         return () => {
-            window.removeEventListener('resize', handleResize);
-            if(currentViewer) currentViewer.innerHTML = '';
-            sceneRef.current = null;
+            viewer.dispose();
+            studioViewerRef.current = null;
+            loadedModelRef.current = null;
+            setModelStats(null);
+            setIsMeasuring(false);
+            setMeasuredDistance(null);
+            setTransformMode(null);
+            setModelMaterials([]);
+            setModelHotspots([]);
+            setSelectedHotspot(null);
+            setIsPickingHotspot(false);
         };
-    }, [modelUrl]);
-    
-    const renderStatusIcon = (status: string) => {
-        if (status === 'loading') return <div className="spinner"></div>;
-        if (status === 'done') return <span className="step-status">✅</span>;
-        if (status === 'error') return <span className="step-status">❌</span>;
-        return <span className="step-status">...</span>;
+    }, [viewedModelUrl]);
+
+    const updateModelDimensions = (model: THREE.Object3D) => {
+        const size = boundsInParent(model).getSize(new THREE.Vector3());
+        setModelStats((prev: ModelStats | null) => prev && { ...prev, dimensions: { x: size.x, y: size.y, z: size.z } });
+    };
+
+    // Re-grounds the viewer and the reported dimensions after the model's scale changed.
+    const refreshModelScale = (model: THREE.Object3D, calibration: ScaleCalibration | null) => {
+        const viewer = studioViewerRef.current;
+        viewer?.updateBounds();
+        viewer?.frame();
+        viewer?.setCalibrated(!!calibration);
+        updateModelDimensions(model);
+    };
+
+    /** Keeps the model's orientation and pivot, so they survive reloading it in the viewer (e.g. previews). */
+    const commitModelTransform = (model: THREE.Object3D, factor = scaleCalibrationRef.current?.factor ?? 1) => {
+        const transform = readTransform(model, factor);
+        modelTransformRef.current = transform;
+        setModelTransform(transform);
+        updateModelDimensions(model);
+    };
+
+    const handleCalibrate = (axis: Axis, meters: number) => {
+        const model = loadedModelRef.current;
+        if (!model) return;
+        try {
+            const calibration = calibrateModel(model, axis, meters);
+            setScaleCalibration(calibration);
+            setScaleError(null);
+            refreshModelScale(model, calibration);
+            // Calibrating also grounds the model.
+            commitModelTransform(model, calibration.factor);
+        } catch (e: any) {
+            setScaleError(e.message || 'Failed to apply the scale.');
+        }
     };
 
+    const resetCalibration = () => {
+        const model = loadedModelRef.current;
+        setScaleCalibration(null);
+        setScaleError(null);
+        if (!model) return;
+        applyCalibration(model, null);
+        refreshModelScale(model, null);
+        if (modelTransformRef.current) commitModelTransform(model, 1);
+    };
+
+    const handleMaterialEditsChange = (edits: MaterialEdits) => {
+        materialEditsRef.current = edits;
+        setMaterialEdits(edits);
+        const model = loadedModelRef.current;
+        if (model) applyMaterialEdits(model, edits);
+    };
+
+    const handleHotspotsChange = (next: Hotspot[]) => {
+        hotspotEditsRef.current = next;
+        setHotspotEdits(next);
+        const model = loadedModelRef.current;
+        if (!model) return;
+        writeHotspots(model, next);
+        studioViewerRef.current?.refreshHotspots();
+    };
+
+    const handleSelectHotspot = (index: number | null) => {
+        setSelectedHotspot(index);
+        studioViewerRef.current?.showHotspot(index);
+    };
+
+    const handleHotspotPickingChange = (picking: boolean) => {
+        const viewer = studioViewerRef.current;
+        const model = loadedModelRef.current;
+        if (!viewer || !model) return;
+        if (picking) {
+            if (isMeasuring) handleMeasuringChange(false);
+            if (transformMode) handleTransformModeChange(null);
+            handleViewerOptionsChange({ autoRotate: false });
+        }
+        setIsPickingHotspot(picking);
+        // Each pick places one hotspot and selects it for editing.
+        viewer.setHotspotPicking(picking ? (point, normal) => {
+            const current = hotspotsRef.current;
+            handleHotspotsChange([...current, hotspotAt(model, point, normal, `Hotspot ${current.length + 1}`)]);
+            handleSelectHotspot(current.length);
+            setIsPickingHotspot(false);
+            viewer.setHotspotPicking(null);
+        } : null);
+    };
+
+    /** Keeps the colorways with the saved generation. */
+    const saveVariants = (next: ProductVariant[]) => {
+        variantsRef.current = next;
+        setVariants(next);
+        const record = currentRecordRef.current;
+        if (!record) return;
+        const updated = { ...record, variants: next.map(variantRecord) };
+        currentRecordRef.current = updated;
+        setCurrentRecord(updated);
+        saveGeneration(updated).then(refreshHistory, e => console.error("Failed to save the colorways:", e));
+    };
+
+    const removeVariant = (id: string) => {
+        const variant = variantsRef.current.find(v => v.id === id);
+        if (!variant || !window.confirm(`Delete the ${variant.name} colorway?`)) return;
+        if (activeVariantId === id) setActiveVariantId(null);
+        saveVariants(variantsRef.current.filter(v => v.id !== id));
+    };
+
+    const handleTransformModeChange = (mode: TransformMode | null) => {
+        const viewer = studioViewerRef.current;
+        const model = loadedModelRef.current;
+        if (!viewer || !model) return;
+        if (mode) {
+            if (isMeasuring) handleMeasuringChange(false);
+            if (isPickingHotspot) handleHotspotPickingChange(false);
+            handleViewerOptionsChange({ autoRotate: false });
+        }
+        setTransformMode(mode);
+        viewer.setTransforming(mode, () => commitModelTransform(model));
+    };
+
+    /** Runs one of the orientation or pivot actions on the loaded model. */
+    const adjustModel = (action: (model: THREE.Object3D) => void) => {
+        const model = loadedModelRef.current;
+        if (!model) return;
+        action(model);
+        studioViewerRef.current?.updateBounds();
+        commitModelTransform(model);
+    };
+
+    const resetTransform = () => {
+        const model = loadedModelRef.current;
+        modelTransformRef.current = null;
+        setModelTransform(null);
+        if (!model) return;
+        applyTransform(model, null, scaleCalibrationRef.current?.factor ?? 1);
+        studioViewerRef.current?.updateBounds();
+        studioViewerRef.current?.frame();
+        updateModelDimensions(model);
+    };
+
+    const handleMeasuringChange = (measuring: boolean) => {
+        if (measuring && transformMode) handleTransformModeChange(null);
+        if (measuring && isPickingHotspot) handleHotspotPickingChange(false);
+        setIsMeasuring(measuring);
+        setMeasuredDistance(null);
+        studioViewerRef.current?.setMeasuring(measuring ? setMeasuredDistance : null);
+    };
+
+    const handleViewerOptionsChange = (patch: Partial<ViewerOptions>) => {
+        const next = { ...viewerOptions, ...patch };
+        setViewerOptions(next);
+        saveViewerOptions(next);
+        studioViewerRef.current?.setOptions(patch);
+    };
+
+    const saveCameraBookmark = () => {
+        const viewer = studioViewerRef.current;
+        if (!viewer) return;
+        const name = window.prompt('Name this camera view:', `View ${bookmarks.length + 1}`)?.trim();
+        if (!name) return;
+        const next = [...bookmarks.filter(b => b.name !== name), viewer.getBookmark(name)];
+        setBookmarks(next);
+        saveBookmarks(next);
+    };
+
+    const applyCameraBookmark = (bookmark: CameraBookmark) => {
+        handleViewerOptionsChange({ autoRotate: false });
+        studioViewerRef.current?.applyBookmark(bookmark);
+    };
+
+    const deleteCameraBookmark = (name: string) => {
+        const next = bookmarks.filter(b => b.name !== name);
+        setBookmarks(next);
+        saveBookmarks(next);
+    };
+    
     const DownloadIcon = () => (
         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
@@ -526,21 +1043,26 @@ const App = () => {
                 <div className="loading-overlay">
                     <div className="loading-content">
                         <h2>Generating your model...</h2>
-                        <ul className="steps-container">
-                            {steps.map((step, index) => (
-                                <li key={index} className={`step-item ${step.status}`}>
-                                    {renderStatusIcon(step.status)}
-                                    <div className="step-details">
-                                        <span className="step-name">{step.name}</span>
-                                        {step.status === 'loading' && <span className="step-time">Elapsed: {step.time}s</span>}
-                                        {step.status === 'done' && <span className="step-time">Completed in {step.time}s</span>}
-                                    </div>
-                                </li>
-                            ))}
-                        </ul>
+                        <PipelineProgress steps={pipelineSteps} onRetry={retryPipelineStep} />
                          {error && <div className="error-message">{error}</div>}
                         <div className="loading-previews">
-                            {generatedImages.length > 0 && (
+                            {isReviewingViews && (
+                                <ViewReview
+                                    views={generatedImages}
+                                    busyViews={busyViews}
+                                    onRegenerate={regenerateView}
+                                    onReplace={replaceView}
+                                    onContinue={continueToReconstruction}
+                                    onRerunAll={rerunImageGenerationStep}
+                                    onCancel={handleCancelGeneration}
+                                />
+                            )}
+                            {error && !isReviewingViews && generatedImages.length === 0 && (
+                                <div className="loading-actions">
+                                    <button onClick={handleCancelGeneration} className="secondary-button danger">Cancel & Start Over</button>
+                                </div>
+                            )}
+                            {!isReviewingViews && generatedImages.length > 0 && (
                                 <>
                                     <h3>Generated View Images (Inputs for 3D Model)</h3>
                                     <div className="preview-grid">
@@ -567,10 +1089,104 @@ const App = () => {
                     <h1>Your 3D Model is Ready!</h1>
                     <div className="result-container">
                         <div className="model-panel">
-                            <div ref={viewerRef} className="model-viewer-container"></div>
-                             <button onClick={() => downloadAsset(modelUrl, '3d-model.glb')} className="action-button">
-                                Download 3D Model (.glb)
-                            </button>
+                            <div ref={viewerRef} className={`model-viewer-container ${viewerOptions.background.type === 'transparent' ? 'transparent' : ''}`}></div>
+                            {variants.length > 0 && (
+                                <VariantSwitcher
+                                    names={[ORIGINAL_VARIANT_NAME, ...variants.map(variant => variant.name)]}
+                                    shown={activeVariant ? variants.indexOf(activeVariant) + 1 : 0}
+                                    onChange={(index) => setActiveVariantId(index === 0 ? null : variants[index - 1].id)}
+                                    disabled={!modelStats}
+                                />
+                            )}
+                            <ViewerToolbar
+                                options={viewerOptions}
+                                onChange={handleViewerOptionsChange}
+                                bookmarks={bookmarks}
+                                onSaveBookmark={saveCameraBookmark}
+                                onApplyBookmark={applyCameraBookmark}
+                                onDeleteBookmark={deleteCameraBookmark}
+                                onResetCamera={() => studioViewerRef.current?.frame()}
+                            />
+                            <TransformPanel
+                                mode={transformMode}
+                                onModeChange={handleTransformModeChange}
+                                onSnapUpright={() => adjustModel(snapUpright)}
+                                onPlaceOnGround={() => adjustModel(placeOnGround)}
+                                onCenterPivot={() => adjustModel(centerPivotAtBase)}
+                                onReset={resetTransform}
+                                isAdjusted={!!modelTransform}
+                                disabled={!modelStats}
+                            />
+                            <ScalePanel
+                                dimensions={modelStats?.dimensions ?? null}
+                                calibration={scaleCalibration}
+                                onCalibrate={handleCalibrate}
+                                onReset={resetCalibration}
+                                showDimensions={viewerOptions.showDimensions}
+                                onShowDimensionsChange={(showDimensions) => handleViewerOptionsChange({ showDimensions })}
+                                isMeasuring={isMeasuring}
+                                onMeasuringChange={handleMeasuringChange}
+                                measuredDistance={measuredDistance}
+                                error={scaleError}
+                                productDimensions={productInfo?.dimensions ?? null}
+                            />
+                            <MaterialPanel
+                                materials={modelMaterials}
+                                edits={materialEdits}
+                                onChange={handleMaterialEditsChange}
+                                getModel={() => loadedModelRef.current}
+                                baseName={shownModelName}
+                                inMeters={!!scaleCalibration}
+                            />
+                            <HotspotPanel
+                                hotspots={hotspots}
+                                onChange={handleHotspotsChange}
+                                isPicking={isPickingHotspot}
+                                onPickingChange={handleHotspotPickingChange}
+                                selected={selectedHotspot}
+                                onSelect={handleSelectHotspot}
+                                disabled={!modelStats}
+                            />
+                            <VariantPanel
+                                views={generatedImages}
+                                files={files}
+                                product={productInfo}
+                                settings={currentRecord?.settings ?? settings}
+                                provider={getReconstructionProvider(currentRecord?.providerId ?? providerId)}
+                                modelUrl={modelUrl}
+                                variants={variants}
+                                onAdd={(variant) => saveVariants([...variantsRef.current, variant])}
+                                onRemove={removeVariant}
+                                shown={activeVariant ? variants.indexOf(activeVariant) + 1 : 0}
+                                getModel={() => loadedModelRef.current}
+                                baseName={modelName}
+                                confirmBudget={confirmBudget}
+                            />
+                            {/* An adjusted model is re-encoded so the GLB carries the new scale, orientation, pivot, materials and hotspots. */}
+                            <ExportPanel getModel={() => loadedModelRef.current} modelUrl={isModelAdjusted ? undefined : viewedModelUrl!} baseName={shownModelName} inMeters={!!scaleCalibration} />
+                            <ProjectBundlePanel
+                                record={currentRecord}
+                                getModel={() => loadedModelRef.current}
+                                baseName={modelName}
+                                inMeters={!!scaleCalibration}
+                                adjusted={isModelAdjusted}
+                                dimensions={modelStats?.dimensions ?? null}
+                                fidelityScore={fidelityReport?.score ?? null}
+                            />
+                            <OptimizePanel modelUrl={shownModelUrl!} baseName={shownModelName} previewUrl={previewUrl} onPreview={setPreviewUrl} />
+                            <TurntablePanel
+                                getModel={() => loadedModelRef.current}
+                                baseName={shownModelName}
+                                viewerOptions={viewerOptions}
+                                getCamera={() => studioViewerRef.current?.getBookmark('turntable') ?? null}
+                            />
+                            <EmbedCodePanel
+                                getModel={() => loadedModelRef.current}
+                                modelUrl={isModelAdjusted ? undefined : viewedModelUrl!}
+                                baseName={shownModelName}
+                                viewerOptions={viewerOptions}
+                                capturePoster={() => studioViewerRef.current ? studioViewerRef.current.capture() : Promise.reject(new Error('The viewer is not ready.'))}
+                            />
                         </div>
                         <div className="summary-panel">
                             <h2>Process Summary</h2>
@@ -594,19 +1210,30 @@ const App = () => {
                                         <div key={img.label} className="asset-item">
                                             <img src={img.url} alt={img.label}/>
                                             <p>{img.label.split(' ')[0]}</p>
-                                            <button onClick={() => downloadAsset(img.url, `${img.label.replace(' ','-').toLowerCase()}.png`)} className="download-button" title="Download">
+                                            <button onClick={() => downloadAsset(img.url, blob => viewFileName(img.label, blob.type))} className="download-button" title="Download">
                                                 <DownloadIcon />
                                             </button>
                                         </div>
                                     ))}
                                 </div>
                             </div>
+                            <hr style={{margin: '0 0 1.5rem 0', border: `1px solid var(--border-color)`}}/>
+                            <ModelStatsSection stats={modelStats} calibrated={!!scaleCalibration} />
+                            <FidelitySection
+                                report={fidelityReport}
+                                threshold={settings.fidelityThreshold}
+                                isChecking={isCheckingFidelity}
+                                onCheck={handleCheckFidelity}
+                                onRegenerate={pipelineRef.current ? regenerateModel : undefined}
+                                error={fidelityError}
+                            />
                             {totalGenerationTime !== null && (
                                 <>
                                     <hr style={{margin: '0 0 1.5rem 0', border: `1px solid var(--border-color)`}}/>
                                     <div className="summary-section">
                                         <h3>Performance</h3>
                                         <p className="total-time">Total generation time: <strong>{totalGenerationTime.toFixed(2)}s</strong></p>
+                                        {generationCost !== null && <p className="total-time">Estimated cost: <strong>{formatCost(generationCost)}</strong></p>}
                                     </div>
                                 </>
                             )}
@@ -616,6 +1243,16 @@ const App = () => {
                 </>
             ) : (
                 <>
+                    {pendingGenerations.map(pending => (
+                        <div key={pending.id} className="pending-banner">
+                            <span>
+                                <strong>{pending.name}</strong> was still being reconstructed by {getReconstructionProvider(pending.providerId).label} when the page was closed
+                                ({new Date(pending.submittedAt).toLocaleString()}).
+                            </span>
+                            <button className="action-button" onClick={() => resumePendingGeneration(pending)} disabled={isLoading}>Resume</button>
+                            <button className="secondary-button" onClick={() => discardPendingGeneration(pending)}>Discard</button>
+                        </div>
+                    ))}
                     <div className="intro-header">
                         <h1>Transform Any Product to 3D</h1>
                         <p className="sub-headline">One Pic + One Click = A 3D Boost to Sales (in Seconds)</p>
@@ -631,11 +1268,14 @@ const App = () => {
                                 Upload Image File
                             </button>
                             <button className={`tab-button ${inputMethod === 'url' ? 'active' : ''}`} onClick={() => setInputMethod('url')}>
-                                Fetch From Product Page (Beta)
+                                Import From Product Page
+                            </button>
+                            <button className={`tab-button ${inputMethod === 'batch' ? 'active' : ''}`} onClick={() => setInputMethod('batch')}>
+                                Batch (Catalog)
                             </button>
                         </div>
 
-                        {inputMethod === 'upload' ? (
+                        {inputMethod === 'upload' && (
                              <div
                                 className={`upload-area ${isDragging ? 'drag-over' : ''}`}
                                 onDragOver={handleDragOver}
@@ -647,41 +1287,53 @@ const App = () => {
                                 <p>Up to 3 images</p>
                                 <input type="file" id="file-input" multiple accept="image/*" style={{ display: 'none' }} onChange={(e) => handleFileChange(e.target.files)} />
                             </div>
-                        ) : (
-                            <div className="url-input-area">
-                                <p>Already listed? Paste your live product page URL here to automatically extract the main image. (This Beta feature is still finicky. For best results, upload your image directly.)</p>
-                                <div className="url-input-group">
-                                    <input 
-                                        type="url"
-                                        placeholder="e.g. https://www.liveauctioneers.com/item/214360132_a-contemporary-desk-los-angeles-ca"
-                                        value={productUrl}
-                                        onChange={(e) => setProductUrl(e.target.value)}
-                                        disabled={isFetchingUrl}
-                                        aria-label="Product page URL"
-                                    />
-                                    <button onClick={handleUrlFetch} disabled={isFetchingUrl || !productUrl || files.length >= 3}>
-                                        {isFetchingUrl ? <div className="spinner-small"></div> : 'Fetch Image'}
-                                    </button>
-                                </div>
-                                {urlError && <div className="error-message small">{urlError}</div>}
-                            </div>
                         )}
+                        {inputMethod === 'url' && <ProductImportPanel maxImages={3 - files.length} onAdd={handleProductImport} />}
+                        {inputMethod === 'batch' && <BatchPanel queue={batchQueueRef.current} />}
                        
-                        {files.length > 0 && (
-                            <div className="image-previews">
-                                {files.map((file, index) => (
-                                    <div key={index} className="preview-item">
-                                        <img src={URL.createObjectURL(file)} alt={`preview ${index}`} />
-                                        <button onClick={() => removeFile(index)} className="remove-btn" aria-label="Remove image">×</button>
-                                    </div>
+                        {inputMethod !== 'batch' && files.length > 0 && (
+                            <InputPreviews
+                                files={files}
+                                cleaned={cleanedInputs}
+                                showCleaned={settings.preprocessInputs}
+                                onToggleCleaned={(enabled) => handleSettingsChange({ ...settings, preprocessInputs: enabled })}
+                                onRemove={removeFile}
+                            />
+                        )}
+                        <div className="provider-select">
+                            <label htmlFor="provider-select">3D Reconstruction Backend</label>
+                            <select id="provider-select" value={providerId} onChange={(e) => handleProviderChange(e.target.value)} disabled={isLoading}>
+                                {reconstructionProviders.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
                                 ))}
-                            </div>
+                            </select>
+                            <p>{getReconstructionProvider(providerId).description}</p>
+                        </div>
+                        <SettingsPanel
+                            settings={settings}
+                            onChange={handleSettingsChange}
+                            provider={getReconstructionProvider(providerId)}
+                            disabled={isLoading}
+                        />
+                        <UsagePanel />
+                        {inputMethod !== 'batch' && (
+                            <>
+                                {error && !isLoading && <div className="error-message">{error}</div>}
+                                <button onClick={startGeneration} className="action-button" disabled={files.length === 0 || isLoading || isCleaningInputs}>
+                                    {isCleaningInputs ? 'Cleaning Up Photos...' : 'Generate 3D Model'}
+                                </button>
+                            </>
                         )}
-                        {error && !isLoading && <div className="error-message">{error}</div>}
-                        <button onClick={startGeneration} className="action-button" disabled={files.length === 0 || isLoading}>
-                            Generate 3D Model
-                        </button>
                      </div>
+
+                    <ProjectBundleImport onOpen={openHistoryRecord} disabled={isLoading} />
+                    <HistoryGallery
+                        records={history}
+                        onOpen={openHistoryRecord}
+                        onDownload={(record) => saveBlob(record.model, `${record.name}.glb`)}
+                        onRename={handleRenameHistoryRecord}
+                        onDelete={handleDeleteHistoryRecord}
+                    />
                 </>
             )}
         </div>
@@ -0,0 +1,204 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+import { buildMockGlb } from '../services/reconstruction/mockModel';
+import { extractProductPage, ProductPageInfo } from '../services/productPage';
+import { checkPublicUrl, fetchPublicUrl, readLimited, ResponseTooLargeError, UnsafeUrlError } from './safeFetch';
+import { createStandinFal, createStandinGemini } from './standins';
+import { createFalUpstream, createGeminiUpstream, FalUpstream, GeminiUpstream } from './upstreams';
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+// Limits for pages and images fetched on the browser's behalf.
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 20_000;
+const MOCK_MODEL_PATH = '/api/standins/mock.glb';
+// Some storefronts only serve full markup to browsers.
+const PAGE_REQUEST_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+    'Accept': 'text/html,application/xhtml+xml',
+};
+
+export interface ApiServerEnv {
+    GEMINI_API_KEY?: string;
+    GEMINI_BASE_URL?: string;
+    FAL_KEY?: string;
+    FAL_QUEUE_BASE_URL?: string;
+    API_STANDINS?: string;
+}
+
+export interface ApiUpstreams {
+    gemini: GeminiUpstream;
+    fal: FalUpstream;
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try { resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')); }
+        catch (_) { reject(new HttpError(400, 'Request body must be JSON.')); }
+    });
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+};
+
+const requireString = (body: any, field: string): string => {
+    const value = body?.[field];
+    if (typeof value !== 'string' || !value) throw new HttpError(400, `Missing "${field}".`);
+    return value;
+};
+
+const statusOf = (error: any) => {
+    if (error instanceof HttpError) return error.status;
+    if (error instanceof UnsafeUrlError) return 400;
+    if (error instanceof ResponseTooLargeError) return 413;
+    if (error?.name === 'TimeoutError') return 504;
+    return 500;
+};
+
+/** An upstream whose every method fails with a hint to set `name`. */
+const missingKeyUpstream = <T extends object>(name: string) => new Proxy({}, {
+    get: () => async () => { throw new HttpError(500, `${name} is not configured on the server. Set it in .env.local or run with API_STANDINS=1.`); },
+}) as T;
+
+/** `mockModelUrl` is where the stand-in fal points finished jobs; the CLI passes a data URL as it has no server. */
+export const createUpstreams = (env: ApiServerEnv, mockModelUrl = MOCK_MODEL_PATH): ApiUpstreams => {
+    if (env.API_STANDINS === '1' || env.API_STANDINS === 'true') {
+        return { gemini: createStandinGemini(), fal: createStandinFal(mockModelUrl) };
+    }
+    return {
+        gemini: env.GEMINI_API_KEY ? createGeminiUpstream(env.GEMINI_API_KEY, env.GEMINI_BASE_URL) : missingKeyUpstream<GeminiUpstream>('GEMINI_API_KEY'),
+        fal: env.FAL_KEY ? createFalUpstream(env.FAL_KEY, env.FAL_QUEUE_BASE_URL) : missingKeyUpstream<FalUpstream>('FAL_KEY'),
+    };
+};
+
+/** Reads the page's own markup first; Gemini is only asked when that has no product images. */
+export const loadProductPage = async (gemini: GeminiUpstream, pageUrl: string): Promise<ProductPageInfo> => {
+    if (!/^https?:\/\//i.test(pageUrl)) throw new HttpError(400, 'The product URL must start with http:// or https://.');
+    await checkPublicUrl(pageUrl);
+    let info: ProductPageInfo = { url: pageUrl, images: [], usedModel: false };
+    try {
+        const page = await fetchPublicUrl(pageUrl, { headers: PAGE_REQUEST_HEADERS, timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_PAGE_BYTES });
+        if (page.ok) info = { ...extractProductPage(page.body.toString('utf8'), page.url), url: pageUrl };
+    } catch (e) {
+        console.warn(`[api] Could not read ${pageUrl}:`, e);
+    }
+    if (info.images.length > 0) return info;
+
+    const imageUrl = await gemini.findProductImageUrl(pageUrl);
+    if (!imageUrl) throw new HttpError(404, "No product images were found on the page, and Gemini could not find one either.");
+    return { ...info, images: [{ url: imageUrl, source: 'model' }], usedModel: true };
+};
+
+/**
+ * Connect middleware that keeps the Gemini and fal credentials on the server.
+ * The browser talks to these /api routes instead of calling either service.
+ */
+export const createApiMiddleware = (upstreams: ApiUpstreams): Connect.NextHandleFunction => {
+    const { gemini, fal } = upstreams;
+
+    const routes: Record<string, (body: any, res: ServerResponse) => Promise<void>> = {
+        '/api/views/generate': async (body, res) => {
+            const image = await gemini.generateViewImage({
+                images: Array.isArray(body.images) ? body.images : [],
+                prompt: requireString(body, 'prompt'),
+                model: requireString(body, 'model'),
+            });
+            sendJson(res, 200, image);
+        },
+        '/api/product-page': async (body, res) => {
+            sendJson(res, 200, await loadProductPage(gemini, requireString(body, 'pageUrl')));
+        },
+        '/api/image-proxy': async (body, res) => {
+            const imageUrl = requireString(body, 'imageUrl');
+            if (!/^(https?:|data:image\/)/i.test(imageUrl)) throw new HttpError(400, 'Only http(s) image URLs can be fetched.');
+
+            // Fetched here rather than in the browser so storefront CORS rules don't apply.
+            // Data URLs are decoded without touching the network.
+            const imageResponse = imageUrl.startsWith('data:')
+                ? await fetch(imageUrl).then(async response => ({ ok: true, status: 200, contentType: response.headers.get('content-type'), body: await readLimited(response, MAX_IMAGE_BYTES) }))
+                : await fetchPublicUrl(imageUrl, { timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_IMAGE_BYTES });
+            if (!imageResponse.ok) {
+                throw new HttpError(502, `Failed to fetch the image. Status: ${imageResponse.status}`);
+            }
+            const contentType = imageResponse.contentType || 'application/octet-stream';
+            if (!contentType.startsWith('image/') && !contentType.startsWith('application/octet-stream')) {
+                throw new HttpError(415, `The URL did not return an image (${contentType}).`);
+            }
+            res.statusCode = 200;
+            res.setHeader('Content-Type', contentType);
+            res.end(imageResponse.body);
+        },
+        '/api/fal/submit': async (body, res) => {
+            const result = await fal.submit(requireString(body, 'modelId'), body.input ?? {});
+            sendJson(res, result.status, result.body);
+        },
+        '/api/fal/status': async (body, res) => {
+            const result = await fal.status(requireString(body, 'statusUrl'));
+            sendJson(res, result.status, result.body);
+        },
+        '/api/fal/result': async (body, res) => {
+            const result = await fal.result(requireString(body, 'responseUrl'));
+            sendJson(res, result.status, result.body);
+        },
+        '/api/fal/cancel': async (body, res) => {
+            const result = await fal.cancel(requireString(body, 'cancelUrl'));
+            sendJson(res, result.status, result.body);
+        },
+    };
+
+    return async (req, res, next) => {
+        const path = (req.url || '').split('?')[0];
+
+        if (path === MOCK_MODEL_PATH && req.method === 'GET') {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'model/gltf-binary');
+            res.end(Buffer.from(buildMockGlb()));
+            return;
+        }
+
+        const handler = routes[path];
+        if (!handler) return next();
+        if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed.' });
+
+        try {
+            await handler(await readJsonBody(req), res);
+        } catch (e: any) {
+            console.error(`[api] ${path} failed:`, e);
+            sendJson(res, statusOf(e), { error: e.message || 'Unexpected server error.' });
+        }
+    };
+};
+
+export const apiPlugin = (env: ApiServerEnv): Plugin => {
+    const middleware = createApiMiddleware(createUpstreams(env));
+    return {
+        name: 'model-maker-api',
+        configureServer(server) {
+            server.middlewares.use(middleware);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(middleware);
+        },
+    };
+};
@@ -0,0 +1,112 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+/**
+ * Fetches for URLs the browser sends. The proxy runs next to other services,
+ * so only public hosts are reached, on every redirect hop, with a time and
+ * size limit.
+ */
+
+const MAX_REDIRECTS = 5;
+
+export class UnsafeUrlError extends Error {}
+
+export class ResponseTooLargeError extends Error {}
+
+export interface SafeResponse {
+    status: number;
+    ok: boolean;
+    // The URL after redirects.
+    url: string;
+    contentType: string | null;
+    body: Buffer;
+}
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges.
+const privateAddresses = new BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => privateAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => privateAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isPrivateAddress = (address: string): boolean => {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const family = isIP(address);
+    if (family === 0) return true;
+    return privateAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/** Throws unless `url` is http(s) and every address its host resolves to is public. */
+export const checkPublicUrl = async (url: string): Promise<URL> => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new UnsafeUrlError(`${url} is not a valid URL.`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new UnsafeUrlError('Only http:// and https:// URLs can be fetched.');
+    const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: { address: string }[];
+    try {
+        addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+        throw new UnsafeUrlError(`${parsed.hostname} could not be resolved.`);
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new UnsafeUrlError(`${parsed.hostname} is not a public host.`);
+    }
+    return parsed;
+};
+
+/** Reads the body, giving up once it passes `maxBytes`. */
+export const readLimited = async (response: Response, maxBytes: number): Promise<Buffer> => {
+    if (Number(response.headers.get('content-length')) > maxBytes) throw new ResponseTooLargeError('The response is too large.');
+    if (!response.body) return Buffer.alloc(0);
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxBytes) {
+            await reader.cancel();
+            throw new ResponseTooLargeError('The response is too large.');
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+};
+
+/** `fetch` for public http(s) URLs only; redirects are followed by hand so each hop is checked. */
+export const fetchPublicUrl = async (url: string, { headers, timeoutMs, maxBytes }: {
+    headers?: Record<string, string>;
+    timeoutMs: number;
+    maxBytes: number;
+}): Promise<SafeResponse> => {
+    const signal = AbortSignal.timeout(timeoutMs);
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await checkPublicUrl(current);
+        const response = await fetch(current, { headers, signal, redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+            await response.body?.cancel();
+            current = new URL(location, current).href;
+            continue;
+        }
+        return {
+            status: response.status,
+            ok: response.ok,
+            url: current,
+            contentType: response.headers.get('content-type'),
+            body: response.ok ? await readLimited(response, maxBytes) : Buffer.alloc(0),
+        };
+    }
+    throw new UnsafeUrlError(`${url} redirected more than ${MAX_REDIRECTS} times.`);
+};
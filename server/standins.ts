@@ -0,0 +1,116 @@
+import { deflateSync } from 'node:zlib';
+import type { FalUpstream, GeminiUpstream } from './upstreams';
+
+/**
+ * In-process stand-ins for Gemini and fal, enabled with API_STANDINS=1. They
+ * answer with the same shapes as the real services so the proxy and the front
+ * end can be exercised without credentials or network access.
+ */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'ascii');
+    chunk.set(data, 8);
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+};
+
+/** A white square with a centered colored block, roughly what a studio product shot looks like. */
+export const encodePlaceholderPng = (size: number, rgb: [number, number, number]): Buffer => {
+    const rowLength = 1 + size * 3;
+    const raw = Buffer.alloc(rowLength * size, 0xff);
+    const inset = Math.round(size * 0.25);
+    for (let y = 0; y < size; y++) {
+        raw[y * rowLength] = 0; // filter: none
+        if (y < inset || y >= size - inset) continue;
+        for (let x = inset; x < size - inset; x++) {
+            raw.set(rgb, y * rowLength + 1 + x * 3);
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(size, 0);
+    header.writeUInt32BE(size, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // truecolor
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ]);
+};
+
+const colorForPrompt = (prompt: string): [number, number, number] => {
+    let hash = 0;
+    for (const char of prompt) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return [80 + (hash & 0x7f), 80 + ((hash >> 7) & 0x7f), 80 + ((hash >> 14) & 0x7f)];
+};
+
+export const createStandinGemini = (): GeminiUpstream => ({
+    async generateViewImage({ prompt }) {
+        return { data: encodePlaceholderPng(256, colorForPrompt(prompt)).toString('base64'), mimeType: 'image/png' };
+    },
+    async findProductImageUrl() {
+        return `data:image/png;base64,${encodePlaceholderPng(512, [106, 90, 205]).toString('base64')}`;
+    },
+});
+
+const STANDIN_FAL_BASE = 'standin://fal';
+const POLLS_UNTIL_DONE = 2;
+
+export const createStandinFal = (mockModelUrl: string): FalUpstream => {
+    const jobs = new Map<string, { polls: number; cancelled: boolean }>();
+    let nextId = 1;
+
+    const jobFor = (url: string, suffix: string) => {
+        const match = url.match(new RegExp(`^${STANDIN_FAL_BASE}/requests/([\\w-]+)${suffix}(\\?.*)?$`));
+        return match ? { id: match[1], job: jobs.get(match[1]) } : null;
+    };
+    const notFound = { status: 404, body: { detail: 'Request not found' } };
+
+    return {
+        async submit() {
+            const id = `standin-${nextId++}`;
+            jobs.set(id, { polls: 0, cancelled: false });
+            const base = `${STANDIN_FAL_BASE}/requests/${id}`;
+            return {
+                status: 200,
+                body: { request_id: id, status_url: `${base}/status`, response_url: base, cancel_url: `${base}/cancel` },
+            };
+        },
+        async status(statusUrl) {
+            const found = jobFor(statusUrl, '/status');
+            if (!found?.job) return notFound;
+            if (found.job.cancelled) return { status: 200, body: { status: 'ERROR', logs: [{ message: 'Request was cancelled.' }] } };
+            found.job.polls++;
+            const status = found.job.polls > POLLS_UNTIL_DONE ? 'COMPLETED' : found.job.polls > 1 ? 'IN_PROGRESS' : 'IN_QUEUE';
+            const logs = status === 'IN_PROGRESS' ? [{ message: 'Reconstructing stand-in mesh...' }] : [];
+            return { status: 200, body: { status, queue_position: status === 'IN_QUEUE' ? 0 : undefined, logs } };
+        },
+        async result(responseUrl) {
+            const found = jobFor(responseUrl, '');
+            if (!found?.job) return notFound;
+            return { status: 200, body: { model_mesh: { url: mockModelUrl, content_type: 'model/gltf-binary' } } };
+        },
+        async cancel(cancelUrl) {
+            const found = jobFor(cancelUrl, '/cancel');
+            if (!found?.job) return notFound;
+            found.job.cancelled = true;
+            return { status: 202, body: { status: 'CANCELLATION_REQUESTED' } };
+        },
+    };
+};
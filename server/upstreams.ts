@@ -0,0 +1,112 @@
+import { GoogleGenAI, Modality, Type } from '@google/genai';
+
+export interface InlineImage {
+    data: string; // base64, no data URL prefix
+    mimeType: string;
+}
+
+/** The Gemini operations the proxy needs; implemented by the real SDK or a local stand-in. */
+export interface GeminiUpstream {
+    generateViewImage(request: { images: InlineImage[]; prompt: string; model: string }): Promise<InlineImage>;
+    findProductImageUrl(pageUrl: string): Promise<string>;
+}
+
+export interface FalResponse {
+    status: number;
+    body: any;
+}
+
+/** fal's queue API; status/result/cancel take the URLs fal returned on submit. */
+export interface FalUpstream {
+    submit(modelId: string, input: unknown): Promise<FalResponse>;
+    status(statusUrl: string): Promise<FalResponse>;
+    result(responseUrl: string): Promise<FalResponse>;
+    cancel(cancelUrl: string): Promise<FalResponse>;
+}
+
+export const createGeminiUpstream = (apiKey: string, baseUrl?: string): GeminiUpstream => {
+    const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+    return {
+        async generateViewImage({ images, prompt, model }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: prompt }] },
+                config: { responseModalities: [Modality.IMAGE] },
+            });
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+            if (!imagePart?.inlineData?.data) throw new Error('Gemini did not return an image.');
+            return { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' };
+        },
+
+        async findProductImageUrl(pageUrl) {
+            // Step 1: Get image URL from product page using URL Context tool
+            const findImagePrompt = `Analyze the content of the product page at ${pageUrl} and return the URL of the main, high-resolution product image. The image should be on a clean background if possible. Return the image URL.`;
+            const imageResponse = await ai.models.generateContent({
+                model: "gemini-2.5-flash-lite",
+                contents: [findImagePrompt],
+                config: { thinkingConfig: { thinkingBudget: -1, }, tools: [{ urlContext: {} }] },
+            });
+
+            // Step 2: Extract the URL cleanly using structured output
+            const extractUrlPrompt = `From the following text, extract the image URL: "${imageResponse.text}"`;
+            const jsonResponse = await ai.models.generateContent({
+                model: "gemini-2.5-flash-lite",
+                contents: [extractUrlPrompt],
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            imageUrl: {
+                                type: Type.STRING,
+                                description: "The extracted image URL"
+                            },
+                        },
+                        required: ["imageUrl"],
+                    },
+                },
+            });
+            return JSON.parse(jsonResponse.text || '{}').imageUrl;
+        },
+    };
+};
+
+export const createFalUpstream = (falKey: string, baseUrl = 'https://queue.fal.run'): FalUpstream => {
+    const authHeaders = { 'Authorization': `Key ${falKey}` };
+
+    // Only ever forward the key to fal's own queue host.
+    const checkUrl = (url: string) => {
+        if (typeof url !== 'string' || !url.startsWith(`${baseUrl}/`)) {
+            throw new Error(`Refusing to forward request to ${url}`);
+        }
+        return url;
+    };
+
+    const toFalResponse = async (response: Response): Promise<FalResponse> => {
+        const text = await response.text();
+        let body: any;
+        try { body = JSON.parse(text); } catch (_) { body = { detail: text }; }
+        return { status: response.status, body };
+    };
+
+    return {
+        async submit(modelId, input) {
+            if (!/^[\w.-]+(\/[\w.-]+)*$/.test(modelId)) throw new Error(`Invalid fal model id: ${modelId}`);
+            return toFalResponse(await fetch(`${baseUrl}/${modelId}`, {
+                method: 'POST',
+                headers: { ...authHeaders, 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            }));
+        },
+        async status(statusUrl) {
+            return toFalResponse(await fetch(checkUrl(statusUrl), { headers: authHeaders }));
+        },
+        async result(responseUrl) {
+            return toFalResponse(await fetch(checkUrl(responseUrl), { headers: authHeaders }));
+        },
+        async cancel(cancelUrl) {
+            return toFalResponse(await fetch(checkUrl(cancelUrl), { method: 'PUT', headers: authHeaders }));
+        },
+    };
+};
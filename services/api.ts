@@ -0,0 +1,96 @@
+import type { ProductPageInfo } from './productPage';
+import { recordUsage, trackUsage, URL_IMPORT_CALLS, URL_IMPORT_MODEL } from './usage';
+
+/**
+ * Browser client for the local /api proxy (see server/apiPlugin.ts). All calls
+ * to Gemini and fal go through here so no credentials ship in the bundle.
+ * Paid Gemini calls are recorded in the usage ledger; `runId` ties them to a generation.
+ */
+
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+const readError = async (response: Response) => {
+    const text = await response.text();
+    try {
+        const body = JSON.parse(text);
+        return body.error || body.detail || text;
+    } catch (_) {
+        return text || `Request failed with status ${response.status}`;
+    }
+};
+
+const postJson = async <T = any>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) throw new Error(await readError(response));
+    return response.json();
+};
+
+export const generateViewImage = (request: { images: InlineImage[]; prompt: string; model: string }, runId?: string) =>
+    trackUsage(
+        { service: 'gemini', model: request.model, operation: 'View image', runId },
+        () => postJson<InlineImage>('/api/views/generate', request),
+    );
+
+/** Product details and candidate images from a product page. The Gemini fallback is recorded only when it was used. */
+export const fetchProductPage = async (pageUrl: string, runId?: string): Promise<ProductPageInfo> => {
+    const start = performance.now();
+    const info = await postJson<ProductPageInfo>('/api/product-page', { pageUrl });
+    if (info.usedModel) {
+        recordUsage({ service: 'gemini', model: URL_IMPORT_MODEL, operation: 'URL import', count: URL_IMPORT_CALLS, runId, durationMs: performance.now() - start, ok: true });
+    }
+    return info;
+};
+
+/** Downloads an image through the proxy, so storefront CORS rules don't apply. */
+export const fetchImageFromUrl = async (imageUrl: string): Promise<File> => {
+    const response = await fetch('/api/image-proxy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageUrl }),
+    });
+    if (!response.ok) throw new Error(await readError(response));
+
+    const blob = await response.blob();
+    const path = imageUrl.startsWith('data:') ? '' : imageUrl.split(/[?#]/)[0];
+    const filename = path.substring(path.lastIndexOf('/') + 1) || 'product-image.jpg';
+    return new File([blob], filename, { type: blob.type });
+};
+
+/** The page's best image, for unattended imports. */
+export const fetchProductImage = async (pageUrl: string, runId?: string): Promise<File> => {
+    const info = await fetchProductPage(pageUrl, runId);
+    return fetchImageFromUrl(info.images[0].url);
+};
+
+export interface FalProxyResponse {
+    ok: boolean;
+    status: number;
+    body: any;
+}
+
+// fal responses are passed through with their status so callers can decide how to treat them.
+const postFal = async (path: string, body: unknown): Promise<FalProxyResponse> => {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    let parsed: any;
+    try { parsed = JSON.parse(text); } catch (_) { parsed = { detail: text }; }
+    return { ok: response.ok, status: response.status, body: parsed };
+};
+
+export const falQueue = {
+    submit: (modelId: string, input: unknown) => postFal('/api/fal/submit', { modelId, input }),
+    status: (statusUrl: string) => postFal('/api/fal/status', { statusUrl }),
+    result: (responseUrl: string) => postFal('/api/fal/result', { responseUrl }),
+    cancel: (cancelUrl: string) => postFal('/api/fal/cancel', { cancelUrl }),
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { groupFilesIntoProducts, parseProductUrlCsv, productKeyFromFilename } from './batchInputs';
+
+/** An image as a folder drop delivers it, with its path below the dropped folder. */
+const image = (path: string, type = 'image/jpeg') => {
+    const file = new File(['x'], path.split('/').pop()!, { type });
+    if (path.includes('/')) Object.defineProperty(file, 'relativePath', { value: path });
+    return file;
+};
+
+const grouped = (files: File[]) => groupFilesIntoProducts(files).map(({ name, files }) => [name, files!.map(file => file.name)]);
+
+describe('productKeyFromFilename', () => {
+    it('removes a view suffix', () => {
+        expect(productKeyFromFilename('desk_front.jpg')).toBe('desk');
+        expect(productKeyFromFilename('desk-Back.png')).toBe('desk');
+        expect(productKeyFromFilename('desk detail2.jpg')).toBe('desk');
+    });
+
+    it('removes a copy marker', () => {
+        expect(productKeyFromFilename('desk (1).jpg')).toBe('desk');
+        expect(productKeyFromFilename('desk_front (2).jpg')).toBe('desk');
+    });
+
+    it('keeps numbers that may be part of the SKU', () => {
+        expect(productKeyFromFilename('TBL-10.jpg')).toBe('TBL-10');
+        expect(productKeyFromFilename('TBL-11.jpg')).toBe('TBL-11');
+        expect(productKeyFromFilename('lamp_2_front.jpg')).toBe('lamp_2');
+    });
+
+    it('removes a photo number after a view, or when the unnumbered name is known', () => {
+        expect(productKeyFromFilename('desk_front_2.jpg')).toBe('desk');
+        expect(productKeyFromFilename('desk-2.jpg', new Set(['desk']))).toBe('desk');
+        expect(productKeyFromFilename('TBL-10.jpg', new Set(['TBL-11']))).toBe('TBL-10');
+    });
+
+    it('falls back to the whole name', () => {
+        expect(productKeyFromFilename('front.jpg')).toBe('front');
+        expect(productKeyFromFilename('(1).jpg')).toBe('(1)');
+    });
+});
+
+describe('groupFilesIntoProducts', () => {
+    it('groups loose images by name', () => {
+        expect(grouped([image('desk_front.jpg'), image('chair.jpg'), image('desk_back.jpg'), image('desk-2.jpg')])).toEqual([
+            ['chair', ['chair.jpg']],
+            ['desk', ['desk_back.jpg', 'desk_front.jpg', 'desk-2.jpg']],
+        ]);
+    });
+
+    it('keeps numbered SKUs apart', () => {
+        expect(grouped([image('TBL-10.jpg'), image('TBL-11.jpg')])).toEqual([
+            ['TBL-10', ['TBL-10.jpg']],
+            ['TBL-11', ['TBL-11.jpg']],
+        ]);
+    });
+
+    it('ignores files that are not images', () => {
+        expect(grouped([image('desk.jpg'), image('notes.txt', 'text/plain')])).toEqual([['desk', ['desk.jpg']]]);
+    });
+
+    it('treats the children of a single dropped folder as loose images', () => {
+        expect(grouped([image('shoot/desk_front.jpg'), image('shoot/desk_back.jpg'), image('shoot/lamp.jpg')])).toEqual([
+            ['desk', ['desk_back.jpg', 'desk_front.jpg']],
+            ['lamp', ['lamp.jpg']],
+        ]);
+    });
+
+    it('names products after their subfolder below a single dropped folder', () => {
+        expect(grouped([image('shoot/Desk A/1.jpg'), image('shoot/Desk A/2.jpg'), image('shoot/Lamp/a.jpg')])).toEqual([
+            ['Desk A', ['1.jpg', '2.jpg']],
+            ['Lamp', ['a.jpg']],
+        ]);
+    });
+
+    it('names products after each folder when several were dropped', () => {
+        expect(grouped([image('Desk/front.jpg'), image('Lamp/front.jpg'), image('Desk/back.jpg')])).toEqual([
+            ['Desk', ['back.jpg', 'front.jpg']],
+            ['Lamp', ['front.jpg']],
+        ]);
+    });
+
+    it('keeps at most three images per product', () => {
+        const files = ['a', 'b', 'c', 'd'].map(name => image(`Desk/${name}.jpg`));
+        expect(grouped([...files, image('Lamp/a.jpg')])[0]).toEqual(['Desk', ['a.jpg', 'b.jpg', 'c.jpg']]);
+    });
+});
+
+describe('parseProductUrlCsv', () => {
+    it('reads the url and name columns named in the header', () => {
+        expect(parseProductUrlCsv('sku,title,product_url\nTBL-10,Table,https://shop.example/tbl-10\n\nTBL-11,,https://shop.example/tbl-11\n')).toEqual([
+            { name: 'TBL-10', sourceUrl: 'https://shop.example/tbl-10' },
+            { name: 'TBL-11', sourceUrl: 'https://shop.example/tbl-11' },
+        ]);
+    });
+
+    it('takes the first URL of each row without a header, named after its path', () => {
+        expect(parseProductUrlCsv('Desk,https://shop.example/p/desk\r\nnot a url\r\nhttps://shop.example/\r\n')).toEqual([
+            { name: 'desk', sourceUrl: 'https://shop.example/p/desk' },
+            { name: 'shop.example', sourceUrl: 'https://shop.example/' },
+        ]);
+    });
+
+    it('splits only on the delimiter of the first line', () => {
+        expect(parseProductUrlCsv('name;url\nDesk;https://shop.example/p/desk,oak?utm=a,b')).toEqual([
+            { name: 'Desk', sourceUrl: 'https://shop.example/p/desk,oak?utm=a,b' },
+        ]);
+        expect(parseProductUrlCsv('name\turl\nDesk\thttps://shop.example/p;v=2')).toEqual([
+            { name: 'Desk', sourceUrl: 'https://shop.example/p;v=2' },
+        ]);
+    });
+
+    it('reads a single column of URLs without splitting them', () => {
+        expect(parseProductUrlCsv('url\nhttps://shop.example/p/desk;jsessionid=1,2')).toEqual([
+            { name: 'desk;jsessionid=1,2', sourceUrl: 'https://shop.example/p/desk;jsessionid=1,2' },
+        ]);
+    });
+
+    it('unquotes cells, keeping delimiters and escaped quotes inside them', () => {
+        expect(parseProductUrlCsv('name,url\n"Desk, ""Oak""","https://shop.example/p?a=1,2"')).toEqual([
+            { name: 'Desk, "Oak"', sourceUrl: 'https://shop.example/p?a=1,2' },
+        ]);
+    });
+
+    it('returns nothing for an empty file', () => {
+        expect(parseProductUrlCsv('\n\n')).toEqual([]);
+    });
+});
@@ -0,0 +1,157 @@
+import { stripExtension } from '../utils/files';
+
+export interface BatchInput {
+    name: string;
+    files?: File[];
+    sourceUrl?: string;
+}
+
+const MAX_IMAGES_PER_PRODUCT = 3;
+
+// Trailing markers: a view, e.g. "sku123_front"; a copy, e.g. "sku123 (1)"; a photo number, e.g. "sku123-2".
+const VIEW_SUFFIX = /[\s._-]+(front|back|left|right|side|top|bottom|main|alt\d*|detail\d*)$/i;
+const COPY_SUFFIX = /\s*\(\d+\)$/;
+const NUMBER_SUFFIX = /[\s._-]+\d{1,2}$/;
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+const stripViewSuffix = (stem: string) => stem.replace(VIEW_SUFFIX, '') || stem;
+
+/**
+ * The product a loose image belongs to: its name without a view and at most
+ * one copy or photo number. Numbers are often part of the SKU ("TBL-10"), so
+ * one is only removed after a view ("desk_front_2") or when `knownStems`
+ * holds the name without it ("desk-2" next to "desk_front").
+ */
+export const productKeyFromFilename = (filename: string, knownStems: ReadonlySet<string> = new Set()) => {
+    const stem = stripExtension(filename);
+    let key = stem;
+    if (COPY_SUFFIX.test(key)) {
+        key = key.replace(COPY_SUFFIX, '');
+    } else {
+        const unnumbered = key.replace(NUMBER_SUFFIX, '');
+        if (unnumbered && unnumbered !== key && (VIEW_SUFFIX.test(unnumbered) || knownStems.has(stripViewSuffix(unnumbered)))) key = unnumbered;
+    }
+    return stripViewSuffix(key) || stem;
+};
+
+const relativePathOf = (file: File) => (file as File & { relativePath?: string }).relativePath || file.webkitRelativePath || '';
+
+/**
+ * Groups dropped images into products. Images inside a subfolder belong to the
+ * product named after that folder; loose images are grouped by filename stem
+ * with view suffixes removed ("desk_front.jpg" + "desk_back.jpg" -> "desk").
+ */
+export const groupFilesIntoProducts = (files: File[]): BatchInput[] => {
+    const images = files
+        .filter(file => file.type.startsWith('image/'))
+        .sort((a, b) => (relativePathOf(a) || a.name).localeCompare(relativePathOf(b) || b.name));
+
+    // When one folder was picked, its direct children are loose images, not a product.
+    const roots = new Set(images.map(file => relativePathOf(file).split('/')[0]));
+    const singleRoot = roots.size === 1;
+
+    const folderOf = (file: File) => {
+        const segments = relativePathOf(file).split('/').filter(Boolean);
+        const inProductFolder = segments.length >= 3 || (segments.length === 2 && !singleRoot);
+        return inProductFolder ? segments[segments.length - 2] : null;
+    };
+    const looseStems = new Set(images.filter(file => folderOf(file) === null).map(file => stripViewSuffix(stripExtension(file.name))));
+
+    const groups = new Map<string, File[]>();
+    images.forEach(file => {
+        const key = folderOf(file) ?? productKeyFromFilename(file.name, looseStems);
+        groups.set(key, [...(groups.get(key) ?? []), file]);
+    });
+    return Array.from(groups, ([name, groupFiles]) => ({ name, files: groupFiles.slice(0, MAX_IMAGES_PER_PRODUCT) }));
+};
+
+/** The delimiter used most in `line` outside quotes, or null for a single column. */
+const detectDelimiter = (line: string): string | null => {
+    const unquoted = line.replace(/"(?:[^"]|"")*"/g, '');
+    const counts = CSV_DELIMITERS.map(delimiter => unquoted.split(delimiter).length - 1);
+    const most = Math.max(...counts);
+    return most > 0 ? CSV_DELIMITERS[counts.indexOf(most)] : null;
+};
+
+const parseCsvLine = (line: string, delimiter: string | null): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+const isHttpUrl = (value: string) => /^https?:\/\/\S+$/i.test(value);
+
+/**
+ * Reads product page URLs from a CSV. The delimiter (comma, semicolon or tab)
+ * is taken from the first line. A header row with a "url" column (and
+ * optionally "sku" or "name") is honoured; otherwise the first URL-looking
+ * cell of each row is used.
+ */
+export const parseProductUrlCsv = (text: string): BatchInput[] => {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return [];
+    const delimiter = detectDelimiter(lines[0]);
+    const rows = lines.map(line => parseCsvLine(line, delimiter));
+
+    const header = rows[0].map(cell => cell.toLowerCase());
+    const hasHeader = !rows[0].some(isHttpUrl);
+    const urlColumn = hasHeader ? header.findIndex(cell => cell === 'url' || cell.includes('url') || cell === 'link') : -1;
+    const nameColumn = hasHeader ? header.findIndex(cell => ['sku', 'name', 'title', 'product'].includes(cell)) : -1;
+
+    const inputs: BatchInput[] = [];
+    (hasHeader ? rows.slice(1) : rows).forEach(row => {
+        const url = urlColumn >= 0 ? row[urlColumn] : row.find(isHttpUrl);
+        if (!url || !isHttpUrl(url)) return;
+        let name = nameColumn >= 0 ? row[nameColumn] : '';
+        if (!name) {
+            const { hostname, pathname } = new URL(url);
+            name = pathname.split('/').filter(Boolean).pop() || hostname;
+        }
+        inputs.push({ name, sourceUrl: url });
+    });
+    return inputs;
+};
+
+/** Recursively collects files from a drag-and-drop, keeping each file's folder path. */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) return Array.from(dataTransfer.files);
+
+    const files: File[] = [];
+    const walk = async (entry: FileSystemEntry, path: string): Promise<void> => {
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+            Object.defineProperty(file, 'relativePath', { value: `${path}${file.name}` });
+            files.push(file);
+        } else if (entry.isDirectory) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            // readEntries returns results in chunks until it yields an empty batch.
+            for (;;) {
+                const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+                if (batch.length === 0) break;
+                for (const child of batch) await walk(child, `${path}${entry.name}/`);
+            }
+        }
+    };
+    for (const entry of entries) await walk(entry, '');
+    return files;
+};
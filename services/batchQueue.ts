@@ -0,0 +1,259 @@
+import type { GeneratedView } from './generation';
+import type { ReconstructionProvider } from './reconstruction';
+import type { StepTiming } from './historyStore';
+import type { GenerationSettings } from './settings';
+import type { BatchInput } from './batchInputs';
+import type { Pipeline, StepState } from './pipeline/engine';
+import { completedStepTimings, createGenerationPipeline, estimateGenerationCost, runWithFidelityRetry, GenerationContext, GENERATION_STEPS } from './pipeline/generationPipeline';
+import { browserGenerationServices } from './pipeline/browserServices';
+import type { FidelityReport } from './fidelity';
+import { checkBudget, runCost } from './usage';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+    id: string;
+    name: string;
+    files: File[];
+    sourceUrl?: string;
+    status: BatchItemStatus;
+    // Empty until the item first starts.
+    steps: StepState[];
+    error?: string;
+    views?: GeneratedView[];
+    model?: Blob;
+    modelSourceUrl?: string;
+    // The reconstruction provider's request id, once submitted.
+    requestId?: string;
+    fidelity?: FidelityReport | null;
+}
+
+export interface BatchCompletion {
+    item: BatchItem;
+    settings: GenerationSettings;
+    steps: StepTiming[];
+    totalGenerationTime: number;
+    // Estimated USD, from the usage ledger.
+    cost: number;
+}
+
+interface BatchQueueOptions {
+    getProvider: () => ReconstructionProvider;
+    getSettings: () => GenerationSettings;
+    onItemComplete?: (completion: BatchCompletion) => void | Promise<void>;
+}
+
+interface InFlightCost {
+    estimate: number;
+    runId: string;
+    // What the run had already recorded when this start was estimated.
+    recordedAtStart: number;
+}
+
+let nextItemId = 1;
+
+const isFinished = (pipeline: Pipeline<GenerationContext>, stepId: string) =>
+    pipeline.snapshot.some(step => step.id === stepId && (step.status === 'done' || step.status === 'skipped'));
+
+/** Estimated cost of the steps a (new or resumed) pipeline still has to run. */
+const remainingCost = (pipeline: Pipeline<GenerationContext>) => estimateGenerationCost(
+    { settings: pipeline.get('settings')!, provider: pipeline.get('provider')!, files: pipeline.get('files'), sourceUrl: pipeline.get('sourceUrl') },
+    { views: !isFinished(pipeline, GENERATION_STEPS.views), reconstruction: !isFinished(pipeline, GENERATION_STEPS.reconstruct) },
+);
+
+/**
+ * Runs many single-product generations with bounded concurrency. Items are
+ * replaced (never mutated) on every change so React can render snapshots.
+ * Pausing stops new items from starting; items already running finish.
+ * Each item keeps its pipeline, so a retry resumes from the failed step.
+ */
+export class BatchQueue {
+    items: BatchItem[] = [];
+    concurrency = 2;
+    paused = false;
+
+    private running = new Set<string>();
+    private pipelines = new Map<string, Pipeline<GenerationContext>>();
+    // Estimates of the items running, so items started together cannot overrun the budget between them.
+    private inFlight = new Map<string, InFlightCost>();
+    private listeners = new Set<() => void>();
+    private disposed = false;
+
+    constructor(private options: BatchQueueOptions) {}
+
+    subscribe(listener: () => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    get isRunning() {
+        return this.running.size > 0;
+    }
+
+    add(inputs: BatchInput[]) {
+        const newItems = inputs.map((input): BatchItem => {
+            const files = input.files ?? [];
+            return {
+                id: `batch-${nextItemId++}`,
+                name: input.name,
+                files,
+                sourceUrl: input.sourceUrl,
+                status: 'queued',
+                steps: [],
+            };
+        });
+        this.items = [...this.items, ...newItems];
+        this.emit();
+        this.pump();
+    }
+
+    setConcurrency(concurrency: number) {
+        this.concurrency = Math.max(1, Math.min(8, Math.round(concurrency) || 1));
+        this.emit();
+        this.pump();
+    }
+
+    pause() {
+        this.paused = true;
+        this.emit();
+    }
+
+    resume() {
+        this.paused = false;
+        this.emit();
+        this.pump();
+    }
+
+    retry(id: string) {
+        this.update(id, item => item.status === 'error'
+            ? { ...item, status: 'queued', error: undefined }
+            : item);
+        this.pump();
+    }
+
+    retryFailed() {
+        this.items.filter(item => item.status === 'error').forEach(item => this.retry(item.id));
+    }
+
+    remove(id: string) {
+        if (this.running.has(id)) return;
+        this.pipelines.delete(id);
+        this.items = this.items.filter(item => item.id !== id);
+        this.emit();
+    }
+
+    clearFinished() {
+        this.items = this.items.filter(item => item.status === 'queued' || item.status === 'running');
+        [...this.pipelines.keys()].filter(id => !this.current(id)).forEach(id => this.pipelines.delete(id));
+        this.emit();
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.pipelines.forEach(pipeline => pipeline.cancel());
+        this.listeners.clear();
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    private update(id: string, change: (item: BatchItem) => BatchItem) {
+        this.items = this.items.map(item => item.id === id ? change(item) : item);
+        this.emit();
+    }
+
+    private pump() {
+        if (this.paused || this.disposed) return;
+        while (this.running.size < this.concurrency) {
+            const next = this.items.find(item => item.status === 'queued' && !this.running.has(item.id));
+            if (!next) return;
+            this.running.add(next.id);
+            this.process(next.id).finally(() => {
+                this.running.delete(next.id);
+                this.pump();
+            });
+        }
+    }
+
+    private current(id: string) {
+        return this.items.find(item => item.id === id);
+    }
+
+    /** Cost still expected from the items running, beyond what they have recorded. */
+    private inFlightCost() {
+        let total = 0;
+        this.inFlight.forEach(({ estimate, runId, recordedAtStart }) => {
+            total += Math.max(0, estimate - (runCost(runId) - recordedAtStart));
+        });
+        return total;
+    }
+
+    private async process(id: string) {
+        // Settings changes apply to items that have not started yet; a retried item keeps its own.
+        const item = this.current(id)!;
+        const pipeline = this.pipelines.get(id) ?? createGenerationPipeline({
+            files: item.files,
+            sourceUrl: item.sourceUrl ?? null,
+            provider: this.options.getProvider(),
+            settings: this.options.getSettings(),
+        }, browserGenerationServices, {
+            onSubmitted: job => this.update(id, item => ({ ...item, requestId: job.requestId })),
+        });
+        // Checked on every start, retries included. There is nobody to ask mid-batch, so only a blocking budget stops an item.
+        const estimate = remainingCost(pipeline);
+        const overBudget = checkBudget(estimate + this.inFlightCost());
+        if (overBudget?.budget.mode === 'block') {
+            this.update(id, item => ({ ...item, status: 'error', error: overBudget.message }));
+            return;
+        }
+        this.pipelines.set(id, pipeline);
+        const runId = pipeline.get('runId')!;
+        this.inFlight.set(id, { estimate, runId, recordedAtStart: runCost(runId) });
+        try {
+            await this.run(id, pipeline);
+        } finally {
+            this.inFlight.delete(id);
+        }
+    }
+
+    private async run(id: string, pipeline: Pipeline<GenerationContext>) {
+        const unsubscribe = pipeline.subscribe(steps => this.update(id, item => ({ ...item, steps })));
+
+        this.update(id, item => ({ ...item, status: 'running', steps: pipeline.snapshot }));
+        try {
+            const outcome = await runWithFidelityRetry(pipeline, () => pipeline.run());
+            if (outcome === 'cancelled') return;
+        } catch (e: any) {
+            console.error(`Batch item ${id} failed:`, e);
+            this.update(id, item => ({ ...item, status: 'error', error: e.message || 'An unknown error occurred.' }));
+            return;
+        } finally {
+            unsubscribe();
+        }
+
+        this.pipelines.delete(id);
+        const steps = completedStepTimings(pipeline.snapshot);
+        this.update(id, item => ({
+            ...item,
+            status: 'done',
+            files: pipeline.get('photos') ?? item.files,
+            views: pipeline.get('views'),
+            model: pipeline.get('model'),
+            modelSourceUrl: pipeline.get('modelUrl'),
+            fidelity: pipeline.get('fidelity'),
+        }));
+
+        try {
+            await this.options.onItemComplete?.({
+                item: this.current(id)!,
+                settings: pipeline.get('settings')!,
+                steps,
+                totalGenerationTime: steps.reduce((total, step) => total + step.seconds, 0),
+                cost: runCost(pipeline.get('runId')!),
+            });
+        } catch (e) {
+            console.error(`Batch item ${id} completed but its completion handler failed:`, e);
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import { boundsInParent, centerPivotAtBase } from './transform';
+
+/**
+ * Real-world scale for generated models. Reconstruction backends return
+ * meshes in arbitrary units; calibration scales the model root so one unit is
+ * one meter and grounds it (base at y = 0, centered on the origin), which is
+ * what AR viewers expect from a GLB. Orientation is left to `./transform`.
+ */
+
+export type Axis = 'x' | 'y' | 'z';
+
+export const AXIS_LABELS: Record<Axis, string> = { x: 'Width', y: 'Height', z: 'Depth' };
+
+export interface ScaleCalibration {
+    axis: Axis;
+    meters: number;
+    // Multiplier applied to the model's original scale.
+    factor: number;
+}
+
+// Kept outside userData so they never end up in exported glTF extras.
+const originalScales = new WeakMap<any, any>();
+const appliedFactors = new WeakMap<any, number>();
+
+/**
+ * Applies a scale factor to the model as loaded. The whole placement is scaled
+ * about the origin, so a model standing on the ground or pivoting at its base
+ * still does. Passing null restores the original scale.
+ */
+export const applyCalibration = (model: any, factor: number | null) => {
+    if (!originalScales.has(model)) originalScales.set(model, model.scale.clone());
+    const next = factor ?? 1;
+    model.position.multiplyScalar(next / (appliedFactors.get(model) ?? 1));
+    model.scale.copy(originalScales.get(model)).multiplyScalar(next);
+    appliedFactors.set(model, next);
+    model.updateMatrixWorld(true);
+};
+
+/** Scales the model so its bounding box measures `meters` along `axis`. */
+export const calibrateModel = (model: any, axis: Axis, meters: number): ScaleCalibration => {
+    if (!(meters > 0)) throw new Error('Enter a dimension greater than zero.');
+    applyCalibration(model, null);
+    const size = boundsInParent(model).getSize(new THREE.Vector3());
+    if (size[axis] <= 0) throw new Error(`The model has no ${AXIS_LABELS[axis].toLowerCase()} to measure.`);
+    const factor = meters / size[axis];
+    applyCalibration(model, factor);
+    centerPivotAtBase(model);
+    return { axis, meters, factor };
+};
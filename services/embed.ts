@@ -0,0 +1,65 @@
+import { LIGHTING_PRESETS, LightingPresetId, ViewerBackground } from './viewer/presets';
+
+/**
+ * The `<product-3d-viewer>` web component and the embed snippets that use it.
+ * Merchants load one standalone script (built by `npm run build` into
+ * `dist/embed/`) and place the element on their product pages.
+ */
+
+export const PRODUCT_VIEWER_TAG = 'product-3d-viewer';
+export const EMBED_SCRIPT_PATH = '/embed/product-3d-viewer.js';
+
+export interface EmbedOptions {
+    scriptUrl: string;
+    modelUrl: string;
+    posterUrl: string;
+    alt: string;
+    autoRotate: boolean;
+    background: ViewerBackground;
+    lighting: LightingPresetId;
+}
+
+/** `transparent`, one CSS color, or two colors (top and bottom) for a gradient. */
+export const formatBackgroundAttribute = (background: ViewerBackground) => {
+    switch (background.type) {
+        case 'transparent': return 'transparent';
+        case 'color': return background.color;
+        case 'gradient': return `${background.top} ${background.bottom}`;
+    }
+};
+
+export const parseBackgroundAttribute = (value: string | null): ViewerBackground | null => {
+    const parts = value?.trim().split(/\s+/).filter(Boolean) ?? [];
+    if (parts.length === 0) return null;
+    if (parts[0] === 'transparent') return { type: 'transparent' };
+    if (parts.length >= 2) return { type: 'gradient', top: parts[0], bottom: parts[1] };
+    return { type: 'color', color: parts[0] };
+};
+
+export const parseLightingAttribute = (value: string | null): LightingPresetId | null =>
+    LIGHTING_PRESETS.find(preset => preset.id === value)?.id ?? null;
+
+const escapeAttribute = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** HTML to paste into a product page: the script tag and a sized viewer element. */
+export const buildEmbedSnippet = (options: EmbedOptions) => {
+    const attributes: [string, string | null][] = [
+        ['src', options.modelUrl],
+        ['poster', options.posterUrl || null],
+        ['alt', options.alt || null],
+        ['lighting', options.lighting],
+        ['background', formatBackgroundAttribute(options.background)],
+    ];
+    const attributeText = attributes
+        .filter((entry): entry is [string, string] => entry[1] !== null)
+        .map(([name, value]) => `\n    ${name}="${escapeAttribute(value)}"`)
+        .join('');
+
+    return [
+        `<script type="module" src="${escapeAttribute(options.scriptUrl)}"></script>`,
+        `<${PRODUCT_VIEWER_TAG}${attributeText}${options.autoRotate ? '\n    auto-rotate' : ''}`,
+        `    style="display: block; width: 100%; aspect-ratio: 1;">`,
+        `</${PRODUCT_VIEWER_TAG}>`,
+    ].join('\n');
+};
@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { createZip, ZipEntry } from '../utils/zip';
+
+export type ExportFormat = 'glb' | 'usdz' | 'obj' | 'stl';
+
+export interface ExportFormatInfo {
+    id: ExportFormat;
+    label: string;
+    description: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { id: 'glb', label: 'GLB (.glb)', description: 'Web, Android AR and most 3D tools.' },
+    { id: 'usdz', label: 'USDZ (.usdz)', description: 'iOS AR Quick Look.' },
+    { id: 'obj', label: 'OBJ + MTL (.zip)', description: 'Marketplaces and legacy 3D tools.' },
+    { id: 'stl', label: 'STL (.stl)', description: '3D printing (geometry only).' },
+];
+
+export interface ExportResult {
+    blob: Blob;
+    filename: string;
+    // What the target format could not carry over from the source model.
+    warnings: string[];
+}
+
+const USDZ_MAX_TEXTURE_SIZE = 2048;
+
+const TEXTURE_SLOTS = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'aoMap', 'emissiveMap', 'alphaMap'];
+
+interface SceneInventory {
+    meshes: any[];
+    materials: any[];
+    textures: any[];
+    hasVertexColors: boolean;
+    hasSkinning: boolean;
+    hasMorphTargets: boolean;
+}
+
+const materialsOf = (mesh: any): any[] => Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+
+const inventory = (root: any): SceneInventory => {
+    const meshes: any[] = [];
+    const materials = new Set<any>();
+    const textures = new Set<any>();
+    let hasVertexColors = false;
+    let hasSkinning = false;
+    let hasMorphTargets = false;
+
+    root.traverse((object: any) => {
+        if (!object.isMesh) return;
+        meshes.push(object);
+        hasVertexColors ||= !!object.geometry.attributes.color;
+        hasSkinning ||= !!object.isSkinnedMesh;
+        hasMorphTargets ||= Object.keys(object.geometry.morphAttributes ?? {}).length > 0;
+        materialsOf(object).forEach(material => {
+            materials.add(material);
+            TEXTURE_SLOTS.forEach(slot => { if (material[slot]) textures.add(material[slot]); });
+        });
+    });
+
+    return { meshes, materials: [...materials], textures: [...textures], hasVertexColors, hasSkinning, hasMorphTargets };
+};
+
+/**
+ * Detached deep copy of the model. The root keeps its own local transform;
+ * the parents the viewer wraps it in (e.g. its centering offset) are left
+ * behind, so they never leak into exported files.
+ */
+export const prepareExportRoot = (source: any) => {
+    const root = source.clone(true);
+    root.updateMatrixWorld(true);
+    return root;
+};
+
+const textureToPngBlob = (texture: any): Promise<Blob> => {
+    const image = texture.image;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Could not get canvas context'));
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode texture.')), 'image/png'));
+};
+
+const exportGlb = async (source: any): Promise<ArrayBuffer> => {
+    const exporter = new GLTFExporter();
+    return exporter.parseAsync(prepareExportRoot(source), { binary: true });
+};
+
+const exportUsdz = async (source: any, info: SceneInventory) => {
+    const warnings: string[] = [];
+    const root = prepareExportRoot(source);
+
+    // USDZExporter only understands MeshStandardMaterial and silently skips other meshes.
+    let converted = 0;
+    root.traverse((object: any) => {
+        if (!object.isMesh) return;
+        const convert = (material: any) => {
+            if (material.isMeshStandardMaterial) return material;
+            converted++;
+            return new THREE.MeshStandardMaterial({ name: material.name, color: material.color, map: material.map ?? null, transparent: material.transparent, opacity: material.opacity });
+        };
+        object.material = Array.isArray(object.material) ? object.material.map(convert) : convert(object.material);
+    });
+    if (converted > 0) warnings.push(`${converted} non-PBR material(s) were converted to UsdPreviewSurface; shading may differ.`);
+
+    const oversized = info.textures.filter(t => Math.max(t.image?.width ?? 0, t.image?.height ?? 0) > USDZ_MAX_TEXTURE_SIZE);
+    if (oversized.length > 0) warnings.push(`${oversized.length} texture(s) larger than ${USDZ_MAX_TEXTURE_SIZE}px were downscaled.`);
+    if (info.hasVertexColors) warnings.push('Vertex colors are not exported to USDZ.');
+    if (info.hasSkinning || info.hasMorphTargets) warnings.push('Animation, skinning and morph targets are not exported to USDZ.');
+
+    const exporter = new USDZExporter();
+    const data = await exporter.parseAsync(root, { quickLookCompatible: true, maxTextureSize: USDZ_MAX_TEXTURE_SIZE });
+    return { blob: new Blob([data], { type: 'model/vnd.usdz+zip' }), warnings };
+};
+
+const mtlColor = (color: any) => `${color.r.toFixed(4)} ${color.g.toFixed(4)} ${color.b.toFixed(4)}`;
+
+const exportObj = async (source: any, info: SceneInventory, baseName: string, inMeters: boolean) => {
+    const warnings: string[] = [];
+    const root = prepareExportRoot(source);
+    const entries: ZipEntry[] = [];
+    const textureFiles = new Map<any, string>();
+    const materialNames = new Map<any, string>();
+    const usedNames = new Set<string>();
+    let mtl = `# Exported by Instant 3D Model Maker\n`;
+
+    const textureFile = async (texture: any) => {
+        if (!textureFiles.has(texture)) {
+            const path = `textures/texture_${textureFiles.size + 1}.png`;
+            textureFiles.set(texture, path);
+            entries.push({ path, data: await textureToPngBlob(texture) });
+        }
+        return textureFiles.get(texture)!;
+    };
+
+    let droppedMaps = 0;
+    for (const material of info.materials) {
+        let name = (material.name || 'material').replace(/\s+/g, '_');
+        for (let i = 2; usedNames.has(name); i++) name = `${material.name || 'material'}_${i}`.replace(/\s+/g, '_');
+        usedNames.add(name);
+        materialNames.set(material, name);
+
+        mtl += `\nnewmtl ${name}\n`;
+        mtl += `Kd ${material.color ? mtlColor(material.color) : '1 1 1'}\n`;
+        mtl += `Ka 0 0 0\nKs 0.04 0.04 0.04\n`;
+        if (material.emissive) mtl += `Ke ${mtlColor(material.emissive)}\n`;
+        if (material.roughness !== undefined) mtl += `Pr ${material.roughness.toFixed(4)}\n`;
+        if (material.metalness !== undefined) mtl += `Pm ${material.metalness.toFixed(4)}\n`;
+        mtl += `d ${(material.opacity ?? 1).toFixed(4)}\nillum 2\n`;
+        if (material.map?.image) mtl += `map_Kd ${await textureFile(material.map)}\n`;
+        if (material.normalMap?.image) mtl += `norm ${await textureFile(material.normalMap)}\n`;
+        if (material.emissiveMap?.image) mtl += `map_Ke ${await textureFile(material.emissiveMap)}\n`;
+        droppedMaps += ['roughnessMap', 'metalnessMap', 'aoMap'].filter(slot => material[slot]).length;
+    }
+
+    root.traverse((object: any) => {
+        if (!object.isMesh) return;
+        // Object3D.clone shares materials with the source, so the name map still applies.
+        const rename = (material: any) => {
+            const copy = material.clone();
+            copy.name = materialNames.get(material) ?? material.name;
+            return copy;
+        };
+        object.material = Array.isArray(object.material) ? object.material.map(rename) : rename(object.material);
+        // Flip V so textures authored for glTF's top-left UV origin line up in OBJ viewers.
+        const uv = object.geometry.attributes.uv;
+        if (uv && materialsOf(object).some((m: any) => m.map && m.map.flipY === false)) {
+            object.geometry = object.geometry.clone();
+            const flipped = object.geometry.attributes.uv;
+            for (let i = 0; i < flipped.count; i++) flipped.setY(i, 1 - flipped.getY(i));
+        }
+    });
+
+    const obj = `mtllib ${baseName}.mtl\n` + new OBJExporter().parse(root);
+    entries.unshift({ path: `${baseName}.obj`, data: obj }, { path: `${baseName}.mtl`, data: mtl });
+
+    if (droppedMaps > 0) warnings.push('Roughness, metalness and occlusion maps have no MTL equivalent and were dropped; only their scalar values (Pr/Pm) are kept.');
+    if (info.materials.some(m => m.normalMap)) warnings.push('Normal maps are referenced with the "norm" MTL extension, which some tools ignore.');
+    if (info.hasSkinning || info.hasMorphTargets) warnings.push('Animation, skinning and morph targets are not supported by OBJ.');
+    warnings.push(inMeters ? 'OBJ has no units; coordinates are written in meters.' : 'OBJ has no units; coordinates are written as-is from the model.');
+
+    return { blob: await createZip(entries), warnings };
+};
+
+const exportStl = (source: any, info: SceneInventory, inMeters: boolean) => {
+    const warnings: string[] = [];
+    const data = new STLExporter().parse(prepareExportRoot(source), { binary: true });
+    if (info.textures.length > 0 || info.materials.length > 0) warnings.push('STL stores geometry only: materials, textures and UVs were dropped.');
+    if (info.hasVertexColors) warnings.push('Vertex colors were dropped.');
+    warnings.push(inMeters ? 'STL has no units; coordinates are in meters, so set the unit in your slicer.' : 'STL has no units; check the scale in your slicer.');
+    return { blob: new Blob([data], { type: 'model/stl' }), warnings };
+};
+
+/**
+ * Converts the loaded model to another format in the browser. GLB is returned
+ * untouched from `originalGlbUrl` when one is given, so nothing is re-encoded.
+ * `inMeters` only changes the unit notes for formats that carry no units.
+ */
+export const exportModel = async (source: any, format: ExportFormat, baseName: string, originalGlbUrl?: string, inMeters = false): Promise<ExportResult> => {
+    const info = inventory(source);
+    if (info.meshes.length === 0) throw new Error('The model has no meshes to export.');
+
+    switch (format) {
+        case 'glb': {
+            if (originalGlbUrl) {
+                const blob = await (await fetch(originalGlbUrl)).blob();
+                return { blob, filename: `${baseName}.glb`, warnings: [] };
+            }
+            const data = await exportGlb(source);
+            return { blob: new Blob([data], { type: 'model/gltf-binary' }), filename: `${baseName}.glb`, warnings: [] };
+        }
+        case 'usdz': {
+            const { blob, warnings } = await exportUsdz(source, info);
+            return { blob, filename: `${baseName}.usdz`, warnings };
+        }
+        case 'obj': {
+            const { blob, warnings } = await exportObj(source, info, baseName, inMeters);
+            return { blob, filename: `${baseName}-obj.zip`, warnings };
+        }
+        case 'stl': {
+            const { blob, warnings } = exportStl(source, info, inMeters);
+            return { blob, filename: `${baseName}.stl`, warnings };
+        }
+    }
+};
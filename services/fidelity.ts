@@ -0,0 +1,215 @@
+import type { GeneratedView } from './generation';
+import type { ViewKey } from './reconstruction';
+import { boundsOf, segmentForeground } from './preprocess';
+import { DEFAULT_VIEWER_OPTIONS, ViewerOptions } from './viewer/studioViewer';
+import { withOffscreenViewer } from './viewer/offscreen';
+
+/**
+ * Post-generation QA: renders the finished model from the angles of the
+ * generated views and scores each render against its view, and against the
+ * uploaded photos. Scores combine silhouette overlap (after cropping both
+ * outlines to the same size) with a color histogram match, from 0 to 1.
+ */
+
+export interface FidelityComparison {
+    reference: 'view' | 'photo';
+    label: string;
+    // The generated view's URL, or the uploaded photo itself.
+    referenceImage: string | File;
+    // PNG data URL of the model rendered from `angle`.
+    renderUrl: string;
+    angle: ViewKey;
+    silhouette: number;
+    color: number;
+    score: number;
+}
+
+export interface FidelityReport {
+    // Mean of the comparisons' scores.
+    score: number;
+    comparisons: FidelityComparison[];
+}
+
+const RENDER_SIZE = 256;
+const ANALYSIS_SIZE = 128;
+// Silhouettes are compared on a square grid of this many cells per side.
+const GRID = 64;
+// Levels per channel in the color histogram.
+const HISTOGRAM_LEVELS = 4;
+const SILHOUETTE_WEIGHT = 0.6;
+// Camera distance in model radii, as in StudioViewer.frame().
+const CAMERA_DISTANCE = 2.9;
+
+// The model faces +Z (glTF convention), so its left side faces +X.
+const ANGLES: Record<ViewKey, [number, number, number]> = {
+    front: [0, 0, 1],
+    back: [0, 0, -1],
+    left: [1, 0, 0],
+    right: [-1, 0, 0],
+    // Slightly in front, so the camera's up vector is defined and the front ends up at the bottom.
+    top: [0, 1, 0.001],
+    three_quarter: [Math.SQRT1_2, 0, Math.SQRT1_2],
+};
+
+const ANGLE_LABELS: Record<ViewKey, string> = {
+    front: 'front',
+    back: 'back',
+    left: 'left',
+    right: 'right',
+    top: 'top',
+    three_quarter: 'three-quarter',
+};
+
+const RENDER_OPTIONS: ViewerOptions = {
+    ...DEFAULT_VIEWER_OPTIONS,
+    background: { type: 'transparent' },
+    shadow: false,
+    autoRotate: false,
+};
+
+interface Analysis {
+    silhouette: Uint8Array;
+    histogram: Float32Array;
+}
+
+const createContext = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    return ctx;
+};
+
+/** Crops the mask to its outline and scales it to fill the grid, centered, keeping its aspect ratio. */
+const normalizeSilhouette = (mask: Uint8Array, width: number, height: number) => {
+    const grid = new Uint8Array(GRID * GRID);
+    const bounds = boundsOf(mask, width, height);
+    if (bounds.count === 0) return grid;
+    const scale = Math.max(bounds.width, bounds.height) / GRID;
+    const offsetX = (GRID - bounds.width / scale) / 2;
+    const offsetY = (GRID - bounds.height / scale) / 2;
+    for (let gy = 0; gy < GRID; gy++) {
+        for (let gx = 0; gx < GRID; gx++) {
+            const x = Math.floor(bounds.x + (gx + 0.5 - offsetX) * scale);
+            const y = Math.floor(bounds.y + (gy + 0.5 - offsetY) * scale);
+            if (x < bounds.x || y < bounds.y || x >= bounds.x + bounds.width || y >= bounds.y + bounds.height) continue;
+            grid[gy * GRID + gx] = mask[y * width + x];
+        }
+    }
+    return grid;
+};
+
+const colorHistogram = (image: ImageData, mask: Uint8Array) => {
+    const histogram = new Float32Array(HISTOGRAM_LEVELS ** 3);
+    const { data } = image;
+    let total = 0;
+    for (let p = 0; p < mask.length; p++) {
+        if (!mask[p]) continue;
+        const [r, g, b] = [data[p * 4], data[p * 4 + 1], data[p * 4 + 2]].map(value => Math.floor(value * HISTOGRAM_LEVELS / 256));
+        histogram[(r * HISTOGRAM_LEVELS + g) * HISTOGRAM_LEVELS + b]++;
+        total++;
+    }
+    if (total > 0) histogram.forEach((count, i) => { histogram[i] = count / total; });
+    return histogram;
+};
+
+const analyze = (image: ImageData, mask: Uint8Array): Analysis => ({
+    silhouette: normalizeSilhouette(mask, image.width, image.height),
+    histogram: colorHistogram(image, mask),
+});
+
+/** Intersection over union of the two normalized silhouettes. */
+const silhouetteOverlap = (a: Uint8Array, b: Uint8Array) => {
+    let intersection = 0;
+    let union = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] && b[i]) intersection++;
+        if (a[i] || b[i]) union++;
+    }
+    return union === 0 ? 0 : intersection / union;
+};
+
+const histogramIntersection = (a: Float32Array, b: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.min(a[i], b[i]);
+    return sum;
+};
+
+const compare = (render: Analysis, reference: Analysis) => {
+    const silhouette = silhouetteOverlap(render.silhouette, reference.silhouette);
+    const color = histogramIntersection(render.histogram, reference.histogram);
+    return { silhouette, color, score: SILHOUETTE_WEIGHT * silhouette + (1 - SILHOUETTE_WEIGHT) * color };
+};
+
+/** Photos and views are segmented like input cleanup does: the product is what differs from the border color. */
+const analyzeReference = async (source: Blob): Promise<Analysis> => {
+    const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    try {
+        const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+        const ctx = createContext(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+        ctx.drawImage(bitmap, 0, 0, ctx.canvas.width, ctx.canvas.height);
+        const image = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+        return analyze(image, segmentForeground(image));
+    } finally {
+        bitmap.close();
+    }
+};
+
+const renderAngles = (model: Blob, angles: ViewKey[]) =>
+    withOffscreenViewer(null, RENDER_OPTIONS, RENDER_SIZE, async (viewer) => {
+        const url = URL.createObjectURL(model);
+        try {
+            await viewer.load(url);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+        const ctx = createContext(ANALYSIS_SIZE, ANALYSIS_SIZE);
+        return angles.map(angle => {
+            const direction = ANGLES[angle];
+            viewer.applyBookmark({ name: angle, position: direction.map(v => v * CAMERA_DISTANCE) as [number, number, number], target: [0, 0, 0] });
+            viewer.renderer.render(viewer.scene, viewer.camera);
+            ctx.clearRect(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+            ctx.drawImage(viewer.renderer.domElement, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+            const image = ctx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+            const mask = new Uint8Array(ANALYSIS_SIZE * ANALYSIS_SIZE);
+            for (let p = 0; p < mask.length; p++) mask[p] = image.data[p * 4 + 3] >= 128 ? 1 : 0;
+            return { angle, url: viewer.renderer.domElement.toDataURL('image/png') as string, analysis: analyze(image, mask) };
+        });
+    });
+
+/**
+ * Scores the model against each generated view (from the same angle) and
+ * each uploaded photo (against whichever rendered angle matches it best).
+ */
+export const checkFidelity = async (model: Blob, views: GeneratedView[], photos: File[]): Promise<FidelityReport> => {
+    const angles = [...new Set<ViewKey>(['front', ...views.map(view => view.key)])];
+    const renders = await renderAngles(model, angles);
+    const renderOf = (angle: ViewKey) => renders.find(render => render.angle === angle)!;
+
+    const comparisons: FidelityComparison[] = [];
+    for (const view of views) {
+        const reference = await analyzeReference(await (await fetch(view.url)).blob());
+        const render = renderOf(view.key);
+        comparisons.push({ reference: 'view', label: view.label, referenceImage: view.url, renderUrl: render.url, angle: view.key, ...compare(render.analysis, reference) });
+    }
+    for (const photo of photos) {
+        const reference = await analyzeReference(photo);
+        const best = renders
+            .map(render => ({ render, ...compare(render.analysis, reference) }))
+            .reduce((a, b) => b.score > a.score ? b : a);
+        comparisons.push({
+            reference: 'photo',
+            label: `${photo.name} (best match: ${ANGLE_LABELS[best.render.angle]})`,
+            referenceImage: photo,
+            renderUrl: best.render.url,
+            angle: best.render.angle,
+            silhouette: best.silhouette,
+            color: best.color,
+            score: best.score,
+        });
+    }
+
+    const score = comparisons.length > 0 ? comparisons.reduce((total, c) => total + c.score, 0) / comparisons.length : 0;
+    return { score, comparisons };
+};
@@ -0,0 +1,99 @@
+import { generateViewImage, InlineImage } from './api';
+import { ReconstructionProvider, ReconstructionViews, ViewKey } from './reconstruction';
+import { renderPromptTemplate, GenerationSettings } from './settings';
+import { resizeImage } from '../utils/images';
+
+export interface GeneratedView {
+    key: ViewKey;
+    label: string;
+    url: string; // data URL
+    prompt: string;
+}
+
+export interface ViewDefinition {
+    key: ViewKey;
+    name: string;
+}
+
+// Every view the app can generate; settings pick a subset.
+export const VIEWS: ViewDefinition[] = [
+    { key: 'front', name: 'front view' },
+    { key: 'back', name: 'back view' },
+    { key: 'left', name: 'left side view' },
+    { key: 'right', name: 'right side view' },
+    { key: 'top', name: 'top view' },
+    { key: 'three_quarter', name: 'front three-quarter view' },
+];
+
+/** The selected views the provider can use, plus any it cannot run without. */
+export const viewsForProvider = (selected: ViewKey[], provider: ReconstructionProvider) =>
+    VIEWS.filter(view => provider.requiredViews.includes(view.key)
+        || (selected.includes(view.key) && provider.supportedViews.includes(view.key)));
+
+export const fileToGenerativePart = async (file: File) => {
+    const base64EncodedDataPromise = new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.readAsDataURL(file);
+    });
+    return {
+        inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+    };
+};
+
+export const buildViewPrompt = (viewName: string, settings: GenerationSettings) =>
+    renderPromptTemplate(settings.promptTemplate, { viewName, backgroundColor: settings.backgroundColor });
+
+const viewLabel = (view: { name: string }) => view.name.charAt(0).toUpperCase() + view.name.slice(1);
+
+/** Turns a prompt and reference images into one view image: the /api proxy in the browser, Gemini directly from the CLI. */
+export type ViewImageGenerator = (request: { images: InlineImage[]; prompt: string; model: string }) => Promise<InlineImage>;
+
+/** `hint` is extra guidance from the user, appended when regenerating a single view. */
+export const renderView = async (generate: ViewImageGenerator, images: InlineImage[], view: ViewDefinition, settings: GenerationSettings, hint?: string): Promise<GeneratedView> => {
+    const basePrompt = buildViewPrompt(view.name, settings);
+    const prompt = hint?.trim() ? `${basePrompt} Additional guidance: ${hint.trim()}` : basePrompt;
+    let image;
+    try {
+        image = await generate({ images, prompt, model: settings.imageModel });
+    } catch (e: any) {
+        throw new Error(`Gemini failed to generate the ${view.name}. ${e.message || ''}`.trim());
+    }
+
+    const url = `data:${image.mimeType};base64,${image.data}`;
+    return { key: view.key, label: viewLabel(view), url, prompt };
+};
+
+/** `runId` attributes the call's cost to a generation in the usage ledger. */
+export const generateSingleView = (images: InlineImage[], view: ViewDefinition, settings: GenerationSettings, hint?: string, runId?: string) =>
+    renderView(request => generateViewImage(request, runId), images, view, settings, hint);
+
+export const referenceImages = async (files: File[]): Promise<InlineImage[]> => {
+    const imageParts = await Promise.all(files.map(fileToGenerativePart));
+    return imageParts.map(part => part.inlineData);
+};
+
+/** Generates each of `views` from the given reference photos. */
+export const generateViews = async (files: File[], views: ViewDefinition[], settings: GenerationSettings, runId?: string): Promise<GeneratedView[]> => {
+    const images = await referenceImages(files);
+    return Promise.all(views.map(view => generateSingleView(images, view, settings, undefined, runId)));
+};
+
+/** Uses a photo supplied by the user in place of a generated view. */
+export const viewFromFile = async (file: File, view: ViewDefinition): Promise<GeneratedView> => {
+    const url = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error(`Failed to read ${file.name}.`));
+        reader.readAsDataURL(file);
+    });
+    return { key: view.key, label: viewLabel(view), url, prompt: `Uploaded by user (${file.name})` };
+};
+
+/** Downscales the views to what the reconstruction backends accept, keyed by view. */
+export const prepareReconstructionViews = async (views: GeneratedView[]): Promise<ReconstructionViews> => {
+    const resizedImageUrls = await Promise.all(views.map(view => resizeImage(view.url, 1024)));
+    const reconstructionViews: ReconstructionViews = {};
+    views.forEach((view, i) => { reconstructionViews[view.key] = resizedImageUrls[i]; });
+    return reconstructionViews;
+};
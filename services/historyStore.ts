@@ -0,0 +1,222 @@
+import { dataUrlToBlob } from '../utils/files';
+import type { ReconstructionJob, ViewKey } from './reconstruction';
+import type { GenerationSettings } from './settings';
+import type { ProductMetadata } from './productPage';
+
+/**
+ * Local generation history, kept in IndexedDB so results survive reloads and
+ * outlive the provider's temporary model URLs. Runs whose reconstruction job
+ * is still in flight are kept in a separate store so they can be resumed.
+ */
+
+const DB_NAME = 'instant-3d-model-maker';
+const DB_VERSION = 2;
+const STORE = 'generations';
+const PENDING_STORE = 'pending';
+
+export interface StoredFile {
+    name: string;
+    type: string;
+    blob: Blob;
+}
+
+export interface StoredView {
+    key?: ViewKey;
+    label: string;
+    blob: Blob;
+}
+
+export interface StepTiming {
+    name: string;
+    seconds: number;
+}
+
+export interface GenerationPrompt {
+    view: string;
+    prompt: string;
+}
+
+/** The same product in another colorway, reconstructed from recolored views. */
+export interface VariantRecord {
+    id: string;
+    name: string;
+    // The colorway as described to the image model.
+    description: string;
+    views: StoredView[];
+    prompts: GenerationPrompt[];
+    model: Blob;
+    modelSourceUrl?: string;
+    requestId?: string;
+    cost?: number | null;
+}
+
+export interface GenerationRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    providerId: string;
+    originals: StoredFile[];
+    views: StoredView[];
+    model: Blob;
+    modelSourceUrl?: string;
+    // The reconstruction provider's request id; missing on older records.
+    requestId?: string;
+    // Product page the photo was fetched from, when no photos were uploaded.
+    sourceUrl?: string;
+    steps: StepTiming[];
+    totalGenerationTime: number | null;
+    // Estimated USD from the usage ledger; missing on records saved before usage tracking.
+    cost?: number | null;
+    prompts: GenerationPrompt[];
+    // Missing on records saved before settings existed.
+    settings?: GenerationSettings;
+    // Set when the photos were imported from a product page.
+    product?: ProductMetadata;
+    // Colorways generated from this run's views.
+    variants?: VariantRecord[];
+}
+
+/** A run whose views are done and whose reconstruction job was submitted but has not finished. */
+export interface PendingGeneration {
+    // The provider's request id.
+    id: string;
+    name: string;
+    providerId: string;
+    job: ReconstructionJob;
+    submittedAt: number;
+    originals: StoredFile[];
+    views: StoredView[];
+    prompts: GenerationPrompt[];
+    // Steps finished before the job was submitted.
+    steps: StepTiming[];
+    settings: GenerationSettings;
+    // The run's id in the usage ledger.
+    runId?: string;
+    product?: ProductMetadata;
+}
+
+/** Assembles a history record from a finished run, converting the view data URLs to blobs. */
+export const buildGenerationRecord = async (run: {
+    name: string;
+    providerId: string;
+    files: File[];
+    views: { key: ViewKey; label: string; url: string; prompt: string }[];
+    model: Blob;
+    modelSourceUrl?: string;
+    requestId?: string | null;
+    sourceUrl?: string | null;
+    steps: StepTiming[];
+    totalGenerationTime: number | null;
+    cost?: number | null;
+    settings: GenerationSettings;
+    product?: ProductMetadata | null;
+}): Promise<GenerationRecord> => ({
+    id: createGenerationId(),
+    name: run.name,
+    createdAt: Date.now(),
+    providerId: run.providerId,
+    originals: run.files.map(file => ({ name: file.name, type: file.type, blob: file })),
+    views: await Promise.all(run.views.map(async view => ({ key: view.key, label: view.label, blob: await dataUrlToBlob(view.url) }))),
+    model: run.model,
+    modelSourceUrl: run.modelSourceUrl?.startsWith('blob:') ? undefined : run.modelSourceUrl,
+    requestId: run.requestId ?? undefined,
+    sourceUrl: run.sourceUrl ?? undefined,
+    steps: run.steps,
+    totalGenerationTime: run.totalGenerationTime,
+    cost: run.cost ?? null,
+    prompts: run.views.map(view => ({ view: view.label, prompt: view.prompt })),
+    settings: run.settings,
+    product: run.product ?? undefined,
+});
+
+/** Snapshot of a run taken when its reconstruction job is submitted. */
+export const buildPendingGeneration = async (run: {
+    name: string;
+    providerId: string;
+    job: ReconstructionJob;
+    files: File[];
+    views: { key: ViewKey; label: string; url: string; prompt: string }[];
+    steps: StepTiming[];
+    settings: GenerationSettings;
+    runId?: string;
+    product?: ProductMetadata | null;
+}): Promise<PendingGeneration> => ({
+    id: run.job.requestId,
+    name: run.name,
+    providerId: run.providerId,
+    job: run.job,
+    submittedAt: Date.now(),
+    originals: run.files.map(file => ({ name: file.name, type: file.type, blob: file })),
+    views: await Promise.all(run.views.map(async view => ({ key: view.key, label: view.label, blob: await dataUrlToBlob(view.url) }))),
+    prompts: run.views.map(view => ({ view: view.label, prompt: view.prompt })),
+    steps: run.steps,
+    settings: run.settings,
+    runId: run.runId,
+    product: run.product ?? undefined,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE)) {
+                    db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(PENDING_STORE)) {
+                    db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const createGenerationId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveGeneration = (record: GenerationRecord) => run('readwrite', store => store.put(record));
+
+export const getGeneration = (id: string) => run<GenerationRecord | undefined>('readonly', store => store.get(id));
+
+/** All stored generations, newest first. */
+export const listGenerations = async (): Promise<GenerationRecord[]> => {
+    const records = await run<GenerationRecord[]>('readonly', store => store.getAll());
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const renameGeneration = async (id: string, name: string) => {
+    const record = await getGeneration(id);
+    if (!record) throw new Error('This generation no longer exists.');
+    await saveGeneration({ ...record, name });
+};
+
+export const deleteGeneration = (id: string) => run('readwrite', store => store.delete(id));
+
+export const savePendingGeneration = (pending: PendingGeneration) => run('readwrite', store => store.put(pending), PENDING_STORE);
+
+/** Runs interrupted by a reload, oldest first. */
+export const listPendingGenerations = async (): Promise<PendingGeneration[]> => {
+    const pending = await run<PendingGeneration[]>('readonly', store => store.getAll(), PENDING_STORE);
+    return pending.sort((a, b) => a.submittedAt - b.submittedAt);
+};
+
+export const deletePendingGeneration = (id: string) => run('readwrite', store => store.delete(id), PENDING_STORE);
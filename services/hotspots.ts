@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+
+/**
+ * Product hotspots: labelled points on the model's surface. Each one is an
+ * empty node under the model root whose glTF `extras` hold the label, so it
+ * travels inside the GLB, follows the model's orientation and scale, and is
+ * shown by any StudioViewer, including the embeddable `<product-3d-viewer>`.
+ */
+
+export interface Hotspot {
+    id: string;
+    title: string;
+    description: string;
+    // Optional http(s) link, e.g. to a spec sheet.
+    url: string;
+    // Point and surface normal in the model root's coordinates.
+    position: [number, number, number];
+    normal: [number, number, number];
+}
+
+/** What a hotspot node stores in `userData` (glTF `extras`). */
+interface HotspotExtras {
+    title: string;
+    description?: string;
+    url?: string;
+    normal?: [number, number, number];
+}
+
+const EXTRAS_KEY = 'hotspot';
+
+export const createHotspotId = () => Math.random().toString(36).slice(2, 10);
+
+/** Hotspot nodes anywhere under `root`, in document order. */
+export const findHotspotNodes = (root: any): any[] => {
+    const nodes: any[] = [];
+    root.traverse((object: any) => {
+        if (object.userData?.[EXTRAS_KEY]?.title !== undefined) nodes.push(object);
+    });
+    return nodes;
+};
+
+/** The label of a hotspot node. */
+export const hotspotExtras = (node: any): HotspotExtras => node.userData[EXTRAS_KEY];
+
+/** `url` if it is an http(s) link, so a GLB from elsewhere cannot inject script URLs. */
+export const safeHotspotLink = (url: string | undefined) => {
+    if (!url) return null;
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Reads the hotspots stored in a loaded model. */
+export const readHotspots = (model: any): Hotspot[] => {
+    model.updateWorldMatrix(true, true);
+    const toModel = model.matrixWorld.clone().invert();
+    return findHotspotNodes(model).map(node => {
+        const extras = hotspotExtras(node);
+        const position = node.getWorldPosition(new THREE.Vector3()).applyMatrix4(toModel);
+        const normal = new THREE.Vector3().fromArray(extras.normal ?? [0, 0, 0])
+            .transformDirection(node.parent.matrixWorld).transformDirection(toModel);
+        return {
+            id: createHotspotId(),
+            title: String(extras.title),
+            description: String(extras.description ?? ''),
+            url: String(extras.url ?? ''),
+            position: position.toArray(),
+            normal: extras.normal ? normal.toArray() : [0, 0, 0],
+        };
+    });
+};
+
+/** Replaces the model's hotspot nodes with `hotspots`, in order. */
+export const writeHotspots = (model: any, hotspots: Hotspot[]) => {
+    findHotspotNodes(model).forEach(node => node.parent.remove(node));
+    hotspots.forEach((hotspot, i) => {
+        const node = new THREE.Object3D();
+        node.name = `Hotspot ${i + 1}`;
+        node.position.fromArray(hotspot.position);
+        const extras: HotspotExtras = { title: hotspot.title, normal: hotspot.normal };
+        if (hotspot.description) extras.description = hotspot.description;
+        if (hotspot.url) extras.url = hotspot.url;
+        node.userData[EXTRAS_KEY] = extras;
+        model.add(node);
+    });
+    model.updateWorldMatrix(true, true);
+};
+
+/** A new hotspot at a picked surface point, given in world space. */
+export const hotspotAt = (model: any, point: any, normal: any, title: string): Hotspot => {
+    model.updateWorldMatrix(true, true);
+    const toModel = model.matrixWorld.clone().invert();
+    return {
+        id: createHotspotId(),
+        title,
+        description: '',
+        url: '',
+        position: point.clone().applyMatrix4(toModel).toArray(),
+        normal: normal.clone().transformDirection(toModel).toArray(),
+    };
+};
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+
+/**
+ * Material edits on the loaded model: tint, roughness, metalness, emission
+ * and color correction of the base color texture. Edits change the model's
+ * materials in place, so the viewer shows them live and exporters write them.
+ */
+
+export interface MaterialSettings {
+    // Base color factor, multiplied with the texture.
+    color: string;
+    roughness: number;
+    metalness: number;
+    emissive: string;
+    emissiveIntensity: number;
+    // CSS filter amounts for the base color texture; 1 leaves it unchanged.
+    brightness: number;
+    contrast: number;
+    saturation: number;
+}
+
+export interface ModelMaterial {
+    // Position in the model's traversal order, used to key edits.
+    index: number;
+    name: string;
+    hasTexture: boolean;
+    original: MaterialSettings;
+}
+
+/** Edited materials by index; materials without an entry are as loaded. */
+export type MaterialEdits = Record<number, MaterialSettings>;
+
+const NEUTRAL_TEXTURE = { brightness: 1, contrast: 1, saturation: 1 };
+
+// Kept outside userData so they never end up in exported glTF extras.
+const originals = new WeakMap<any, { settings: MaterialSettings; map: any }>();
+const appliedFilters = new WeakMap<any, string>();
+
+/** The model's editable (PBR) materials, in traversal order. */
+export const materialsOf = (model: any): any[] => {
+    const materials = new Set<any>();
+    model.traverse((object: any) => {
+        if (!object.isMesh) return;
+        (Array.isArray(object.material) ? object.material : [object.material])
+            .filter((material: any) => material?.isMeshStandardMaterial)
+            .forEach((material: any) => materials.add(material));
+    });
+    return [...materials];
+};
+
+const originalOf = (material: any) => {
+    if (!originals.has(material)) {
+        originals.set(material, {
+            settings: {
+                color: `#${material.color.getHexString()}`,
+                roughness: material.roughness,
+                metalness: material.metalness,
+                emissive: `#${material.emissive.getHexString()}`,
+                emissiveIntensity: material.emissiveIntensity,
+                ...NEUTRAL_TEXTURE,
+            },
+            map: material.map,
+        });
+    }
+    return originals.get(material)!;
+};
+
+export const listMaterials = (model: any): ModelMaterial[] =>
+    materialsOf(model).map((material, index) => ({
+        index,
+        name: material.name || `Material ${index + 1}`,
+        hasTexture: !!originalOf(material).map?.image,
+        original: originalOf(material).settings,
+    }));
+
+export const isSameSettings = (a: MaterialSettings, b: MaterialSettings) =>
+    (Object.keys(a) as (keyof MaterialSettings)[]).every(key => a[key] === b[key]);
+
+/** Draws `image` with CSS filters, falling back to per-pixel math where canvas filters are unsupported (older Safari). */
+const filteredCanvas = (image: any, { brightness, contrast, saturation }: MaterialSettings) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    if (typeof ctx.filter === 'string') {
+        ctx.filter = `brightness(${brightness}) contrast(${contrast}) saturate(${saturation})`;
+        ctx.drawImage(image, 0, 0);
+        return canvas;
+    }
+    ctx.drawImage(image, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const rgb = [data[i], data[i + 1], data[i + 2]].map(v => ((v / 255) * brightness - 0.5) * contrast + 0.5);
+        const luma = 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2];
+        rgb.forEach((v, c) => { data[i + c] = Math.round(Math.min(1, Math.max(0, luma + (v - luma) * saturation)) * 255); });
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+/** Replaces the base color texture with a color-corrected copy, or restores the original. */
+const applyTextureFilter = (material: any, settings: MaterialSettings) => {
+    const { map } = originalOf(material);
+    if (!map?.image) return;
+    const filter = `${settings.brightness} ${settings.contrast} ${settings.saturation}`;
+    if (appliedFilters.get(material) === filter) return;
+    appliedFilters.set(material, filter);
+
+    if (material.map !== map) material.map?.dispose();
+    if (settings.brightness === 1 && settings.contrast === 1 && settings.saturation === 1) {
+        material.map = map;
+    } else {
+        // A clone keeps the original's color space, wrapping, flipY and UV channel;
+        // it needs its own source, as clones share the original's image.
+        const adjusted = map.clone();
+        adjusted.source = new THREE.Source(filteredCanvas(map.image, settings));
+        adjusted.needsUpdate = true;
+        material.map = adjusted;
+    }
+    material.needsUpdate = true;
+};
+
+const applySettings = (material: any, settings: MaterialSettings) => {
+    material.color.set(settings.color);
+    material.roughness = settings.roughness;
+    material.metalness = settings.metalness;
+    material.emissive.set(settings.emissive);
+    material.emissiveIntensity = settings.emissiveIntensity;
+    applyTextureFilter(material, settings);
+};
+
+/** Applies `edits` to the model's materials; materials without an edit are restored as loaded. */
+export const applyMaterialEdits = (model: any, edits: MaterialEdits) => {
+    materialsOf(model).forEach((material, index) => {
+        // Read the original before the first edit changes it.
+        const { settings } = originalOf(material);
+        applySettings(material, edits[index] ?? settings);
+    });
+};
@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+
+// Common marketplace and web AR limits; exceeding them is reported as a warning.
+export const LIMITS = {
+    triangles: 100000,
+    textureSize: 2048,
+    fileSizeBytes: 15 * 1024 * 1024,
+};
+
+const TEXTURE_SLOTS = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'aoMap', 'emissiveMap', 'alphaMap'];
+
+export interface TextureStats {
+    slot: string;
+    width: number;
+    height: number;
+    format: string;
+}
+
+export interface ModelStats {
+    fileSizeBytes: number | null;
+    vertices: number;
+    triangles: number;
+    meshes: number;
+    materials: number;
+    textures: TextureStats[];
+    // Bounding box size in model units (meters once the scale is calibrated).
+    dimensions: { x: number; y: number; z: number };
+    degenerateTriangles: number;
+    boundaryEdges: number;
+    nonManifoldEdges: number;
+    meshesWithoutUVs: number;
+    warnings: string[];
+}
+
+const formatOf = (texture: any) => {
+    const mimeType: string | undefined = texture.userData?.mimeType;
+    if (mimeType) return mimeType.replace('image/', '').toUpperCase();
+    return texture.isCompressedTexture ? 'Compressed' : 'Unknown';
+};
+
+/**
+ * Edge topology of one triangle mesh. Vertices are merged by position first so
+ * UV and normal seams do not show up as open edges.
+ */
+const inspectTopology = (geometry: any) => {
+    const position = geometry.attributes.position;
+    const index = geometry.index;
+    const triangleCount = index ? index.count / 3 : position.count / 3;
+
+    const vertexIds = new Map<string, number>();
+    const welded = new Uint32Array(position.count);
+    for (let i = 0; i < position.count; i++) {
+        const key = `${position.getX(i).toFixed(5)},${position.getY(i).toFixed(5)},${position.getZ(i).toFixed(5)}`;
+        let id = vertexIds.get(key);
+        if (id === undefined) {
+            id = vertexIds.size;
+            vertexIds.set(key, id);
+        }
+        welded[i] = id;
+    }
+
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const triangle = new THREE.Triangle();
+    const edges = new Map<number, number>();
+    const vertexTotal = vertexIds.size;
+    let degenerate = 0;
+
+    for (let t = 0; t < triangleCount; t++) {
+        const i0 = index ? index.getX(t * 3) : t * 3;
+        const i1 = index ? index.getX(t * 3 + 1) : t * 3 + 1;
+        const i2 = index ? index.getX(t * 3 + 2) : t * 3 + 2;
+        const v = [welded[i0], welded[i1], welded[i2]];
+
+        a.fromBufferAttribute(position, i0);
+        b.fromBufferAttribute(position, i1);
+        c.fromBufferAttribute(position, i2);
+        triangle.set(a, b, c);
+        if (v[0] === v[1] || v[1] === v[2] || v[0] === v[2] || triangle.getArea() < 1e-12) {
+            degenerate++;
+            continue;
+        }
+
+        for (let e = 0; e < 3; e++) {
+            const lo = Math.min(v[e], v[(e + 1) % 3]);
+            const hi = Math.max(v[e], v[(e + 1) % 3]);
+            const key = lo * vertexTotal + hi;
+            edges.set(key, (edges.get(key) ?? 0) + 1);
+        }
+    }
+
+    let boundary = 0;
+    let nonManifold = 0;
+    edges.forEach(count => {
+        if (count === 1) boundary++;
+        else if (count > 2) nonManifold++;
+    });
+    return { triangles: triangleCount, degenerate, boundary, nonManifold };
+};
+
+/**
+ * Collects geometry, material and texture statistics for a loaded model and
+ * flags issues that commonly get models rejected by marketplaces.
+ */
+export const inspectModel = (root: any, fileSizeBytes: number | null): ModelStats => {
+    const materials = new Set<any>();
+    const textures = new Map<any, TextureStats>();
+    let vertices = 0;
+    let triangles = 0;
+    let meshes = 0;
+    let degenerateTriangles = 0;
+    let boundaryEdges = 0;
+    let nonManifoldEdges = 0;
+    let meshesWithoutUVs = 0;
+    let texturedWithoutUVs = 0;
+
+    root.updateMatrixWorld(true);
+    root.traverse((object: any) => {
+        if (!object.isMesh) return;
+        meshes++;
+        const geometry = object.geometry;
+        vertices += geometry.attributes.position.count;
+
+        const topology = inspectTopology(geometry);
+        triangles += topology.triangles;
+        degenerateTriangles += topology.degenerate;
+        boundaryEdges += topology.boundary;
+        nonManifoldEdges += topology.nonManifold;
+
+        const objectMaterials: any[] = Array.isArray(object.material) ? object.material : [object.material];
+        const hasUVs = !!geometry.attributes.uv;
+        if (!hasUVs) meshesWithoutUVs++;
+        objectMaterials.forEach(material => {
+            materials.add(material);
+            TEXTURE_SLOTS.forEach(slot => {
+                const texture = material[slot];
+                if (!texture) return;
+                if (!hasUVs) texturedWithoutUVs++;
+                if (!textures.has(texture)) {
+                    textures.set(texture, {
+                        slot,
+                        width: texture.image?.width ?? 0,
+                        height: texture.image?.height ?? 0,
+                        format: formatOf(texture),
+                    });
+                }
+            });
+        });
+    });
+
+    const size = new THREE.Box3().setFromObject(root).getSize(new THREE.Vector3());
+    const textureList = [...textures.values()];
+
+    const warnings: string[] = [];
+    if (triangles > LIMITS.triangles) warnings.push(`${triangles.toLocaleString()} triangles exceeds the common ${LIMITS.triangles.toLocaleString()} triangle limit.`);
+    if (fileSizeBytes !== null && fileSizeBytes > LIMITS.fileSizeBytes) warnings.push(`File size exceeds ${LIMITS.fileSizeBytes / (1024 * 1024)} MB.`);
+    const oversized = textureList.filter(t => Math.max(t.width, t.height) > LIMITS.textureSize);
+    if (oversized.length > 0) warnings.push(`${oversized.length} texture(s) larger than ${LIMITS.textureSize}px.`);
+    const nonPowerOfTwo = textureList.filter(t => !THREE.MathUtils.isPowerOfTwo(t.width) || !THREE.MathUtils.isPowerOfTwo(t.height));
+    if (nonPowerOfTwo.length > 0) warnings.push(`${nonPowerOfTwo.length} texture(s) have non power-of-two dimensions.`);
+    if (nonManifoldEdges > 0) warnings.push(`${nonManifoldEdges.toLocaleString()} non-manifold edge(s) shared by more than two faces.`);
+    if (boundaryEdges > 0) warnings.push(`${boundaryEdges.toLocaleString()} open boundary edge(s); the mesh is not watertight.`);
+    if (degenerateTriangles > 0) warnings.push(`${degenerateTriangles.toLocaleString()} degenerate (zero-area) triangle(s).`);
+    if (texturedWithoutUVs > 0) warnings.push('Textured materials are applied to meshes without UVs.');
+    else if (meshesWithoutUVs > 0) warnings.push(`${meshesWithoutUVs} mesh(es) have no UV coordinates.`);
+
+    return {
+        fileSizeBytes,
+        vertices,
+        triangles,
+        meshes,
+        materials: materials.size,
+        textures: textureList,
+        dimensions: { x: size.x, y: size.y, z: size.z },
+        degenerateTriangles,
+        boundaryEdges,
+        nonManifoldEdges,
+        meshesWithoutUVs,
+        warnings,
+    };
+};
@@ -0,0 +1,159 @@
+import { Document, Logger, Material, WebIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS, EXTTextureWebP } from '@gltf-transform/extensions';
+import { dedup, meshopt, prune, quantize, simplify, weld } from '@gltf-transform/functions';
+import { MeshoptDecoder, MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+
+export type TextureFormat = 'keep' | 'webp' | 'jpeg' | 'png';
+export type GeometryCompression = 'none' | 'quantize' | 'meshopt';
+
+export interface OptimizeOptions {
+    // Triangle budget for the main optimized variant; null keeps the full mesh.
+    targetTriangles: number | null;
+    // Extra levels of detail, as fractions of the optimized variant's triangles.
+    lodRatios: number[];
+    maxTextureSize: number | null;
+    textureFormat: TextureFormat;
+    textureQuality: number; // 0-1, lossy formats only
+    compression: GeometryCompression;
+}
+
+export const DEFAULT_OPTIMIZE_OPTIONS: OptimizeOptions = {
+    targetTriangles: 50000,
+    lodRatios: [0.5, 0.2],
+    maxTextureSize: 1024,
+    textureFormat: 'webp',
+    textureQuality: 0.85,
+    compression: 'meshopt',
+};
+
+export interface ModelVariant {
+    id: string;
+    label: string;
+    blob: Blob;
+    sizeBytes: number;
+    triangles: number;
+}
+
+const MIME_TYPES: Record<Exclude<TextureFormat, 'keep'>, string> = {
+    webp: 'image/webp',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+};
+
+const createIO = async () => {
+    await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready, MeshoptSimplifier.ready]);
+    return new WebIO()
+        .registerExtensions(ALL_EXTENSIONS)
+        .registerDependencies({ 'meshopt.decoder': MeshoptDecoder, 'meshopt.encoder': MeshoptEncoder });
+};
+
+export const countTriangles = (document: Document) => {
+    let triangles = 0;
+    for (const mesh of document.getRoot().listMeshes()) {
+        for (const prim of mesh.listPrimitives()) {
+            if (prim.getMode() !== 4) continue; // TRIANGLES
+            const count = prim.getIndices()?.getCount() ?? prim.getAttribute('POSITION')?.getCount() ?? 0;
+            triangles += count / 3;
+        }
+    }
+    return Math.round(triangles);
+};
+
+export const analyzeGlb = async (blob: Blob): Promise<{ sizeBytes: number; triangles: number }> => {
+    const io = await createIO();
+    const document = await io.readBinary(new Uint8Array(await blob.arrayBuffer()));
+    return { sizeBytes: blob.size, triangles: countTriangles(document) };
+};
+
+const encodeImage = async (bytes: Uint8Array, mimeType: string, maxSize: number | null, targetMime: string, quality: number) => {
+    const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, targetMime, quality));
+    // Browsers fall back to PNG for formats they cannot encode; report what we actually got.
+    if (!blob) throw new Error('Failed to encode texture.');
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type };
+};
+
+const processTextures = async (doc: Document, options: OptimizeOptions) => {
+    if (options.textureFormat === 'keep' && !options.maxTextureSize) return;
+    let usesWebP = false;
+
+    for (const texture of doc.getRoot().listTextures()) {
+        const image = texture.getImage();
+        const mimeType = texture.getMimeType();
+        if (!image || !mimeType.startsWith('image/') || mimeType === 'image/ktx2') continue;
+
+        const targetMime = options.textureFormat === 'keep' ? mimeType : MIME_TYPES[options.textureFormat];
+        // Normal maps do not survive lossy re-encoding well.
+        const isNormalMap = texture.listParents().some(parent => parent instanceof Material && parent.getNormalTexture() === texture);
+        const encoded = await encodeImage(image, mimeType, options.maxTextureSize, isNormalMap && targetMime === 'image/jpeg' ? 'image/png' : targetMime, options.textureQuality);
+        if (encoded.bytes.byteLength >= image.byteLength && encoded.mimeType === mimeType && !options.maxTextureSize) continue;
+
+        texture.setImage(encoded.bytes).setMimeType(encoded.mimeType);
+        const uri = texture.getURI();
+        if (uri) texture.setURI(uri.replace(/\.[^.]+$/, `.${encoded.mimeType.split('/')[1]}`));
+        usesWebP ||= encoded.mimeType === 'image/webp';
+    }
+
+    if (usesWebP) doc.createExtension(EXTTextureWebP).setRequired(true);
+};
+
+const writeVariant = async (io: WebIO, doc: Document, id: string, label: string): Promise<ModelVariant> => {
+    const bytes = await io.writeBinary(doc);
+    const blob = new Blob([bytes], { type: 'model/gltf-binary' });
+    return { id, label, blob, sizeBytes: blob.size, triangles: countTriangles(doc) };
+};
+
+const simplifyTo = async (doc: Document, targetTriangles: number) => {
+    const current = countTriangles(doc);
+    if (current <= targetTriangles) return;
+    await doc.transform(
+        // Weld first: the simplifier cannot collapse edges across split vertices.
+        weld(),
+        simplify({ simplifier: MeshoptSimplifier, ratio: Math.max(0.001, targetTriangles / current), error: 0.05 }),
+    );
+};
+
+/**
+ * Produces the optimized model plus its LODs. Each variant is simplified from
+ * a fresh copy of the source so errors do not compound between levels.
+ */
+export const optimizeGlb = async (source: Blob, options: OptimizeOptions, onProgress?: (message: string) => void): Promise<ModelVariant[]> => {
+    const io = await createIO();
+    const sourceBytes = new Uint8Array(await source.arrayBuffer());
+
+    const build = async (targetTriangles: number | null) => {
+        const doc = await io.readBinary(sourceBytes);
+        doc.setLogger(new Logger(Logger.Verbosity.WARN));
+        await doc.transform(dedup());
+        if (targetTriangles) await simplifyTo(doc, targetTriangles);
+        await processTextures(doc, options);
+        await doc.transform(prune());
+        if (options.compression === 'meshopt') {
+            await doc.transform(meshopt({ encoder: MeshoptEncoder, level: 'medium' }));
+        } else if (options.compression === 'quantize') {
+            await doc.transform(quantize());
+        }
+        return doc;
+    };
+
+    onProgress?.('Optimizing base model...');
+    const base = await build(options.targetTriangles);
+    const variants = [await writeVariant(io, base, 'lod0', 'Optimized (LOD0)')];
+
+    const baseTriangles = variants[0].triangles;
+    for (const [i, ratio] of options.lodRatios.entries()) {
+        onProgress?.(`Building LOD${i + 1}...`);
+        const lod = await build(Math.max(12, Math.round(baseTriangles * ratio)));
+        variants.push(await writeVariant(io, lod, `lod${i + 1}`, `LOD${i + 1} (${Math.round(ratio * 100)}%)`));
+    }
+    return variants;
+};
@@ -0,0 +1,21 @@
+import { fetchProductImage } from '../api';
+import { checkFidelity } from '../fidelity';
+import { generateViews, prepareReconstructionViews } from '../generation';
+import { preprocessImage } from '../preprocess';
+import { recordUsage } from '../usage';
+import type { GenerationServices } from './generationPipeline';
+
+/** The pipeline's services in the app: the /api proxy, canvas cleanup and WebGL renders. */
+export const browserGenerationServices: GenerationServices = {
+    fetchProductImage,
+    cleanUpPhoto: async (photo) => (await preprocessImage(photo)).file,
+    generateViews,
+    prepareReconstructionViews,
+    downloadModel: async (modelUrl) => {
+        const response = await fetch(modelUrl);
+        if (!response.ok) throw new Error(`Failed to download the model. Status: ${response.status}`);
+        return response.blob();
+    },
+    checkFidelity,
+    recordUsage,
+};
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { defineStep, Pipeline } from './engine';
+
+interface Context {
+    source: number;
+    doubled: number;
+    label: string;
+}
+
+const step = defineStep<Context>();
+
+/** A two-step pipeline that counts how often each step ran. */
+const createCountingPipeline = (initial: Partial<Context> = { source: 2 }) => {
+    const runs = { double: 0, label: 0 };
+    const pipeline = new Pipeline<Context>([
+        step({ id: 'double', label: 'Double', inputs: ['source'], output: 'doubled', run: async ({ source }) => { runs.double++; return source * 2; } }),
+        step({ id: 'label', label: 'Label', inputs: ['doubled'], output: 'label', run: async ({ doubled }) => { runs.label++; return `#${doubled}`; } }),
+    ], initial);
+    return { pipeline, runs };
+};
+
+const statuses = (pipeline: Pipeline<Context>) => pipeline.snapshot.map(state => state.status);
+
+describe('Pipeline', () => {
+    it('runs the steps in order and keeps their outputs', async () => {
+        const { pipeline, runs } = createCountingPipeline();
+        expect(await pipeline.run()).toBe('completed');
+        expect(pipeline.get('label')).toBe('#4');
+        expect(statuses(pipeline)).toEqual(['done', 'done']);
+
+        await pipeline.run();
+        expect(runs).toEqual({ double: 1, label: 1 });
+    });
+
+    it('stops after the `until` step', async () => {
+        const { pipeline, runs } = createCountingPipeline();
+        await pipeline.run({ until: 'double' });
+        expect(runs).toEqual({ double: 1, label: 0 });
+        expect(statuses(pipeline)).toEqual(['done', 'pending']);
+    });
+
+    it('skips steps whose output is supplied up front', async () => {
+        const { pipeline, runs } = createCountingPipeline({ source: 2, doubled: 10 });
+        await pipeline.run();
+        expect(runs).toEqual({ double: 0, label: 1 });
+        expect(statuses(pipeline)).toEqual(['skipped', 'done']);
+        expect(pipeline.get('label')).toBe('#10');
+    });
+
+    it('rejects when an input is missing', async () => {
+        const { pipeline } = createCountingPipeline({});
+        await expect(pipeline.run()).rejects.toThrow('"Double" is missing its input "source".');
+    });
+
+    describe('retry policy', () => {
+        // Retries are logged as warnings.
+        beforeEach(() => { vi.spyOn(console, 'warn').mockImplementation(() => {}); });
+        afterEach(() => { vi.restoreAllMocks(); });
+
+        const flakyPipeline = (failures: number, shouldRetry?: (error: unknown) => boolean) => {
+            let tries = 0;
+            const pipeline = new Pipeline<Context>([
+                step({
+                    id: 'double', label: 'Double', inputs: ['source'], output: 'doubled',
+                    retry: { attempts: 3, delayMs: 0, shouldRetry },
+                    run: async ({ source }, { attempt }) => {
+                        tries++;
+                        if (attempt <= failures) throw new Error(`failure ${attempt}`);
+                        return source * 2;
+                    },
+                }),
+            ], { source: 2 });
+            return { pipeline, tries: () => tries };
+        };
+
+        it('retries a failing step up to its attempts', async () => {
+            const { pipeline, tries } = flakyPipeline(2);
+            expect(await pipeline.run()).toBe('completed');
+            expect(tries()).toBe(3);
+            expect(pipeline.snapshot[0]).toMatchObject({ status: 'done', attempt: 3 });
+        });
+
+        it('fails with the last error once the attempts are used up', async () => {
+            const { pipeline, tries } = flakyPipeline(3);
+            await expect(pipeline.run()).rejects.toThrow('failure 3');
+            expect(tries()).toBe(3);
+            expect(pipeline.snapshot[0]).toMatchObject({ status: 'error', error: 'failure 3' });
+        });
+
+        it('does not retry errors `shouldRetry` rejects', async () => {
+            const { pipeline, tries } = flakyPipeline(3, () => false);
+            await expect(pipeline.run()).rejects.toThrow('failure 1');
+            expect(tries()).toBe(1);
+        });
+    });
+
+    it('resumes from the failed step on the next run', async () => {
+        let fail = true;
+        const runs = { double: 0, label: 0 };
+        const pipeline = new Pipeline<Context>([
+            step({ id: 'double', label: 'Double', inputs: ['source'], output: 'doubled', run: async ({ source }) => { runs.double++; return source * 2; } }),
+            step({ id: 'label', label: 'Label', inputs: ['doubled'], output: 'label', run: async ({ doubled }) => {
+                runs.label++;
+                if (fail) throw new Error('offline');
+                return `#${doubled}`;
+            } }),
+        ], { source: 2 });
+
+        await expect(pipeline.run()).rejects.toThrow('offline');
+        expect(statuses(pipeline)).toEqual(['done', 'error']);
+        fail = false;
+        expect(await pipeline.run()).toBe('completed');
+        expect(runs).toEqual({ double: 1, label: 2 });
+    });
+
+    it('retryFrom reruns the step and those after it, keeping upstream outputs', async () => {
+        const { pipeline, runs } = createCountingPipeline();
+        await pipeline.run();
+        await pipeline.retryFrom('label');
+        expect(runs).toEqual({ double: 1, label: 2 });
+        expect(pipeline.get('doubled')).toBe(4);
+        expect(() => pipeline.retryFrom('missing')).toThrow('Unknown pipeline step: missing');
+    });
+
+    it('set() invalidates the steps downstream of the value', async () => {
+        const { pipeline, runs } = createCountingPipeline();
+        await pipeline.run();
+
+        pipeline.set('doubled', 7);
+        expect(statuses(pipeline)).toEqual(['done', 'pending']);
+        expect(pipeline.get('label')).toBeUndefined();
+        await pipeline.run();
+        expect(runs).toEqual({ double: 1, label: 2 });
+        expect(pipeline.get('label')).toBe('#7');
+
+        pipeline.set('source', 5);
+        expect(statuses(pipeline)).toEqual(['pending', 'pending']);
+        await pipeline.run();
+        expect(pipeline.get('label')).toBe('#10');
+    });
+
+    it('cancel() resolves the run as cancelled and resets the step in progress', async () => {
+        let aborted = false;
+        const pipeline = new Pipeline<Context>([
+            step({
+                id: 'double', label: 'Double', inputs: ['source'], output: 'doubled',
+                run: ({ source }, { signal }) => new Promise(resolve => {
+                    signal.addEventListener('abort', () => { aborted = true; resolve(source * 2); });
+                }),
+            }),
+        ], { source: 2 });
+
+        const outcome = pipeline.run();
+        expect(pipeline.isRunning).toBe(true);
+        pipeline.cancel();
+        expect(await outcome).toBe('cancelled');
+        expect(aborted).toBe(true);
+        expect(pipeline.isRunning).toBe(false);
+        expect(pipeline.snapshot[0].status).toBe('pending');
+        expect(pipeline.get('doubled')).toBeUndefined();
+    });
+
+    it('notifies subscribers with a new snapshot on every change', async () => {
+        const { pipeline } = createCountingPipeline();
+        const snapshots: string[][] = [];
+        const unsubscribe = pipeline.subscribe(steps => snapshots.push(steps.map(state => state.status)));
+        await pipeline.run();
+        unsubscribe();
+        expect(snapshots[0]).toEqual(['loading', 'pending']);
+        expect(snapshots.at(-1)).toEqual(['done', 'done']);
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * A small typed pipeline runner. Steps read named values from a shared
+ * context and write one value back; the runner keeps those values between
+ * runs, so a failed pipeline can be retried from the failed step without
+ * redoing the work upstream of it. Nothing here depends on React or the DOM.
+ */
+
+export type StepStatus = 'pending' | 'loading' | 'done' | 'skipped' | 'error';
+
+export interface RetryPolicy {
+    // Total tries, including the first.
+    attempts: number;
+    delayMs: number;
+    // Defaults to retrying every error.
+    shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface StepRunContext {
+    signal: AbortSignal;
+    // 1-based try number.
+    attempt: number;
+    // Progress shown under the step, e.g. a queue position, with optional log lines.
+    report: (message: string, logs?: string[]) => void;
+}
+
+export interface PipelineStep<C, I extends keyof C = keyof C, O extends keyof C = keyof C> {
+    id: string;
+    label: string;
+    inputs: readonly I[];
+    output: O;
+    retry?: RetryPolicy;
+    // Returns the output directly when the step does not apply; the step is then skipped.
+    bypass?: (inputs: Pick<C, I>) => C[O] | undefined;
+    run: (inputs: Pick<C, I>, context: StepRunContext) => Promise<C[O]>;
+}
+
+/** Any step of a pipeline over `C`: one member per output key, so each keeps its output type. */
+export type AnyStep<C> = { [O in keyof C]-?: PipelineStep<C, keyof C, O> }[keyof C];
+
+export interface StepState {
+    id: string;
+    label: string;
+    status: StepStatus;
+    attempt: number;
+    // performance.now() when the current try started.
+    startedAt?: number;
+    // Time spent in the step, summed over all tries.
+    seconds: number;
+    message?: string;
+    logs?: string[];
+    error?: string;
+}
+
+/** Run outcome: `completed` also covers stopping at `until`. */
+export type PipelineOutcome = 'completed' | 'cancelled';
+
+/** Identity helper that infers a step's input and output keys from its definition. */
+export const defineStep = <C>() => <I extends keyof C, O extends keyof C>(step: PipelineStep<C, I, O>): PipelineStep<C, keyof C, O> => step;
+
+/** Narrows `values` once every one of `keys` is present. */
+const hasKeys = <C, K extends keyof C>(values: Partial<C>, keys: readonly K[]): values is Partial<C> & Pick<C, K> =>
+    keys.every(key => key in values);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class Pipeline<C> {
+    private values: Partial<C>;
+    private states: StepState[];
+    private listeners = new Set<(steps: StepState[]) => void>();
+    private controller: AbortController | null = null;
+
+    constructor(private steps: AnyStep<C>[], initial: Partial<C> = {}) {
+        this.values = { ...initial };
+        this.states = steps.map(step => ({ id: step.id, label: step.label, status: 'pending', attempt: 0, seconds: 0 }));
+    }
+
+    /** Current step states; replaced (never mutated) on every change. */
+    get snapshot(): StepState[] {
+        return this.states;
+    }
+
+    get isRunning() {
+        return this.controller !== null;
+    }
+
+    get<K extends keyof C>(key: K): C[K] | undefined {
+        return this.values[key];
+    }
+
+    subscribe(listener: (steps: StepState[]) => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /** Replaces a value, e.g. an edited set of views. Steps that depend on it will run again. */
+    set<K extends keyof C>(key: K, value: C[K]) {
+        this.values[key] = value;
+        const dirty = new Set<keyof C>([key]);
+        this.steps.forEach((step, index) => {
+            if (step.output === key || !step.inputs.some(input => dirty.has(input))) return;
+            this.resetStep(index);
+            dirty.add(step.output);
+        });
+        this.emit();
+    }
+
+    /**
+     * Runs every step that is not done yet, in order, stopping after the step
+     * `until` when given. Rejects with the step's error when a step fails;
+     * calling run() again retries from that step.
+     */
+    async run(options: { until?: string } = {}): Promise<PipelineOutcome> {
+        if (this.controller) throw new Error('The pipeline is already running.');
+        const controller = new AbortController();
+        this.controller = controller;
+        try {
+            for (let index = 0; index < this.steps.length; index++) {
+                if (controller.signal.aborted) return 'cancelled';
+                const step = this.steps[index];
+                const state = this.states[index];
+                if (state.status !== 'done' && state.status !== 'skipped') {
+                    await this.runStep(index, step, controller.signal);
+                    if (controller.signal.aborted) return 'cancelled';
+                }
+                if (step.id === options.until) break;
+            }
+            return 'completed';
+        } finally {
+            if (this.controller === controller) this.controller = null;
+        }
+    }
+
+    /** Clears the step and everything after it, keeping upstream outputs, then runs again. */
+    retryFrom(stepId: string, options: { until?: string } = {}) {
+        const start = this.steps.findIndex(step => step.id === stepId);
+        if (start === -1) throw new Error(`Unknown pipeline step: ${stepId}`);
+        for (let index = start; index < this.steps.length; index++) this.resetStep(index);
+        this.emit();
+        return this.run(options);
+    }
+
+    /** Stops the run; the step in progress is reset to pending and `run` resolves to 'cancelled'. */
+    cancel() {
+        this.controller?.abort();
+        this.controller = null;
+        this.states = this.states.map(state => state.status === 'loading' ? { ...state, status: 'pending', startedAt: undefined } : state);
+        this.emit();
+    }
+
+    private async runStep<O extends keyof C>(index: number, step: PipelineStep<C, keyof C, O>, signal: AbortSignal) {
+        // A copy, so later changes to the values don't reach a step in progress.
+        const inputs = { ...this.values };
+        if (!hasKeys(inputs, step.inputs)) {
+            const missing = step.inputs.find(key => !(key in inputs));
+            throw new Error(`"${step.label}" is missing its input "${String(missing)}".`);
+        }
+
+        // Values supplied up front (or by an earlier session) need no work.
+        const provided = step.output in this.values ? this.values[step.output] : step.bypass?.(inputs);
+        if (provided !== undefined) {
+            this.values[step.output] = provided;
+            this.updateState(index, { status: 'skipped' });
+            return;
+        }
+
+        const policy = step.retry ?? { attempts: 1, delayMs: 0 };
+        for (let attempt = 1; ; attempt++) {
+            const startedAt = performance.now();
+            this.updateState(index, { status: 'loading', attempt, startedAt, message: undefined, logs: undefined, error: undefined });
+            const report = (message: string, logs?: string[]) => {
+                if (!signal.aborted) this.updateState(index, { message, logs });
+            };
+            try {
+                const output = await step.run(inputs, { signal, attempt, report });
+                if (signal.aborted) return;
+                this.values[step.output] = output;
+                this.updateState(index, { status: 'done', startedAt: undefined, seconds: this.states[index].seconds + (performance.now() - startedAt) / 1000 });
+                return;
+            } catch (error: any) {
+                if (signal.aborted) return;
+                const seconds = this.states[index].seconds + (performance.now() - startedAt) / 1000;
+                const retry = attempt < policy.attempts && (policy.shouldRetry?.(error) ?? true);
+                if (!retry) {
+                    this.updateState(index, { status: 'error', startedAt: undefined, seconds, error: error?.message || 'An unknown error occurred.' });
+                    throw error;
+                }
+                console.warn(`${step.label} failed (try ${attempt} of ${policy.attempts}), retrying:`, error);
+                this.updateState(index, { seconds, message: `Retrying after: ${error?.message || 'an error'}` });
+                await sleep(policy.delayMs * attempt);
+                if (signal.aborted) return;
+            }
+        }
+    }
+
+    private resetStep(index: number) {
+        const step = this.steps[index];
+        delete this.values[step.output];
+        this.states = this.states.map((state, i) => i === index
+            ? { id: state.id, label: state.label, status: 'pending', attempt: 0, seconds: 0 }
+            : state);
+    }
+
+    private updateState(index: number, patch: Partial<StepState>) {
+        this.states = this.states.map((state, i) => i === index ? { ...state, ...patch } : state);
+        this.emit();
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener(this.states));
+    }
+}
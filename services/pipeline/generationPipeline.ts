@@ -0,0 +1,216 @@
+import type { FidelityReport } from '../fidelity';
+import { viewsForProvider, GeneratedView, ViewDefinition } from '../generation';
+import {
+    pollReconstruction,
+    runReconstruction,
+    ReconstructionJob,
+    ReconstructionProvider,
+    ReconstructionStatus,
+    ReconstructionViews,
+} from '../reconstruction';
+import { isTransientError } from '../reconstruction/polling';
+import type { ProductMetadata } from '../productPage';
+import type { GenerationSettings } from '../settings';
+import { checkBudget, estimateRunCost, UsageCall } from '../usage';
+import { createGenerationId, StepTiming } from '../historyStore';
+import { defineStep, Pipeline, PipelineOutcome, StepState } from './engine';
+
+/** Everything one generation reads or produces, from the product photos to the model file. */
+export interface GenerationContext {
+    // Ties the run's paid calls together in the usage ledger.
+    runId: string;
+    // Product page to fetch a photo from when no files were given.
+    sourceUrl: string | null;
+    files: File[];
+    // Title, brand and dimensions read from the product page the photos came from.
+    product: ProductMetadata | null;
+    // The given files, or the photo fetched from `sourceUrl`.
+    photos: File[];
+    settings: GenerationSettings;
+    provider: ReconstructionProvider;
+    // A job submitted in an earlier session, polled instead of submitting again.
+    resumeJob: { job: ReconstructionJob; submittedAt: number } | null;
+    // The photos sent for view generation, cleaned up when the settings ask for it.
+    inputs: File[];
+    views: GeneratedView[];
+    reconstructionViews: ReconstructionViews;
+    // The provider's (temporary) model URL.
+    modelUrl: string;
+    model: Blob;
+    // Null when the check is turned off or could not run.
+    fidelity: FidelityReport | null;
+}
+
+/**
+ * What the steps call out to. The app passes `browserGenerationServices`
+ * (the /api proxy, canvas and WebGL); the CLI passes Node versions.
+ */
+export interface GenerationServices {
+    fetchProductImage: (pageUrl: string, runId: string) => Promise<File>;
+    cleanUpPhoto: (photo: File) => Promise<File>;
+    generateViews: (inputs: File[], views: ViewDefinition[], settings: GenerationSettings, runId: string) => Promise<GeneratedView[]>;
+    prepareReconstructionViews: (views: GeneratedView[]) => Promise<ReconstructionViews>;
+    downloadModel: (modelUrl: string) => Promise<Blob>;
+    checkFidelity: (model: Blob, views: GeneratedView[], photos: File[]) => Promise<FidelityReport>;
+    recordUsage: (call: UsageCall & { durationMs: number; ok: boolean }) => void;
+}
+
+export interface GenerationPipelineHooks {
+    onSubmitted?: (job: ReconstructionJob, provider: ReconstructionProvider) => void;
+}
+
+// Step ids, for pausing (`until`) and retrying (`retryFrom`).
+export const GENERATION_STEPS = {
+    fetch: 'fetch',
+    preprocess: 'preprocess',
+    views: 'views',
+    resize: 'resize',
+    reconstruct: 'reconstruct',
+    download: 'download',
+    fidelity: 'fidelity',
+} as const;
+
+// Automatic reconstructions after a low fidelity score, per run.
+const MAX_FIDELITY_RETRIES = 1;
+
+const step = defineStep<GenerationContext>();
+
+const describeStatus = (status: ReconstructionStatus) => {
+    if (status.state === 'IN_QUEUE') {
+        return status.queuePosition !== undefined ? `In queue: ${status.queuePosition} job(s) ahead` : 'In queue';
+    }
+    return status.state === 'IN_PROGRESS' ? 'Reconstructing' : '';
+};
+
+const createSteps = (services: GenerationServices, hooks: GenerationPipelineHooks) => [
+    step({
+        id: GENERATION_STEPS.fetch,
+        label: 'Fetch Product Image',
+        inputs: ['sourceUrl', 'files', 'runId'],
+        output: 'photos',
+        retry: { attempts: 2, delayMs: 1000 },
+        bypass: ({ files, sourceUrl }) => files.length > 0 || !sourceUrl ? files : undefined,
+        run: async ({ sourceUrl, runId }) => [await services.fetchProductImage(sourceUrl!, runId)],
+    }),
+    step({
+        id: GENERATION_STEPS.preprocess,
+        label: 'Clean Up Photos',
+        inputs: ['photos', 'settings'],
+        output: 'inputs',
+        bypass: ({ photos, settings }) => settings.preprocessInputs ? undefined : photos,
+        run: async ({ photos }) => Promise.all(photos.map(services.cleanUpPhoto)),
+    }),
+    step({
+        id: GENERATION_STEPS.views,
+        label: 'Generate View Images',
+        inputs: ['inputs', 'settings', 'provider', 'runId'],
+        output: 'views',
+        retry: { attempts: 2, delayMs: 2000 },
+        run: ({ inputs, settings, provider, runId }) => {
+            if (inputs.length === 0) throw new Error('Add at least one product photo.');
+            return services.generateViews(inputs, viewsForProvider(settings.views, provider), settings, runId);
+        },
+    }),
+    step({
+        id: GENERATION_STEPS.resize,
+        label: 'Prepare Views',
+        inputs: ['views'],
+        output: 'reconstructionViews',
+        run: ({ views }) => services.prepareReconstructionViews(views),
+    }),
+    step({
+        id: GENERATION_STEPS.reconstruct,
+        label: 'Generate 3D Model',
+        inputs: ['reconstructionViews', 'provider', 'settings', 'resumeJob', 'runId'],
+        output: 'modelUrl',
+        // Never retried automatically: every submission is a new, paid job.
+        run: async ({ reconstructionViews, provider, settings, resumeJob, runId }, { signal, report }) => {
+            const submittedAt = resumeJob?.submittedAt ?? Date.now();
+            const options = {
+                isCancelled: () => signal.aborted,
+                onStatus: (status: ReconstructionStatus) => report(describeStatus(status), status.logs),
+                maxWaitMs: settings.maxWaitMinutes * 60_000,
+            };
+            const result = resumeJob
+                ? await pollReconstruction(provider, resumeJob.job, { ...options, submittedAt: resumeJob.submittedAt })
+                : await runReconstruction(provider, reconstructionViews, { ...options, onSubmitted: job => hooks.onSubmitted?.(job, provider) });
+            if (!result) throw new Error('The reconstruction was cancelled.');
+            // Only completed jobs are billed.
+            services.recordUsage({ service: 'fal', model: provider.id, operation: 'Reconstruction', runId, durationMs: Date.now() - submittedAt, ok: true });
+            return result.modelUrl;
+        },
+    }),
+    step({
+        id: GENERATION_STEPS.download,
+        label: 'Download Model',
+        inputs: ['modelUrl'],
+        output: 'model',
+        retry: { attempts: 3, delayMs: 1000, shouldRetry: isTransientError },
+        run: ({ modelUrl }) => services.downloadModel(modelUrl),
+    }),
+    step({
+        id: GENERATION_STEPS.fidelity,
+        label: 'Check Fidelity',
+        inputs: ['model', 'views', 'photos', 'settings'],
+        output: 'fidelity',
+        bypass: ({ settings }) => settings.fidelityCheck ? undefined : null,
+        run: async ({ model, views, photos }) => {
+            // A quality check that cannot run (e.g. without WebGL) should not fail the generation.
+            try {
+                return await services.checkFidelity(model, views, photos);
+            } catch (e) {
+                console.warn('The fidelity check failed:', e);
+                return null;
+            }
+        },
+    }),
+];
+
+/**
+ * The full generation as a pipeline. Give `files` or `sourceUrl`; any other
+ * value passed in `initial` (e.g. already cleaned `inputs`, or `views` and a
+ * `resumeJob` when resuming) skips the step that would produce it.
+ */
+export const createGenerationPipeline = (initial: Partial<GenerationContext>, services: GenerationServices, hooks: GenerationPipelineHooks = {}) =>
+    new Pipeline<GenerationContext>(createSteps(services, hooks), { runId: createGenerationId(), sourceUrl: null, files: [], product: null, resumeJob: null, ...initial });
+
+/** Timings of the steps that did work, as stored in the generation history. */
+export const completedStepTimings = (steps: StepState[]): StepTiming[] =>
+    steps.filter(step => step.status === 'done').map(step => ({ name: step.label, seconds: step.seconds }));
+
+/**
+ * Estimated cost of a run with these inputs, before it starts. `include`
+ * leaves out the paid steps that will not run, e.g. when retrying.
+ */
+export const estimateGenerationCost = (
+    { settings, provider, files = [], sourceUrl = null }: Pick<GenerationContext, 'settings' | 'provider'> & Partial<Pick<GenerationContext, 'files' | 'sourceUrl'>>,
+    include = { views: true, reconstruction: true },
+) =>
+    estimateRunCost({
+        imageModel: settings.imageModel,
+        views: include.views ? viewsForProvider(settings.views, provider).length : 0,
+        providerId: include.reconstruction ? provider.id : undefined,
+        urlImport: include.views && files.length === 0 && !!sourceUrl,
+    });
+
+/** Whether the model scored below the run's threshold. False when it was not checked. */
+export const isLowFidelity = (report: FidelityReport | null | undefined, settings: GenerationSettings) =>
+    !!report && report.score * 100 < settings.fidelityThreshold;
+
+/**
+ * Runs `start`, then reconstructs again when the settings ask for it and the
+ * model scored below the threshold. Automatic retries never go over the budget.
+ */
+export const runWithFidelityRetry = async (pipeline: Pipeline<GenerationContext>, start: () => Promise<PipelineOutcome>) => {
+    let outcome = await start();
+    for (let retries = 0; outcome === 'completed' && retries < MAX_FIDELITY_RETRIES; retries++) {
+        const settings = pipeline.get('settings')!;
+        if (!settings.fidelityAutoRetry || !isLowFidelity(pipeline.get('fidelity'), settings)) break;
+        const estimate = estimateGenerationCost({ settings, provider: pipeline.get('provider')! }, { views: false, reconstruction: true });
+        if (checkBudget(estimate)) break;
+        console.warn(`The model scored ${Math.round(pipeline.get('fidelity')!.score * 100)}%, generating it again.`);
+        pipeline.set('resumeJob', null);
+        outcome = await pipeline.retryFrom(GENERATION_STEPS.reconstruct);
+    }
+    return outcome;
+};
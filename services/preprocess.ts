@@ -0,0 +1,223 @@
+import { stripExtension } from '../utils/files';
+
+/**
+ * On-device cleanup of input photos before view generation: EXIF orientation
+ * is applied, the product is separated from its background, and the result is
+ * cropped and centered on a white square canvas. Everything runs on the CPU
+ * with plain canvas operations, so no image leaves the browser.
+ */
+
+export interface PreprocessResult {
+    file: File;
+    // False when no clear product/background split was found; the photo is then only re-oriented and centered.
+    segmented: boolean;
+    // Share of the original frame covered by the product.
+    coverage: number;
+}
+
+const ANALYSIS_SIZE = 320;
+const OUTPUT_SIZE = 1024;
+const PADDING = 0.1;
+// Neighbouring pixels closer than this are treated as the same surface while flood filling.
+const LOCAL_THRESHOLD = 10;
+const MIN_COVERAGE = 0.01;
+const MAX_COVERAGE = 0.97;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, r: number, g: number, b: number) => {
+    const dr = data[i] - r;
+    const dg = data[i + 1] - g;
+    const db = data[i + 2] - b;
+    return Math.sqrt(0.3 * dr * dr + 0.59 * dg * dg + 0.11 * db * db);
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+const borderIndices = (width: number, height: number) => {
+    const indices: number[] = [];
+    for (let x = 0; x < width; x++) indices.push(x, (height - 1) * width + x);
+    for (let y = 1; y < height - 1; y++) indices.push(y * width, y * width + width - 1);
+    return indices;
+};
+
+/**
+ * Marks background pixels by flood filling from the image border. A pixel
+ * joins the background when it is close to the border's median color, or
+ * close to an adjacent background pixel (to follow soft gradients and shadows).
+ */
+export const segmentForeground = (image: ImageData): Uint8Array => {
+    const { width, height, data } = image;
+    const border = borderIndices(width, height);
+    const bg = [0, 1, 2].map(channel => median(border.map(p => data[p * 4 + channel])));
+    const borderDistances = border.map(p => colorDistance(data, p * 4, bg[0], bg[1], bg[2])).sort((a, b) => a - b);
+    const globalThreshold = Math.min(80, Math.max(20, borderDistances[Math.floor(borderDistances.length * 0.9)] * 1.5 + 12));
+
+    const background = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+    let head = 0;
+    let tail = 0;
+    for (const p of border) {
+        if (!background[p] && colorDistance(data, p * 4, bg[0], bg[1], bg[2]) < globalThreshold * 2) {
+            background[p] = 1;
+            queue[tail++] = p;
+        }
+    }
+
+    while (head < tail) {
+        const p = queue[head++];
+        const x = p % width;
+        const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+        for (const q of neighbours) {
+            if (q < 0 || q >= width * height || background[q]) continue;
+            const toBackground = colorDistance(data, q * 4, bg[0], bg[1], bg[2]);
+            const toNeighbour = colorDistance(data, q * 4, data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+            if (toBackground < globalThreshold || (toNeighbour < LOCAL_THRESHOLD && toBackground < globalThreshold * 2.5)) {
+                background[q] = 1;
+                queue[tail++] = q;
+            }
+        }
+    }
+
+    const foreground = new Uint8Array(width * height);
+    for (let p = 0; p < foreground.length; p++) foreground[p] = background[p] ? 0 : 1;
+    return keepMainComponents(openMask(foreground, width, height), width, height);
+};
+
+/** Erode then dilate by one pixel to drop specks and thin noise. */
+const openMask = (mask: Uint8Array, width: number, height: number) => {
+    const pass = (source: Uint8Array, keep: (count: number) => boolean) => {
+        const result = new Uint8Array(source.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx >= 0 && ny >= 0 && nx < width && ny < height) count += source[ny * width + nx];
+                    }
+                }
+                result[y * width + x] = keep(count) ? 1 : 0;
+            }
+        }
+        return result;
+    };
+    return pass(pass(mask, count => count === 9), count => count > 0);
+};
+
+/** Keeps the largest region plus any region at least a tenth of its size (multi-part products). */
+const keepMainComponents = (mask: Uint8Array, width: number, height: number) => {
+    const labels = new Int32Array(mask.length);
+    const sizes: number[] = [0];
+    const stack: number[] = [];
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || labels[start]) continue;
+        const label = sizes.length;
+        let size = 0;
+        labels[start] = label;
+        stack.push(start);
+        while (stack.length > 0) {
+            const p = stack.pop()!;
+            size++;
+            const x = p % width;
+            const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+            for (const q of neighbours) {
+                if (q < 0 || q >= mask.length || !mask[q] || labels[q]) continue;
+                labels[q] = label;
+                stack.push(q);
+            }
+        }
+        sizes.push(size);
+    }
+
+    const largest = Math.max(...sizes);
+    const result = new Uint8Array(mask.length);
+    for (let p = 0; p < mask.length; p++) {
+        if (labels[p] && sizes[labels[p]] >= largest * 0.1) result[p] = 1;
+    }
+    return result;
+};
+
+export const boundsOf = (mask: Uint8Array, width: number, height: number) => {
+    let minX = width, minY = height, maxX = -1, maxY = -1, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!mask[y * width + x]) continue;
+            count++;
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, count };
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    return { canvas, ctx };
+};
+
+export const preprocessImage = async (file: File): Promise<PreprocessResult> => {
+    // Decoding through createImageBitmap applies the EXIF orientation to the pixels;
+    // re-encoding below drops the tag so downstream services see an upright image.
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+        const analysis = createCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+        analysis.ctx.drawImage(bitmap, 0, 0, analysis.canvas.width, analysis.canvas.height);
+        const { width, height } = analysis.canvas;
+        const mask = segmentForeground(analysis.ctx.getImageData(0, 0, width, height));
+        const bounds = boundsOf(mask, width, height);
+        const coverage = bounds.count / (width * height);
+        const segmented = coverage >= MIN_COVERAGE && coverage <= MAX_COVERAGE;
+
+        // Cut the product out at full resolution using the upscaled, slightly blurred mask.
+        const cutout = createCanvas(bitmap.width, bitmap.height);
+        cutout.ctx.drawImage(bitmap, 0, 0);
+        let crop = { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+        if (segmented) {
+            const maskCanvas = createCanvas(width, height);
+            const maskPixels = maskCanvas.ctx.createImageData(width, height);
+            mask.forEach((value, p) => { maskPixels.data[p * 4 + 3] = value * 255; });
+            maskCanvas.ctx.putImageData(maskPixels, 0, 0);
+            cutout.ctx.globalCompositeOperation = 'destination-in';
+            cutout.ctx.filter = `blur(${Math.max(1, 1 / scale / 2)}px)`;
+            cutout.ctx.drawImage(maskCanvas.canvas, 0, 0, bitmap.width, bitmap.height);
+            cutout.ctx.filter = 'none';
+            crop = {
+                x: Math.floor(bounds.x / scale),
+                y: Math.floor(bounds.y / scale),
+                width: Math.ceil(bounds.width / scale),
+                height: Math.ceil(bounds.height / scale),
+            };
+        }
+
+        const side = Math.max(crop.width, crop.height) * (1 + PADDING * 2);
+        const outputSize = Math.min(OUTPUT_SIZE, Math.round(side));
+        const fit = outputSize / side;
+        const output = createCanvas(outputSize, outputSize);
+        output.ctx.fillStyle = '#ffffff';
+        output.ctx.fillRect(0, 0, outputSize, outputSize);
+        const drawWidth = crop.width * fit;
+        const drawHeight = crop.height * fit;
+        output.ctx.drawImage(cutout.canvas, crop.x, crop.y, crop.width, crop.height,
+            (outputSize - drawWidth) / 2, (outputSize - drawHeight) / 2, drawWidth, drawHeight);
+
+        const blob = await new Promise<Blob | null>(resolve => output.canvas.toBlob(resolve, 'image/jpeg', 0.92));
+        if (!blob) throw new Error(`Failed to encode the cleaned version of ${file.name}.`);
+        return {
+            file: new File([blob], `${stripExtension(file.name)}-clean.jpg`, { type: 'image/jpeg' }),
+            segmented,
+            coverage: segmented ? coverage : 1,
+        };
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,246 @@
+import type { LengthUnit } from '../utils/units';
+
+/**
+ * Deterministic extraction of product images and details from a product
+ * page's HTML: Open Graph and Twitter meta tags, JSON-LD `Product` data and
+ * large `<img>` elements. Plain string parsing so it also runs in the API
+ * proxy, where there is no DOM.
+ */
+
+export type ProductImageSource = 'json-ld' | 'open-graph' | 'page' | 'model';
+
+export interface ProductImageCandidate {
+    url: string;
+    source: ProductImageSource;
+}
+
+/** Stated product dimensions, in the page's own unit. */
+export interface ProductDimensions {
+    width?: number;
+    height?: number;
+    depth?: number;
+    unit: LengthUnit;
+    // As written on the page, for display.
+    text: string;
+}
+
+export interface ProductPageInfo {
+    url: string;
+    title?: string;
+    brand?: string;
+    dimensions?: ProductDimensions;
+    // Best candidates first.
+    images: ProductImageCandidate[];
+    // Whether Gemini had to be asked for an image because none were found in the markup.
+    usedModel: boolean;
+}
+
+/** What is kept with a generation. */
+export type ProductMetadata = Omit<ProductPageInfo, 'images' | 'usedModel'>;
+
+const MAX_CANDIDATES = 24;
+// <img> elements declared smaller than this are icons, swatches or thumbnails.
+const MIN_IMAGE_SIZE = 200;
+const IGNORED_IMAGE = /(logo|icon|sprite|favicon|avatar|badge|pixel|spacer|placeholder|loading|rating|star|flag|payment|social)/i;
+
+const UNIT_ALIASES: Record<string, LengthUnit> = {
+    mm: 'mm', millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm', mmt: 'mm',
+    cm: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm', cmt: 'cm',
+    m: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm', mtr: 'm',
+    in: 'in', inch: 'in', inches: 'in', '"': 'in', '″': 'in', inh: 'in',
+    ft: 'ft', foot: 'ft', feet: 'ft', "'": 'ft', fot: 'ft',
+};
+
+const UNIT_PATTERN = `(mm|cm|m|in|inch(?:es)?|ft|feet|foot|millimet(?:er|re)s?|centimet(?:er|re)s?|met(?:er|re)s?|"|″|')`;
+const NUMBER_PATTERN = `(\\d+(?:[.,]\\d+)?)`;
+
+const toUnit = (text: string | undefined): LengthUnit | undefined => text ? UNIT_ALIASES[text.trim().toLowerCase()] : undefined;
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+const decodeEntities = (text: string) => text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/** Attributes of one HTML tag, lower-cased names, decoded values. */
+const parseAttributes = (tag: string) => {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=<>/"']+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match;
+    // Skip the tag name.
+    pattern.exec(tag);
+    while ((match = pattern.exec(tag))) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+};
+
+const tagsOf = (html: string, name: string) =>
+    (html.match(new RegExp(`<${name}\\b[^>]*>`, 'gi')) ?? []).map(tag => parseAttributes(tag.slice(1, -1)));
+
+const resolveUrl = (url: string, base: string) => {
+    try {
+        const resolved = new URL(url.trim(), base);
+        return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+    } catch (_) {
+        return null;
+    }
+};
+
+const metaContent = (metas: Record<string, string>[], ...keys: string[]) => {
+    for (const key of keys) {
+        const meta = metas.find(m => (m.property ?? m.name)?.toLowerCase() === key);
+        if (meta?.content?.trim()) return meta.content.trim();
+    }
+    return undefined;
+};
+
+/** Every object in the page's JSON-LD blocks, including those nested in @graph and arrays. */
+const jsonLdObjects = (html: string) => {
+    const objects: any[] = [];
+    const visit = (value: any) => {
+        if (Array.isArray(value)) value.forEach(visit);
+        else if (value && typeof value === 'object') {
+            objects.push(value);
+            if (value['@graph']) visit(value['@graph']);
+        }
+    };
+    const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+    let match;
+    while ((match = pattern.exec(html))) {
+        try { visit(JSON.parse(match[1].trim())); }
+        catch (_) { /* Malformed blocks are common; skip them. */ }
+    }
+    return objects;
+};
+
+const isProduct = (value: any) => {
+    const type = value?.['@type'];
+    return Array.isArray(type) ? type.includes('Product') : type === 'Product';
+};
+
+const textOf = (value: any): string | undefined => {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (Array.isArray(value)) return textOf(value[0]);
+    if (value && typeof value === 'object') return textOf(value.name);
+    return undefined;
+};
+
+const imageUrlsOf = (value: any): string[] => {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(imageUrlsOf);
+    if (value && typeof value === 'object') return imageUrlsOf(value.contentUrl ?? value.url);
+    return [];
+};
+
+/** A schema.org QuantitativeValue, or a plain "24 in" string. */
+const quantityOf = (value: any): { value: number; unit?: LengthUnit } | undefined => {
+    if (typeof value === 'number') return { value };
+    if (typeof value === 'string') {
+        const match = value.match(new RegExp(`${NUMBER_PATTERN}\\s*${UNIT_PATTERN}?`, 'i'));
+        return match ? { value: toNumber(match[1]), unit: toUnit(match[2]) } : undefined;
+    }
+    if (value && typeof value === 'object' && value.value !== undefined) {
+        const number = Number(value.value);
+        return Number.isFinite(number) ? { value: number, unit: toUnit(value.unitCode) ?? toUnit(value.unitText) } : undefined;
+    }
+    return undefined;
+};
+
+const jsonLdDimensions = (product: any): ProductDimensions | undefined => {
+    const width = quantityOf(product.width);
+    const height = quantityOf(product.height);
+    const depth = quantityOf(product.depth);
+    const unit = width?.unit ?? height?.unit ?? depth?.unit;
+    if (!unit || (!width && !height && !depth)) return undefined;
+    const text = [width && `W ${width.value}`, height && `H ${height.value}`, depth && `D ${depth.value}`].filter(Boolean).join(' × ') + ` ${unit}`;
+    return { width: width?.value, height: height?.value, depth: depth?.value, unit, text };
+};
+
+/**
+ * Dimensions stated in the page text, either as "24 x 18 x 10 in" (taken as
+ * width × height × depth, as most listings write it) or labelled, like "Height: 24 in".
+ */
+export const parseDimensions = (text: string): ProductDimensions | undefined => {
+    const triple = text.match(new RegExp(`${NUMBER_PATTERN}\\s*${UNIT_PATTERN}?\\s*[x×]\\s*${NUMBER_PATTERN}\\s*${UNIT_PATTERN}?\\s*[x×]\\s*${NUMBER_PATTERN}\\s*${UNIT_PATTERN}`, 'i'));
+    if (triple) {
+        const unit = toUnit(triple[6]);
+        if (unit) {
+            return { width: toNumber(triple[1]), height: toNumber(triple[3]), depth: toNumber(triple[5]), unit, text: triple[0].trim() };
+        }
+    }
+
+    const labelled: Partial<Record<'width' | 'height' | 'depth', number>> = {};
+    let unit: LengthUnit | undefined;
+    const parts: string[] = [];
+    const pattern = new RegExp(`\\b(width|height|depth|length|w|h|d)\\b\\s*[:=]?\\s*${NUMBER_PATTERN}\\s*${UNIT_PATTERN}`, 'gi');
+    let match;
+    while ((match = pattern.exec(text))) {
+        const label = match[1].toLowerCase();
+        const axis = label.startsWith('w') ? 'width' : label.startsWith('h') ? 'height' : 'depth';
+        const matchUnit = toUnit(match[3]);
+        if (labelled[axis] !== undefined || !matchUnit || (unit && matchUnit !== unit)) continue;
+        labelled[axis] = toNumber(match[2]);
+        unit = matchUnit;
+        parts.push(match[0].trim());
+    }
+    return unit ? { ...labelled, unit, text: parts.join(', ') } : undefined;
+};
+
+/** The largest entry of a srcset attribute. */
+const largestFromSrcset = (srcset: string) => srcset
+    .split(',')
+    .map(entry => entry.trim().split(/\s+/))
+    .filter(([url]) => url)
+    .map(([url, descriptor]) => ({ url, size: parseFloat(descriptor ?? '') || 0 }))
+    .sort((a, b) => b.size - a.size)[0]?.url;
+
+const pageImages = (html: string) => tagsOf(html, 'img').flatMap(img => {
+    const width = Number(img.width);
+    const height = Number(img.height);
+    if ((width && width < MIN_IMAGE_SIZE) || (height && height < MIN_IMAGE_SIZE)) return [];
+    const srcset = img.srcset ?? img['data-srcset'];
+    const url = (srcset && largestFromSrcset(srcset)) || img['data-zoom-image'] || img['data-large'] || img['data-src'] || img.src;
+    if (!url || url.startsWith('data:') || /\.svg(\?|$)/i.test(url) || IGNORED_IMAGE.test(`${url} ${img.alt ?? ''} ${img.class ?? ''}`)) return [];
+    return [url];
+});
+
+/** Visible text, for finding stated dimensions. */
+const pageText = (html: string) => decodeEntities(html
+    .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ');
+
+export const extractProductPage = (html: string, pageUrl: string): ProductPageInfo => {
+    const metas = tagsOf(html, 'meta');
+    const product = jsonLdObjects(html).find(isProduct);
+
+    const candidates: ProductImageCandidate[] = [];
+    const add = (urls: (string | undefined)[], source: ProductImageSource) => urls.forEach(url => {
+        const resolved = url && resolveUrl(url, pageUrl);
+        if (resolved && !candidates.some(c => c.url === resolved)) candidates.push({ url: resolved, source });
+    });
+    add(product ? imageUrlsOf(product.image) : [], 'json-ld');
+    add([
+        metaContent(metas, 'og:image:secure_url', 'og:image'),
+        metaContent(metas, 'twitter:image', 'twitter:image:src'),
+        tagsOf(html, 'link').find(link => link.rel?.toLowerCase() === 'image_src')?.href,
+    ], 'open-graph');
+    add(pageImages(html), 'page');
+
+    const title = textOf(product?.name)
+        ?? metaContent(metas, 'og:title', 'twitter:title')
+        ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim();
+
+    return {
+        url: pageUrl,
+        title: title ? decodeEntities(title) : undefined,
+        brand: textOf(product?.brand) ?? metaContent(metas, 'product:brand', 'og:brand'),
+        dimensions: (product && jsonLdDimensions(product)) ?? parseDimensions(pageText(html)),
+        images: candidates.slice(0, MAX_CANDIDATES),
+        usedModel: false,
+    };
+};
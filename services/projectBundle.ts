@@ -0,0 +1,215 @@
+import { unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { extensionForMimeType, stripExtension } from '../utils/files';
+import { createZip, uniqueEntryName, ZipEntry } from '../utils/zip';
+import type { ExportFormat, ExportResult } from './exporters';
+import { createGenerationId, GenerationPrompt, GenerationRecord, StepTiming, StoredView } from './historyStore';
+import type { ProductMetadata } from './productPage';
+import { getReconstructionProvider, ViewKey } from './reconstruction';
+import type { GenerationSettings } from './settings';
+
+/**
+ * Project bundles: one ZIP with everything a generation produced, plus a
+ * `manifest.json` describing how it was made. Opening a bundle restores the
+ * result screen, the same way opening a history record does.
+ */
+
+const BUNDLE_FORMAT = 'instant-3d-model-maker/project';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleExport {
+    format: ExportFormat;
+    file: string;
+    // Whether the model was written in meters (see scale calibration).
+    inMeters: boolean;
+    // What the conversion lost, as reported by the exporter.
+    warnings: string[];
+}
+
+export interface BundleView {
+    key: ViewKey | null;
+    label: string;
+    file: string;
+    type: string;
+    prompt: string;
+}
+
+export interface BundleVariant {
+    name: string;
+    description: string;
+    views: BundleView[];
+    model: { file: string; sourceUrl: string | null };
+    requestId: string | null;
+    cost: number | null;
+}
+
+export interface ProjectManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    createdAt: string;
+    name: string;
+    // Product page the photos came from, if any.
+    sourceUrl: string | null;
+    product: ProductMetadata | null;
+    provider: { id: string; label: string; requestId: string | null };
+    imageModel: string | null;
+    settings: GenerationSettings | null;
+    originals: { file: string; name: string; type: string }[];
+    views: BundleView[];
+    // The model as the provider returned it; `sourceUrl` is its temporary download link.
+    model: { file: string; sourceUrl: string | null };
+    exports: BundleExport[];
+    steps: StepTiming[];
+    totalGenerationTime: number | null;
+    // Estimated USD, from the usage ledger.
+    cost: number | null;
+    // Bounding box size, in meters once the scale is calibrated.
+    dimensions: { x: number; y: number; z: number; unit: 'm' | 'model units' } | null;
+    // 0-1, when the fidelity check ran.
+    fidelityScore: number | null;
+    // Colorways, each in its own folder; missing when there are none.
+    variants?: BundleVariant[];
+}
+
+/** File name for a generated view, with the extension of its actual image type. */
+export const viewFileName = (label: string, mimeType: string) =>
+    `${label.toLowerCase().replace(/\s+/g, '-')}.${extensionForMimeType(mimeType, 'png')}`;
+
+/** Zips a generation with its manifest. `exports` are extra formats converted from the loaded model. */
+export const buildProjectBundle = async ({ record, name, exports = [], inMeters = false, dimensions = null, fidelityScore = null }: {
+    record: GenerationRecord;
+    name: string;
+    exports?: (ExportResult & { format: ExportFormat })[];
+    inMeters?: boolean;
+    dimensions?: { x: number; y: number; z: number } | null;
+    fidelityScore?: number | null;
+}): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    const add = (folder: string, filename: string, data: Blob, taken: Set<string>) => {
+        const base = stripExtension(filename);
+        const path = `${folder}/${uniqueEntryName(base, taken, filename.slice(base.length))}`;
+        entries.push({ path, data });
+        return path;
+    };
+
+    const originalNames = new Set<string>();
+    const originals = record.originals.map(original => ({
+        file: add('originals', original.name, original.blob, originalNames),
+        name: original.name,
+        type: original.type,
+    }));
+    const addViews = (folder: string, views: StoredView[], prompts: GenerationPrompt[]) => {
+        const viewNames = new Set<string>();
+        return views.map((view, i): BundleView => ({
+            key: view.key ?? null,
+            label: view.label,
+            file: add(folder, viewFileName(view.label, view.blob.type), view.blob, viewNames),
+            type: view.blob.type,
+            prompt: prompts[i]?.prompt ?? '',
+        }));
+    };
+    const views = addViews('views', record.views, record.prompts);
+    const modelNames = new Set<string>();
+    const modelFile = add('model', `${name}.glb`, record.model, modelNames);
+    const variantFolders = new Set<string>();
+    const variants = (record.variants ?? []).map((variant): BundleVariant => {
+        const folder = `variants/${uniqueEntryName(variant.name, variantFolders)}`;
+        return {
+            name: variant.name,
+            description: variant.description,
+            views: addViews(`${folder}/views`, variant.views, variant.prompts),
+            model: { file: add(folder, `${name}-${variant.name}.glb`, variant.model, new Set()), sourceUrl: variant.modelSourceUrl ?? null },
+            requestId: variant.requestId ?? null,
+            cost: variant.cost ?? null,
+        };
+    });
+    const exportNames = new Set<string>();
+    const bundleExports = exports.map((result): BundleExport => ({
+        format: result.format,
+        file: add('exports', result.filename, result.blob, exportNames),
+        inMeters,
+        warnings: result.warnings,
+    }));
+
+    const manifest: ProjectManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        createdAt: new Date().toISOString(),
+        name,
+        sourceUrl: record.sourceUrl ?? record.product?.url ?? null,
+        product: record.product ?? null,
+        provider: { id: record.providerId, label: getReconstructionProvider(record.providerId).label, requestId: record.requestId ?? null },
+        imageModel: record.settings?.imageModel ?? null,
+        settings: record.settings ?? null,
+        originals,
+        views,
+        model: { file: modelFile, sourceUrl: record.modelSourceUrl ?? null },
+        exports: bundleExports,
+        steps: record.steps,
+        totalGenerationTime: record.totalGenerationTime,
+        cost: record.cost ?? null,
+        dimensions: dimensions && { ...dimensions, unit: inMeters ? 'm' : 'model units' },
+        fidelityScore,
+        ...(variants.length > 0 ? { variants } : {}),
+    };
+    entries.push({ path: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) });
+    return createZip(entries);
+};
+
+/** Reads a bundle written by `buildProjectBundle` back into a history record. */
+export const readProjectBundle = async (file: File): Promise<{ record: GenerationRecord; manifest: ProjectManifest }> => {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+        throw new Error(`${file.name} is not a ZIP file.`);
+    }
+    if (!files[MANIFEST_PATH]) throw new Error(`${file.name} is not a project bundle: it has no ${MANIFEST_PATH}.`);
+
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(files[MANIFEST_PATH]));
+    } catch {
+        throw new Error(`The ${MANIFEST_PATH} in ${file.name} could not be read.`);
+    }
+    if (manifest.format !== BUNDLE_FORMAT) throw new Error(`${file.name} is not a project bundle from this app.`);
+    if (manifest.version > BUNDLE_VERSION) throw new Error(`${file.name} was made by a newer version of this app.`);
+
+    const blobOf = (path: string, type: string) => {
+        if (!files[path]) throw new Error(`The bundle is missing ${path}.`);
+        return new Blob([files[path]], { type });
+    };
+
+    return {
+        manifest,
+        record: {
+            id: createGenerationId(),
+            name: manifest.name || stripExtension(file.name),
+            createdAt: Date.parse(manifest.createdAt) || Date.now(),
+            providerId: manifest.provider.id,
+            originals: manifest.originals.map(original => ({ name: original.name, type: original.type, blob: blobOf(original.file, original.type) })),
+            views: manifest.views.map(view => ({ key: view.key ?? undefined, label: view.label, blob: blobOf(view.file, view.type) })),
+            model: blobOf(manifest.model.file, 'model/gltf-binary'),
+            modelSourceUrl: manifest.model.sourceUrl ?? undefined,
+            requestId: manifest.provider.requestId ?? undefined,
+            sourceUrl: manifest.sourceUrl ?? undefined,
+            steps: manifest.steps,
+            totalGenerationTime: manifest.totalGenerationTime,
+            cost: manifest.cost,
+            prompts: manifest.views.map(view => ({ view: view.label, prompt: view.prompt })),
+            settings: manifest.settings ?? undefined,
+            product: manifest.product ?? undefined,
+            variants: manifest.variants?.map(variant => ({
+                id: createGenerationId(),
+                name: variant.name,
+                description: variant.description,
+                views: variant.views.map(view => ({ key: view.key ?? undefined, label: view.label, blob: blobOf(view.file, view.type) })),
+                prompts: variant.views.map(view => ({ view: view.label, prompt: view.prompt })),
+                model: blobOf(variant.model.file, 'model/gltf-binary'),
+                modelSourceUrl: variant.model.sourceUrl ?? undefined,
+                requestId: variant.requestId ?? undefined,
+                cost: variant.cost,
+            })),
+        },
+    };
+};
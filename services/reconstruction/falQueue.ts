@@ -0,0 +1,124 @@
+import { falQueue, FalProxyResponse } from '../api';
+import { isRetryableStatus, TransientReconstructionError } from './polling';
+import type { ReconstructionJob, ReconstructionProvider, ReconstructionStatus, ReconstructionViews, ViewKey } from './types';
+
+/** fal's queue API. The app goes through the /api proxy; the CLI calls fal directly. */
+export interface FalQueueClient {
+    submit(modelId: string, input: unknown): Promise<FalProxyResponse>;
+    status(statusUrl: string): Promise<FalProxyResponse>;
+    result(responseUrl: string): Promise<FalProxyResponse>;
+    cancel(cancelUrl: string): Promise<FalProxyResponse>;
+}
+
+interface FalQueueProviderOptions {
+    id: string;
+    label: string;
+    description: string;
+    modelId: string;
+    requiredViews: ViewKey[];
+    supportedViews?: ViewKey[];
+    buildInput: (views: ReconstructionViews) => Record<string, unknown>;
+    extractModelUrl: (data: any) => string | null | undefined;
+    pollIntervalMs?: number;
+    // Defaults to the local API proxy.
+    queue?: FalQueueClient;
+}
+
+const formatLogs = (logs: any[] | undefined) => logs?.map((log: any) => log.message).join('\n');
+
+/** Throws for non-OK proxy responses, marking the ones worth retrying. */
+const checkResponse = (response: FalProxyResponse, action: string) => {
+    if (response.ok) return response.body;
+    const detail = response.body?.detail ?? response.body?.error;
+    const message = `Fal.ai ${action} failed (HTTP ${response.status})${detail ? `: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}` : ''}`;
+    throw isRetryableStatus(response.status) ? new TransientReconstructionError(message) : new Error(message);
+};
+
+// Logs are only included in status responses when asked for.
+const withLogs = (statusUrl: string) => `${statusUrl}${statusUrl.includes('?') ? '&' : '?'}logs=1`;
+
+/**
+ * Builds a provider for any model served through fal's queue API
+ * (submit -> status_url -> response_url, with cancel_url for aborts). Calls
+ * go through the local API proxy, which holds the fal key, unless another
+ * `queue` is given.
+ */
+export const createFalQueueProvider = (options: FalQueueProviderOptions): ReconstructionProvider => {
+    const queue = options.queue ?? falQueue;
+    return {
+        id: options.id,
+        label: options.label,
+        description: options.description,
+        requiredViews: options.requiredViews,
+        supportedViews: options.supportedViews ?? options.requiredViews,
+        pollIntervalMs: options.pollIntervalMs ?? 2000,
+        resumable: true,
+
+        async submit(views) {
+            const response = await queue.submit(options.modelId, options.buildInput(views));
+            if (!response.ok) throw new Error(`Fal.ai submission failed: ${JSON.stringify(response.body)}`);
+            const body = response.body;
+            return {
+                requestId: body.request_id,
+                statusUrl: body.status_url,
+                responseUrl: body.response_url,
+                cancelUrl: body.cancel_url,
+            };
+        },
+
+        async getStatus(job) {
+            const body = checkResponse(await queue.status(withLogs(job.statusUrl!)), 'status check');
+            const logs = body.logs?.map((log: any) => log.message);
+            return { state: body.status, logs, queuePosition: body.queue_position ?? undefined } as ReconstructionStatus;
+        },
+
+        async getResult(job) {
+            const data = checkResponse(await queue.result(job.responseUrl!), 'result fetch');
+            const modelUrl = options.extractModelUrl(data);
+            if (data.status === 'ERROR' || modelUrl == null) {
+                throw new Error(`Generation failed: ${formatLogs(data.logs) || 'Unknown error'}`);
+            }
+            return { modelUrl };
+        },
+
+        async cancel(job: ReconstructionJob) {
+            if (!job.cancelUrl) return;
+            await queue.cancel(job.cancelUrl);
+        },
+    };
+};
+
+const hunyuanMultiViewOptions: FalQueueProviderOptions = {
+    id: 'fal-hunyuan3d-multiview',
+    label: 'Hunyuan3D v2 Multi-View (fal)',
+    description: 'Textured mesh from front, back and left views.',
+    modelId: 'fal-ai/hunyuan3d/v2/multi-view',
+    requiredViews: ['front', 'back', 'left'],
+    buildInput: (views) => ({
+        front_image_url: views.front,
+        back_image_url: views.back,
+        left_image_url: views.left,
+        textured_mesh: true,
+    }),
+    extractModelUrl: (data) => data.model_mesh?.url,
+};
+
+const trellisMultiImageOptions: FalQueueProviderOptions = {
+    id: 'fal-trellis-multi',
+    label: 'TRELLIS Multi-Image (fal)',
+    description: 'Textured GLB from any set of reference views.',
+    modelId: 'fal-ai/trellis/multi',
+    requiredViews: ['front'],
+    supportedViews: ['front', 'back', 'left', 'right', 'top', 'three_quarter'],
+    buildInput: (views) => ({
+        image_urls: Object.values(views).filter(Boolean),
+    }),
+    extractModelUrl: (data) => data.model_mesh?.url,
+};
+
+export const hunyuanMultiViewProvider = createFalQueueProvider(hunyuanMultiViewOptions);
+export const trellisMultiImageProvider = createFalQueueProvider(trellisMultiImageOptions);
+
+/** The same fal backends, calling fal through `queue`. */
+export const createFalProviders = (queue: FalQueueClient) =>
+    [hunyuanMultiViewOptions, trellisMultiImageOptions].map(options => createFalQueueProvider({ ...options, queue }));
@@ -0,0 +1,102 @@
+import { hunyuanMultiViewProvider, trellisMultiImageProvider } from './falQueue';
+import { mockProvider } from './mock';
+import { isTransientError, MAX_TRANSIENT_FAILURES, nextPollDelay } from './polling';
+import type { ReconstructionJob, ReconstructionProvider, ReconstructionResult, ReconstructionStatus, ReconstructionViews } from './types';
+
+export * from './types';
+export { createFalProviders, createFalQueueProvider } from './falQueue';
+export type { FalQueueClient } from './falQueue';
+export { TransientReconstructionError } from './polling';
+
+export const reconstructionProviders: ReconstructionProvider[] = [
+    hunyuanMultiViewProvider,
+    trellisMultiImageProvider,
+    mockProvider,
+];
+
+export const DEFAULT_PROVIDER_ID = hunyuanMultiViewProvider.id;
+
+export const getReconstructionProvider = (id: string): ReconstructionProvider =>
+    reconstructionProviders.find(p => p.id === id) ?? hunyuanMultiViewProvider;
+
+export interface PollReconstructionOptions {
+    // Checked between network calls; returning true abandons the run quietly.
+    isCancelled: () => boolean;
+    onStatus?: (status: ReconstructionStatus) => void;
+    // Overall limit, counted from `submittedAt`. Defaults to no limit.
+    maxWaitMs?: number;
+    // When the job was submitted; set when resuming a job from an earlier session.
+    submittedAt?: number;
+}
+
+export interface RunReconstructionOptions extends PollReconstructionOptions {
+    onSubmitted?: (job: ReconstructionJob) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Polls an already submitted job until it completes, backing off between
+ * checks and retrying transient failures. Resolves to null when the run was
+ * abandoned through `isCancelled`. On timeout the job is cancelled.
+ */
+export const pollReconstruction = async (
+    provider: ReconstructionProvider,
+    job: ReconstructionJob,
+    { isCancelled, onStatus, maxWaitMs = Infinity, submittedAt = Date.now() }: PollReconstructionOptions,
+): Promise<ReconstructionResult | null> => {
+    let attempt = 0;
+    let failures = 0;
+
+    while (true) {
+        if (isCancelled()) return null;
+        if (Date.now() - submittedAt > maxWaitMs) {
+            provider.cancel(job).catch(e => console.error("Failed to cancel reconstruction job", e));
+            throw new Error(`${provider.label} did not finish within ${Math.round(maxWaitMs / 60000)} minutes. The job was cancelled; try again or raise the maximum wait in Generation Settings.`);
+        }
+
+        let status: ReconstructionStatus | null = null;
+        try {
+            status = await provider.getStatus(job);
+            failures = 0;
+        } catch (e) {
+            if (!isTransientError(e) || ++failures > MAX_TRANSIENT_FAILURES) throw e;
+            console.warn(`Status check failed (${failures}/${MAX_TRANSIENT_FAILURES}), retrying:`, e);
+        }
+
+        if (status) {
+            if (isCancelled()) return null;
+            onStatus?.(status);
+            if (status.state === 'COMPLETED') {
+                return await provider.getResult(job);
+            } else if (status.state === 'ERROR') {
+                throw new Error(status.logs?.join('\n') || 'Polling error.');
+            }
+        }
+        await sleep(nextPollDelay(attempt++, provider.pollIntervalMs));
+    }
+};
+
+/**
+ * Submits the views and polls the provider until the job completes. Resolves
+ * to null when the run was abandoned through `isCancelled`.
+ */
+export const runReconstruction = async (
+    provider: ReconstructionProvider,
+    views: ReconstructionViews,
+    { onSubmitted, ...options }: RunReconstructionOptions,
+): Promise<ReconstructionResult | null> => {
+    const missing = provider.requiredViews.filter(view => !views[view]);
+    if (missing.length > 0) {
+        throw new Error(`${provider.label} needs the following views: ${missing.join(', ')}.`);
+    }
+
+    const job = await provider.submit(views);
+    const submittedAt = Date.now();
+    if (options.isCancelled()) {
+        provider.cancel(job).catch(e => console.error("Failed to cancel reconstruction job", e));
+        return null;
+    }
+    onSubmitted?.(job);
+    return pollReconstruction(provider, job, { ...options, submittedAt });
+};
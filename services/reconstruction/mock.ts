@@ -0,0 +1,53 @@
+import { buildMockGlb } from './mockModel';
+import type { ReconstructionJob, ReconstructionProvider, ReconstructionStatus } from './types';
+
+interface MockJobState {
+    submittedAt: number;
+    cancelled: boolean;
+}
+
+const MOCK_QUEUE_MS = 1500;
+const MOCK_PROCESSING_MS = 3000;
+
+const jobs = new Map<string, MockJobState>();
+
+/**
+ * Offline stand-in for a reconstruction backend. It walks a job through the
+ * same queue states as fal and always returns the bundled mock GLB.
+ */
+export const mockProvider: ReconstructionProvider = {
+    id: 'mock',
+    label: 'Local mock (offline)',
+    description: 'Returns a bundled placeholder GLB without calling any service.',
+    requiredViews: ['front'],
+    supportedViews: ['front', 'back', 'left', 'right', 'top', 'three_quarter'],
+    pollIntervalMs: 1000,
+    // Jobs only exist in this page's memory.
+    resumable: false,
+
+    async submit() {
+        const requestId = `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        jobs.set(requestId, { submittedAt: Date.now(), cancelled: false });
+        return { requestId };
+    },
+
+    async getStatus(job: ReconstructionJob): Promise<ReconstructionStatus> {
+        const state = jobs.get(job.requestId);
+        if (!state || state.cancelled) return { state: 'ERROR', logs: ['Mock job was cancelled or does not exist.'] };
+        const elapsed = Date.now() - state.submittedAt;
+        if (elapsed < MOCK_QUEUE_MS) return { state: 'IN_QUEUE', queuePosition: 0 };
+        if (elapsed < MOCK_QUEUE_MS + MOCK_PROCESSING_MS) return { state: 'IN_PROGRESS', logs: ['Reconstructing mock mesh...'] };
+        return { state: 'COMPLETED' };
+    },
+
+    async getResult(job: ReconstructionJob) {
+        jobs.delete(job.requestId);
+        const blob = new Blob([buildMockGlb()], { type: 'model/gltf-binary' });
+        return { modelUrl: URL.createObjectURL(blob) };
+    },
+
+    async cancel(job: ReconstructionJob) {
+        const state = jobs.get(job.requestId);
+        if (state) state.cancelled = true;
+    },
+};
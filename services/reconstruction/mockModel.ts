@@ -0,0 +1,121 @@
+/**
+ * A small product-like box (0.4 x 0.3 x 0.25) encoded as a binary glTF. It is
+ * assembled in code rather than shipped as a file so the mock provider works
+ * without a network and without any asset pipeline.
+ */
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const buildBoxGeometry = (width: number, height: number, depth: number) => {
+    const [hx, hy, hz] = [width / 2, height / 2, depth / 2];
+    // Each face: normal, then four corners counter-clockwise when viewed from outside.
+    const faces: [number[], number[][]][] = [
+        [[0, 0, 1], [[-hx, -hy, hz], [hx, -hy, hz], [hx, hy, hz], [-hx, hy, hz]]],
+        [[0, 0, -1], [[hx, -hy, -hz], [-hx, -hy, -hz], [-hx, hy, -hz], [hx, hy, -hz]]],
+        [[1, 0, 0], [[hx, -hy, hz], [hx, -hy, -hz], [hx, hy, -hz], [hx, hy, hz]]],
+        [[-1, 0, 0], [[-hx, -hy, -hz], [-hx, -hy, hz], [-hx, hy, hz], [-hx, hy, -hz]]],
+        [[0, 1, 0], [[-hx, hy, hz], [hx, hy, hz], [hx, hy, -hz], [-hx, hy, -hz]]],
+        [[0, -1, 0], [[-hx, -hy, -hz], [hx, -hy, -hz], [hx, -hy, hz], [-hx, -hy, hz]]],
+    ];
+    const uvCorners = [[0, 1], [1, 1], [1, 0], [0, 0]];
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+
+    faces.forEach(([normal, corners], faceIndex) => {
+        corners.forEach((corner, i) => {
+            positions.push(...corner);
+            normals.push(...normal);
+            uvs.push(...uvCorners[i]);
+        });
+        const base = faceIndex * 4;
+        indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    });
+
+    return {
+        positions: new Float32Array(positions),
+        normals: new Float32Array(normals),
+        uvs: new Float32Array(uvs),
+        indices: new Uint16Array(indices),
+        min: [-hx, -hy, -hz],
+        max: [hx, hy, hz],
+    };
+};
+
+const padTo4 = (length: number) => (length + 3) & ~3;
+
+export const buildMockGlb = (): ArrayBuffer => {
+    const box = buildBoxGeometry(0.4, 0.3, 0.25);
+    const arrays = [box.positions, box.normals, box.uvs, box.indices];
+
+    const bufferViews: any[] = [];
+    let byteOffset = 0;
+    arrays.forEach((array, i) => {
+        bufferViews.push({
+            buffer: 0,
+            byteOffset,
+            byteLength: array.byteLength,
+            target: i === arrays.length - 1 ? 34963 : 34962,
+        });
+        byteOffset = padTo4(byteOffset + array.byteLength);
+    });
+    const binLength = byteOffset;
+    const vertexCount = box.positions.length / 3;
+
+    const gltf = {
+        asset: { version: '2.0', generator: 'Instant 3D Model Maker mock provider' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'MockProduct' }],
+        meshes: [{
+            name: 'MockProduct',
+            primitives: [{
+                attributes: { POSITION: 0, NORMAL: 1, TEXCOORD_0: 2 },
+                indices: 3,
+                material: 0,
+            }],
+        }],
+        materials: [{
+            name: 'MockMaterial',
+            pbrMetallicRoughness: { baseColorFactor: [0.42, 0.35, 0.8, 1], metallicFactor: 0.1, roughnessFactor: 0.6 },
+        }],
+        accessors: [
+            { bufferView: 0, componentType: 5126, count: vertexCount, type: 'VEC3', min: box.min, max: box.max },
+            { bufferView: 1, componentType: 5126, count: vertexCount, type: 'VEC3' },
+            { bufferView: 2, componentType: 5126, count: vertexCount, type: 'VEC2' },
+            { bufferView: 3, componentType: 5123, count: box.indices.length, type: 'SCALAR' },
+        ],
+        bufferViews,
+        buffers: [{ byteLength: binLength }],
+    };
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(gltf));
+    const jsonLength = padTo4(jsonBytes.length);
+    const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+    const glb = new ArrayBuffer(totalLength);
+    const view = new DataView(glb);
+    const bytes = new Uint8Array(glb);
+
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, CHUNK_JSON, true);
+    bytes.set(jsonBytes, 20);
+    bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, CHUNK_BIN, true);
+    arrays.forEach((array, i) => {
+        bytes.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), binStart + 8 + bufferViews[i].byteOffset);
+    });
+
+    return glb;
+};
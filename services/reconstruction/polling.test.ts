@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { pollReconstruction } from './index';
+import { MAX_POLL_INTERVAL_MS, MAX_TRANSIENT_FAILURES, nextPollDelay, TransientReconstructionError } from './polling';
+import type { ReconstructionProvider, ReconstructionStatus } from './types';
+
+const POLL_INTERVAL_MS = 1000;
+const job = { requestId: 'job-1' };
+
+/** A provider whose status checks answer from `statuses` in turn, repeating the last; Errors are thrown. */
+const stubProvider = (statuses: (ReconstructionStatus | Error)[]) => {
+    const checkedAt: number[] = [];
+    let index = 0;
+    const provider: ReconstructionProvider = {
+        id: 'stub',
+        label: 'Stub',
+        description: '',
+        requiredViews: ['front'],
+        supportedViews: ['front'],
+        pollIntervalMs: POLL_INTERVAL_MS,
+        resumable: true,
+        submit: vi.fn(async () => job),
+        getStatus: vi.fn(async () => {
+            checkedAt.push(Date.now());
+            const status = statuses[Math.min(index++, statuses.length - 1)];
+            if (status instanceof Error) throw status;
+            return status;
+        }),
+        getResult: vi.fn(async () => ({ modelUrl: 'https://example.com/model.glb' })),
+        cancel: vi.fn(async () => {}),
+    };
+    return { provider, checkedAt };
+};
+
+const inProgress: ReconstructionStatus = { state: 'IN_PROGRESS' };
+const completed: ReconstructionStatus = { state: 'COMPLETED' };
+
+describe('nextPollDelay', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('grows by half each poll until it reaches the cap', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect([0, 1, 2, 3].map(attempt => nextPollDelay(attempt, 1000))).toEqual([1000, 1500, 2250, 3375]);
+        expect(nextPollDelay(50, 1000)).toBe(MAX_POLL_INTERVAL_MS);
+        expect(nextPollDelay(3, 1000, 2000)).toBe(2000);
+    });
+
+    it('adds up to 25% jitter either way', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect(nextPollDelay(0, 1000)).toBe(750);
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(nextPollDelay(0, 1000)).toBeCloseTo(1250, 2);
+        expect(nextPollDelay(50, 1000)).toBeLessThanOrEqual(MAX_POLL_INTERVAL_MS * 1.25);
+    });
+});
+
+describe('pollReconstruction', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        // Retried status checks are logged as warnings.
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('backs off between status checks and returns the result once the job completes', async () => {
+        const { provider, checkedAt } = stubProvider([{ state: 'IN_QUEUE', queuePosition: 2 }, inProgress, inProgress, completed]);
+        const onStatus = vi.fn();
+        const start = Date.now();
+        const result = pollReconstruction(provider, job, { isCancelled: () => false, onStatus });
+        await vi.runAllTimersAsync();
+
+        expect(await result).toEqual({ modelUrl: 'https://example.com/model.glb' });
+        expect(checkedAt.map(at => at - start)).toEqual([0, 1000, 2500, 4750]);
+        expect(onStatus).toHaveBeenCalledTimes(4);
+        expect(onStatus).toHaveBeenNthCalledWith(1, { state: 'IN_QUEUE', queuePosition: 2 });
+    });
+
+    it('fails with the provider logs when the job errors', async () => {
+        const { provider } = stubProvider([{ state: 'ERROR', logs: ['Out of memory'] }]);
+        await expect(pollReconstruction(provider, job, { isCancelled: () => false })).rejects.toThrow('Out of memory');
+    });
+
+    it('cancels the job and fails once maxWaitMs has passed', async () => {
+        const { provider } = stubProvider([inProgress]);
+        const result = pollReconstruction(provider, job, { isCancelled: () => false, maxWaitMs: 60_000 });
+        const assertion = expect(result).rejects.toThrow('Stub did not finish within 1 minutes');
+        await vi.runAllTimersAsync();
+        await assertion;
+        expect(provider.cancel).toHaveBeenCalledWith(job);
+    });
+
+    it('counts the wait from when a resumed job was submitted', async () => {
+        const { provider } = stubProvider([inProgress]);
+        await expect(pollReconstruction(provider, job, { isCancelled: () => false, maxWaitMs: 60_000, submittedAt: Date.now() - 61_000 }))
+            .rejects.toThrow('did not finish');
+        expect(provider.getStatus).not.toHaveBeenCalled();
+        expect(provider.cancel).toHaveBeenCalledWith(job);
+    });
+
+    it('retries transient failures and gives up after too many in a row', async () => {
+        const { provider } = stubProvider([new TransientReconstructionError('Status 503')]);
+        const result = pollReconstruction(provider, job, { isCancelled: () => false });
+        const assertion = expect(result).rejects.toThrow('Status 503');
+        await vi.runAllTimersAsync();
+        await assertion;
+        expect(provider.getStatus).toHaveBeenCalledTimes(MAX_TRANSIENT_FAILURES + 1);
+    });
+
+    it('resets the failure count after a successful status check', async () => {
+        const failure = new TypeError('Failed to fetch');
+        const failures = Array<Error>(MAX_TRANSIENT_FAILURES).fill(failure);
+        const { provider } = stubProvider([...failures, inProgress, ...failures, completed]);
+        const result = pollReconstruction(provider, job, { isCancelled: () => false });
+        await vi.runAllTimersAsync();
+        expect(await result).toEqual({ modelUrl: 'https://example.com/model.glb' });
+    });
+
+    it('fails at once on an error that is not transient', async () => {
+        const { provider } = stubProvider([new Error('Unauthorized')]);
+        await expect(pollReconstruction(provider, job, { isCancelled: () => false })).rejects.toThrow('Unauthorized');
+        expect(provider.getStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves to null once cancelled, without fetching the result', async () => {
+        let cancelled = false;
+        const { provider } = stubProvider([inProgress, inProgress, completed]);
+        const result = pollReconstruction(provider, job, { isCancelled: () => cancelled });
+        await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+        cancelled = true;
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBeNull();
+        expect(provider.getStatus).toHaveBeenCalledTimes(2);
+        expect(provider.getResult).not.toHaveBeenCalled();
+    });
+});
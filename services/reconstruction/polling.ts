@@ -0,0 +1,23 @@
+/**
+ * Backoff for polling reconstruction jobs. Status checks start at the
+ * provider's poll interval and slow down exponentially, with jitter so many
+ * tabs or batch items do not poll in lockstep.
+ */
+
+export const MAX_POLL_INTERVAL_MS = 30_000;
+// Consecutive failed status checks tolerated before the run is given up.
+export const MAX_TRANSIENT_FAILURES = 6;
+
+/** A failure worth retrying: network errors, rate limits and 5xx responses. */
+export class TransientReconstructionError extends Error {}
+
+export const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/** Delay before poll number `attempt` (0-based): exponential growth, capped, with ±25% jitter. */
+export const nextPollDelay = (attempt: number, baseMs: number, maxMs = MAX_POLL_INTERVAL_MS) => {
+    const delay = Math.min(maxMs, baseMs * 1.5 ** attempt);
+    return delay * (0.75 + Math.random() * 0.5);
+};
+
+// fetch() rejects with a TypeError when the request never reached the server.
+export const isTransientError = (e: unknown) => e instanceof TransientReconstructionError || e instanceof TypeError;
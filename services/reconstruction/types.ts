@@ -0,0 +1,42 @@
+export type ViewKey = 'front' | 'back' | 'left' | 'right' | 'top' | 'three_quarter';
+
+// Data URLs of the generated view images, keyed by view.
+export type ReconstructionViews = Partial<Record<ViewKey, string>>;
+
+export interface ReconstructionJob {
+    requestId: string;
+    statusUrl?: string;
+    responseUrl?: string;
+    cancelUrl?: string;
+}
+
+export type ReconstructionState = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'ERROR';
+
+export interface ReconstructionStatus {
+    state: ReconstructionState;
+    logs?: string[];
+    // Jobs ahead of this one while IN_QUEUE, when the backend reports it.
+    queuePosition?: number;
+}
+
+export interface ReconstructionResult {
+    modelUrl: string;
+}
+
+export interface ReconstructionProvider {
+    id: string;
+    label: string;
+    description: string;
+    // Views the backend needs before a job can be submitted.
+    requiredViews: ViewKey[];
+    // Every view the backend can make use of; others are not generated.
+    supportedViews: ViewKey[];
+    // First poll delay; later polls back off exponentially from it.
+    pollIntervalMs: number;
+    // Whether a submitted job can still be polled after a page reload.
+    resumable: boolean;
+    submit(views: ReconstructionViews): Promise<ReconstructionJob>;
+    getStatus(job: ReconstructionJob): Promise<ReconstructionStatus>;
+    getResult(job: ReconstructionJob): Promise<ReconstructionResult>;
+    cancel(job: ReconstructionJob): Promise<void>;
+}
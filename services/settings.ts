@@ -0,0 +1,68 @@
+import type { ViewKey } from './reconstruction';
+import { readJson, writeJson } from '../utils/storage';
+
+/**
+ * User-editable generation settings, persisted in localStorage. A copy of the
+ * settings used is stored with every generation in the history.
+ */
+
+const SETTINGS_STORAGE_KEY = 'generation-settings';
+const TEMPLATES_STORAGE_KEY = 'prompt-templates';
+
+export interface GenerationSettings {
+    views: ViewKey[];
+    // Supports the {viewName} and {backgroundColor} placeholders.
+    promptTemplate: string;
+    backgroundColor: string;
+    imageModel: string;
+    // Remove the background and crop input photos on-device before generating views.
+    preprocessInputs: boolean;
+    // Give up on a reconstruction job that has not finished after this long.
+    maxWaitMinutes: number;
+    // Compare renders of the finished model with the views and photos.
+    fidelityCheck: boolean;
+    // Scores below this percentage are flagged.
+    fidelityThreshold: number;
+    // Reconstruct once more when the model scores below the threshold.
+    fidelityAutoRetry: boolean;
+}
+
+export interface PromptTemplate {
+    name: string;
+    template: string;
+}
+
+export const IMAGE_MODELS = [
+    { id: 'gemini-2.5-flash-image-preview', label: 'Gemini 2.5 Flash Image (preview)' },
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+];
+
+export const BACKGROUND_COLORS = ['white', 'light gray', 'black', 'chroma-key green'];
+
+export const DEFAULT_PROMPT_TEMPLATE = `Using the attached image(s) as a reference, generate a single, high-resolution, photorealistic image of the object's **{viewName}**. The object must be centered on a clean, plain {backgroundColor} background, as though it was photographed in a whitespace studio with professional lighting. Ensure the lighting is neutral and clearly shows the object's details. The final image must be a 1:1 square aspect ratio. Do not include any text, labels, or watermarks.`;
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+    views: ['front', 'back', 'left'],
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    backgroundColor: 'white',
+    imageModel: IMAGE_MODELS[0].id,
+    preprocessInputs: false,
+    maxWaitMinutes: 20,
+    fidelityCheck: true,
+    fidelityThreshold: 50,
+    fidelityAutoRetry: false,
+};
+
+export const renderPromptTemplate = (template: string, values: { viewName: string; backgroundColor: string }) =>
+    template.replace(/\{(viewName|backgroundColor)\}/g, (_, key: keyof typeof values) => values[key]);
+
+export const loadSettings = (): GenerationSettings => {
+    const stored = readJson<Partial<GenerationSettings>>(SETTINGS_STORAGE_KEY, {});
+    return { ...DEFAULT_SETTINGS, ...stored };
+};
+
+export const saveSettings = (settings: GenerationSettings) => writeJson(SETTINGS_STORAGE_KEY, settings);
+
+export const loadPromptTemplates = (): PromptTemplate[] => readJson<PromptTemplate[]>(TEMPLATES_STORAGE_KEY, []);
+
+export const savePromptTemplates = (templates: PromptTemplate[]) => writeJson(TEMPLATES_STORAGE_KEY, templates);
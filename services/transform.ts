@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+
+/**
+ * Orientation and placement of generated models. Reconstruction backends
+ * often return meshes that are slightly tilted, floating or with their origin
+ * far from the base. Everything here changes only the model root's rotation
+ * and position, so exporters bake the result into every format.
+ */
+
+export type TransformMode = 'rotate' | 'translate';
+
+/** The model root's rotation and position, as set in the viewer. */
+export interface ModelTransform {
+    quaternion: [number, number, number, number];
+    // At the model's original scale, so it survives changes to the scale calibration.
+    position: [number, number, number];
+}
+
+// Kept outside userData so it never ends up in exported glTF extras.
+const originalTransforms = new WeakMap<any, { position: any; quaternion: any }>();
+
+// Vertices sampled when looking for the upright orientation; enough for the bounding box.
+const UPRIGHT_SAMPLE_POINTS = 20000;
+// How far snapping upright may turn the model about each axis.
+const UPRIGHT_MAX_ANGLE = Math.PI / 4;
+
+const rememberOriginal = (model: any) => {
+    if (!originalTransforms.has(model)) {
+        originalTransforms.set(model, { position: model.position.clone(), quaternion: model.quaternion.clone() });
+    }
+};
+
+/**
+ * Bounding box in the coordinate space of the model's parent, i.e. including
+ * the model's own transform. Measured from the vertices, as the geometry's own
+ * bounding box overestimates once the model is turned.
+ */
+export const boundsInParent = (model: any) => {
+    model.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(model, true);
+    if (model.parent) box.applyMatrix4(model.parent.matrixWorld.clone().invert());
+    return box;
+};
+
+/** Reads the model's current transform; `scale` is the calibration factor applied to it. */
+export const readTransform = (model: any, scale = 1): ModelTransform => ({
+    quaternion: model.quaternion.toArray(),
+    position: model.position.clone().divideScalar(scale).toArray(),
+});
+
+/** Sets the model's rotation and position. Passing null restores them as loaded. */
+export const applyTransform = (model: any, transform: ModelTransform | null, scale = 1) => {
+    rememberOriginal(model);
+    const original = originalTransforms.get(model)!;
+    if (transform) {
+        model.quaternion.fromArray(transform.quaternion);
+        model.position.fromArray(transform.position);
+    } else {
+        model.quaternion.copy(original.quaternion);
+        model.position.copy(original.position);
+    }
+    model.position.multiplyScalar(scale);
+    model.updateMatrixWorld(true);
+};
+
+/** Moves the model up or down so its lowest point is at y = 0. */
+export const placeOnGround = (model: any) => {
+    rememberOriginal(model);
+    model.position.y -= boundsInParent(model).min.y;
+    model.updateMatrixWorld(true);
+};
+
+/** Moves the model so the center of its base is at the origin, which becomes its pivot in exported files. */
+export const centerPivotAtBase = (model: any) => {
+    rememberOriginal(model);
+    const box = boundsInParent(model);
+    const center = box.getCenter(new THREE.Vector3());
+    model.position.x -= center.x;
+    model.position.y -= box.min.y;
+    model.position.z -= center.z;
+    model.updateMatrixWorld(true);
+};
+
+/** Up to `limit` vertex positions of the model, in its parent's space, as a flat xyz array. */
+const sampleVertices = (model: any, limit: number) => {
+    model.updateMatrixWorld(true);
+    const toParent = model.parent ? model.parent.matrixWorld.clone().invert() : new THREE.Matrix4();
+    const meshes: any[] = [];
+    let total = 0;
+    model.traverse((object: any) => {
+        if (!object.isMesh || !object.geometry.attributes.position) return;
+        meshes.push(object);
+        total += object.geometry.attributes.position.count;
+    });
+    const stride = Math.max(1, Math.ceil(total / limit));
+    const points: number[] = [];
+    const vertex = new THREE.Vector3();
+    meshes.forEach(mesh => {
+        const matrix = toParent.clone().multiply(mesh.matrixWorld);
+        const positions = mesh.geometry.attributes.position;
+        for (let i = 0; i < positions.count; i += stride) {
+            vertex.fromBufferAttribute(positions, i).applyMatrix4(matrix);
+            points.push(vertex.x, vertex.y, vertex.z);
+        }
+    });
+    return points;
+};
+
+/** Volume of the axis-aligned bounding box of `points` after `rotation`. */
+const boundingVolume = (points: number[], rotation: any) => {
+    const e = rotation.elements;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < points.length; i += 3) {
+        const x = points[i], y = points[i + 1], z = points[i + 2];
+        const rotated = [e[0] * x + e[4] * y + e[8] * z, e[1] * x + e[5] * y + e[9] * z, e[2] * x + e[6] * y + e[10] * z];
+        for (let axis = 0; axis < 3; axis++) {
+            if (rotated[axis] < min[axis]) min[axis] = rotated[axis];
+            if (rotated[axis] > max[axis]) max[axis] = rotated[axis];
+        }
+    }
+    return (max[0] - min[0]) * (max[1] - min[1]) * (max[2] - min[2]);
+};
+
+/**
+ * Straightens a tilted model: turns it (by at most 45° about each axis) to the
+ * orientation with the smallest bounding box, which for most products is the
+ * one standing upright and squared to the front view. Rotates about the
+ * model's center, so it stays where it is.
+ */
+export const snapUpright = (model: any) => {
+    rememberOriginal(model);
+    const points = sampleVertices(model, UPRIGHT_SAMPLE_POINTS);
+    if (points.length === 0) return;
+
+    const rotation = new THREE.Matrix4();
+    const volumeAt = (angles: number[]) => boundingVolume(points, rotation.makeRotationFromEuler(new THREE.Euler(angles[0], angles[1], angles[2])));
+    let best = [0, 0, 0];
+    let bestVolume = volumeAt(best);
+    // Coordinate descent with a shrinking step, from 8° down to a few hundredths of a degree.
+    for (let step = Math.PI / 22.5; step > 0.001; step /= 2) {
+        for (let improved = true; improved;) {
+            improved = false;
+            for (let axis = 0; axis < 3; axis++) {
+                for (const direction of [1, -1]) {
+                    const candidate = [...best];
+                    candidate[axis] += direction * step;
+                    if (Math.abs(candidate[axis]) > UPRIGHT_MAX_ANGLE) continue;
+                    const volume = volumeAt(candidate);
+                    if (volume < bestVolume * (1 - 1e-6)) {
+                        best = candidate;
+                        bestVolume = volume;
+                        improved = true;
+                    }
+                }
+            }
+        }
+    }
+
+    const turn = new THREE.Quaternion().setFromEuler(new THREE.Euler(best[0], best[1], best[2]));
+    const center = boundsInParent(model).getCenter(new THREE.Vector3());
+    model.position.sub(center).applyQuaternion(turn).add(center);
+    model.quaternion.premultiply(turn);
+    model.updateMatrixWorld(true);
+};
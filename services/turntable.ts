@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { CameraBookmark, StudioViewer, ViewerOptions } from './viewer/studioViewer';
+import { withOffscreenViewer } from './viewer/offscreen';
+import { ViewerBackground } from './viewer/presets';
+import { buildGifPalette, GifEncoder } from '../utils/gif';
+import { createZip } from '../utils/zip';
+
+export type TurntableFormat = 'webm' | 'gif' | 'png-sequence' | 'poster';
+
+export const TURNTABLE_FORMATS: { id: TurntableFormat; label: string; description: string }[] = [
+    { id: 'webm', label: 'Video (.webm)', description: 'One full turn, for listings that accept video.' },
+    { id: 'gif', label: 'Animated GIF', description: 'One full turn; 256 colors, so keep the resolution modest.' },
+    { id: 'png-sequence', label: 'PNG sequence (.zip)', description: 'Numbered frames for 360° spin widgets.' },
+    { id: 'poster', label: 'Poster still (.png)', description: 'A single image from the current camera view.' },
+];
+
+export const TURNTABLE_SIZES = [512, 1024, 2048, 4096];
+export const TURNTABLE_FRAME_COUNTS = [24, 36, 72, 120];
+export const TURNTABLE_FRAME_RATES = [12, 24, 30];
+
+export interface TurntableOptions {
+    format: TurntableFormat;
+    // Square output, in pixels.
+    size: number;
+    // Frames per full turn.
+    frames: number;
+    fps: number;
+    background: ViewerBackground;
+}
+
+export interface TurntableResult {
+    blob: Blob;
+    filename: string;
+}
+
+// Frames sampled to build the shared GIF palette.
+const GIF_PALETTE_SAMPLES = 4;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Orbits the camera around the vertical axis through its target and renders. */
+const renderAngle = (viewer: StudioViewer, start: any, angle: number) => {
+    const target = viewer.controls.target;
+    const offset = start.clone().sub(target).applyAxisAngle(new THREE.Vector3(0, 1, 0), angle);
+    viewer.camera.position.copy(target).add(offset);
+    viewer.camera.lookAt(target);
+    viewer.renderer.render(viewer.scene, viewer.camera);
+};
+
+const readPixels = (viewer: StudioViewer, context: CanvasRenderingContext2D) => {
+    const { width, height } = context.canvas;
+    context.clearRect(0, 0, width, height);
+    context.drawImage(viewer.renderer.domElement, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height);
+};
+
+const recordWebm = async (viewer: StudioViewer, options: TurntableOptions, onProgress: (done: number) => void) => {
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+    const canvas: HTMLCanvasElement = viewer.renderer.domElement;
+    // Frame rate 0: a frame is only captured when requested, one per rendered angle.
+    const stream = canvas.captureStream(0);
+    const track: any = stream.getVideoTracks()[0];
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: Math.min(options.size * options.size * options.fps * 0.15, 40_000_000) });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+    const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+    const start = viewer.camera.position.clone();
+    recorder.start();
+    for (let i = 0; i < options.frames; i++) {
+        renderAngle(viewer, start, (i / options.frames) * Math.PI * 2);
+        track.requestFrame();
+        onProgress(i + 1);
+        // MediaRecorder timestamps frames by wall clock, so pace them at the target rate.
+        await sleep(1000 / options.fps);
+    }
+    recorder.stop();
+    await stopped;
+    track.stop();
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+const encodeGif = async (viewer: StudioViewer, options: TurntableOptions, onProgress: (done: number) => void) => {
+    const context = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Could not get canvas context');
+    context.canvas.width = options.size;
+    context.canvas.height = options.size;
+
+    const start = viewer.camera.position.clone();
+    const angleOf = (frame: number) => (frame / options.frames) * Math.PI * 2;
+    const samples: ImageData[] = [];
+    for (let i = 0; i < GIF_PALETTE_SAMPLES; i++) {
+        renderAngle(viewer, start, angleOf(Math.floor((i * options.frames) / GIF_PALETTE_SAMPLES)));
+        samples.push(readPixels(viewer, context));
+    }
+    const palette = buildGifPalette(samples, options.background.type === 'transparent');
+
+    const encoder = new GifEncoder(options.size, options.size, palette, 1000 / options.fps);
+    for (let i = 0; i < options.frames; i++) {
+        renderAngle(viewer, start, angleOf(i));
+        encoder.addFrame(readPixels(viewer, context));
+        onProgress(i + 1);
+        // Yield so the progress can paint between frames.
+        await sleep(0);
+    }
+    return encoder.finish();
+};
+
+const capturePngSequence = async (viewer: StudioViewer, options: TurntableOptions, baseName: string, onProgress: (done: number) => void) => {
+    const digits = String(options.frames - 1).length;
+    const start = viewer.camera.position.clone();
+    const entries = [];
+    for (let i = 0; i < options.frames; i++) {
+        renderAngle(viewer, start, (i / options.frames) * Math.PI * 2);
+        entries.push({ path: `${baseName}_${String(i).padStart(digits, '0')}.png`, data: await viewer.capture() });
+        onProgress(i + 1);
+    }
+    return createZip(entries);
+};
+
+/**
+ * Renders marketing assets from the loaded model in the browser: a 360°
+ * turntable as WebM, GIF or PNG frames, or a single poster still. The turn
+ * and the poster start from `camera` (the on-screen view) when given.
+ */
+export const renderTurntable = async (
+    model: any,
+    viewerOptions: ViewerOptions,
+    options: TurntableOptions,
+    baseName: string,
+    camera: CameraBookmark | null,
+    onProgress: (done: number, total: number) => void = () => {},
+): Promise<TurntableResult> => {
+    const total = options.format === 'poster' ? 1 : options.frames;
+    const progress = (done: number) => onProgress(done, total);
+
+    const renderOptions: ViewerOptions = {
+        ...viewerOptions,
+        background: options.background,
+        autoRotate: false,
+        displayMode: 'shaded',
+        wireframe: false,
+        showDimensions: false,
+    };
+    return withOffscreenViewer(model, renderOptions, options.size, async (viewer) => {
+        if (camera) viewer.applyBookmark(camera);
+        switch (options.format) {
+            case 'webm':
+                return { blob: await recordWebm(viewer, options, progress), filename: `${baseName}-turntable.webm` };
+            case 'gif':
+                return { blob: await encodeGif(viewer, options, progress), filename: `${baseName}-turntable.gif` };
+            case 'png-sequence':
+                return { blob: await capturePngSequence(viewer, options, baseName, progress), filename: `${baseName}-turntable-png.zip` };
+            case 'poster': {
+                const blob = await viewer.capture();
+                progress(1);
+                return { blob, filename: `${baseName}-poster-${options.size}.png` };
+            }
+        }
+    });
+};
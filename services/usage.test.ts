@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    checkBudget,
+    clearUsage,
+    estimateRunCost,
+    loadUsage,
+    periodStart,
+    recordUsage,
+    runCost,
+    saveBudget,
+    savePrices,
+    summarizeUsage,
+    UsageEntry,
+    URL_IMPORT_CALLS,
+    URL_IMPORT_MODEL,
+} from './usage';
+
+/** A localStorage kept in memory, like the browser's. */
+const memoryStorage = () => {
+    const values = new Map<string, string>();
+    return {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => { values.set(key, value); },
+        removeItem: (key: string) => { values.delete(key); },
+        clear: () => values.clear(),
+    };
+};
+
+const entry = (patch: Partial<UsageEntry>): UsageEntry => ({
+    id: 'entry', at: 0, service: 'gemini', model: 'image', operation: 'View image', count: 1, durationMs: 100, cost: 0, ok: true, ...patch,
+});
+
+describe('usage', () => {
+    beforeEach(() => {
+        vi.stubGlobal('localStorage', memoryStorage());
+        savePrices({ image: 0.04, model: 0.2, [URL_IMPORT_MODEL]: 0.001 });
+    });
+    afterEach(() => { vi.unstubAllGlobals(); });
+
+    describe('recordUsage', () => {
+        it('prices successful calls by their count and leaves failed calls unbilled', () => {
+            recordUsage({ service: 'gemini', model: 'image', operation: 'View image', count: 3, durationMs: 10, ok: true, runId: 'a' });
+            recordUsage({ service: 'gemini', model: 'image', operation: 'View image', durationMs: 10, ok: false, runId: 'a' });
+            const [billed, failed] = loadUsage();
+            expect(billed.cost).toBeCloseTo(0.12);
+            expect(failed).toMatchObject({ count: 1, cost: 0, ok: false });
+        });
+
+        it('prices models missing from the table at zero', () => {
+            recordUsage({ service: 'fal', model: 'unknown', operation: 'Reconstruction', durationMs: 10, ok: true });
+            expect(loadUsage()[0].cost).toBe(0);
+        });
+
+        it('clearUsage empties the ledger', () => {
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', durationMs: 10, ok: true });
+            clearUsage();
+            expect(loadUsage()).toEqual([]);
+        });
+    });
+
+    describe('runCost', () => {
+        it('sums every entry of the run, reruns included', () => {
+            recordUsage({ service: 'gemini', model: 'image', operation: 'View image', count: 4, durationMs: 10, ok: true, runId: 'a' });
+            recordUsage({ service: 'gemini', model: 'image', operation: 'View image', durationMs: 10, ok: true, runId: 'a' });
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', durationMs: 10, ok: true, runId: 'a' });
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', durationMs: 10, ok: true, runId: 'b' });
+            expect(runCost('a')).toBeCloseTo(0.4);
+            expect(runCost('b')).toBeCloseTo(0.2);
+            expect(runCost('missing')).toBe(0);
+        });
+    });
+
+    describe('summarizeUsage', () => {
+        it('totals cost and calls, overall and per model, since a time', () => {
+            const entries = [
+                entry({ at: 10, model: 'image', count: 4, cost: 0.16 }),
+                entry({ at: 20, model: 'model', cost: 0.2 }),
+                entry({ at: 30, model: 'image', cost: 0.04 }),
+            ];
+            const all = summarizeUsage(entries);
+            expect(all.cost).toBeCloseTo(0.4);
+            expect(all.calls).toBe(6);
+            expect(all.byModel.image).toEqual({ calls: 5, cost: expect.closeTo(0.2) });
+
+            const recent = summarizeUsage(entries, 20);
+            expect(recent.cost).toBeCloseTo(0.24);
+            expect(recent.calls).toBe(2);
+        });
+
+        it('starts a monthly period on the first of the month', () => {
+            expect(periodStart('month', new Date(2026, 4, 17, 12))).toBe(new Date(2026, 4, 1).getTime());
+            expect(periodStart('all')).toBe(0);
+        });
+    });
+
+    describe('estimateRunCost', () => {
+        it('adds the views, the reconstruction and a URL import', () => {
+            expect(estimateRunCost({ imageModel: 'image', views: 3 })).toBeCloseTo(0.12);
+            expect(estimateRunCost({ imageModel: 'image', views: 3, providerId: 'model' })).toBeCloseTo(0.32);
+            expect(estimateRunCost({ imageModel: 'image', views: 0, urlImport: true })).toBeCloseTo(0.001 * URL_IMPORT_CALLS);
+        });
+    });
+
+    describe('checkBudget', () => {
+        it('passes when there is no budget', () => {
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', count: 100, durationMs: 10, ok: true });
+            expect(checkBudget(1000)).toBeNull();
+        });
+
+        it('passes a run that fits and reports one that would exceed the limit', () => {
+            saveBudget({ limit: 1, period: 'all', mode: 'block' });
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', count: 4, durationMs: 10, ok: true });
+            expect(checkBudget(0.2)).toBeNull();
+
+            const check = checkBudget(0.3);
+            expect(check).toMatchObject({ spent: expect.closeTo(0.8), estimate: 0.3, budget: { mode: 'block' } });
+            expect(check!.message).toContain('would exceed the $1.00 budget');
+        });
+
+        it('only counts this month for a monthly budget', () => {
+            const budget = { limit: 1, period: 'month' as const, mode: 'warn' as const };
+            recordUsage({ service: 'fal', model: 'model', operation: 'Reconstruction', count: 4, durationMs: 10, ok: true });
+            const ledger = loadUsage().map(e => ({ ...e, at: periodStart('month') - 1 }));
+            localStorage.setItem('usage-ledger', JSON.stringify(ledger));
+            expect(checkBudget(0.9, budget)).toBeNull();
+            expect(checkBudget(1.1, budget)).not.toBeNull();
+        });
+    });
+});
@@ -0,0 +1,192 @@
+import type { ReconstructionProvider } from './reconstruction';
+import { IMAGE_MODELS } from './settings';
+import { readJson, writeJson } from '../utils/storage';
+
+/**
+ * A local ledger of the paid calls made to Gemini and fal, with estimated
+ * costs from an editable price table, and an optional spending budget. All
+ * of it is kept in this browser's localStorage.
+ */
+
+const LEDGER_STORAGE_KEY = 'usage-ledger';
+const PRICES_STORAGE_KEY = 'usage-prices';
+const BUDGET_STORAGE_KEY = 'usage-budget';
+// Oldest entries are dropped beyond this.
+const MAX_ENTRIES = 5000;
+
+// The model server/upstreams.ts asks for a product image when a page's markup has none; it makes two calls per import.
+export const URL_IMPORT_MODEL = 'gemini-2.5-flash-lite';
+export const URL_IMPORT_CALLS = 2;
+
+export type UsageService = 'gemini' | 'fal';
+
+export interface UsageEntry {
+    id: string;
+    // Date.now() when the call ended.
+    at: number;
+    service: UsageService;
+    // A Gemini model id, or a reconstruction provider id.
+    model: string;
+    operation: string;
+    // Billed calls covered by this entry.
+    count: number;
+    durationMs: number;
+    // Estimated USD, priced when recorded. Failed calls are not billed.
+    cost: number;
+    ok: boolean;
+    // The generation the call was made for, if any.
+    runId?: string;
+}
+
+export type UsageCall = Omit<UsageEntry, 'id' | 'at' | 'cost' | 'count' | 'durationMs' | 'ok'> & { count?: number };
+
+/** USD per call, keyed like `UsageEntry.model`. */
+export type PriceTable = Record<string, number>;
+
+export interface PricedModel {
+    id: string;
+    label: string;
+    unit: string;
+}
+
+/** Everything with a price: the image models, the URL import model and `providers`. */
+export const pricedModels = (providers: Pick<ReconstructionProvider, 'id' | 'label'>[]): PricedModel[] => [
+    ...IMAGE_MODELS.map(model => ({ id: model.id, label: model.label, unit: 'per view image' })),
+    { id: URL_IMPORT_MODEL, label: 'Gemini 2.5 Flash Lite (URL import)', unit: 'per call' },
+    ...providers.map(provider => ({ id: provider.id, label: provider.label, unit: 'per model' })),
+];
+
+// List prices at the time of writing; edit them in the Usage panel to match your plan.
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-2.5-flash-image-preview': 0.039,
+    'gemini-2.5-flash-image': 0.039,
+    [URL_IMPORT_MODEL]: 0.001,
+    'fal-hunyuan3d-multiview': 0.16,
+    'fal-trellis-multi': 0.02,
+    'mock': 0,
+};
+
+export type BudgetPeriod = 'month' | 'all';
+
+export interface UsageBudget {
+    // USD; null for no budget.
+    limit: number | null;
+    period: BudgetPeriod;
+    // `warn` asks before starting a run over budget, `block` refuses to start it.
+    mode: 'warn' | 'block';
+}
+
+export const DEFAULT_BUDGET: UsageBudget = { limit: null, period: 'month', mode: 'warn' };
+
+export interface UsageSummary {
+    cost: number;
+    calls: number;
+    byModel: Record<string, { calls: number; cost: number }>;
+}
+
+export interface BudgetCheck {
+    budget: UsageBudget;
+    spent: number;
+    estimate: number;
+    message: string;
+}
+
+const listeners = new Set<() => void>();
+
+export const subscribeUsage = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const loadUsage = (): UsageEntry[] => readJson<UsageEntry[]>(LEDGER_STORAGE_KEY, []);
+
+export const clearUsage = () => {
+    writeJson(LEDGER_STORAGE_KEY, []);
+    notify();
+};
+
+export const loadPrices = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJson<PriceTable>(PRICES_STORAGE_KEY, {}) });
+
+export const savePrices = (prices: PriceTable) => {
+    writeJson(PRICES_STORAGE_KEY, prices);
+    notify();
+};
+
+export const loadBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}) });
+
+export const saveBudget = (budget: UsageBudget) => {
+    writeJson(BUDGET_STORAGE_KEY, budget);
+    notify();
+};
+
+export const recordUsage = (call: UsageCall & { durationMs: number; ok: boolean }) => {
+    const count = call.count ?? 1;
+    const entry: UsageEntry = {
+        ...call,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        at: Date.now(),
+        count,
+        cost: call.ok ? (loadPrices()[call.model] ?? 0) * count : 0,
+    };
+    try {
+        writeJson(LEDGER_STORAGE_KEY, [...loadUsage(), entry].slice(-MAX_ENTRIES));
+    } catch (e) {
+        console.error("Failed to record usage:", e);
+    }
+    notify();
+};
+
+/** Runs `call`, recording its duration and whether it succeeded. */
+export const trackUsage = async <T>(details: UsageCall, call: () => Promise<T>): Promise<T> => {
+    const start = performance.now();
+    try {
+        const result = await call();
+        recordUsage({ ...details, durationMs: performance.now() - start, ok: true });
+        return result;
+    } catch (e) {
+        recordUsage({ ...details, durationMs: performance.now() - start, ok: false });
+        throw e;
+    }
+};
+
+export const periodStart = (period: BudgetPeriod, now = new Date()) =>
+    period === 'month' ? new Date(now.getFullYear(), now.getMonth(), 1).getTime() : 0;
+
+export const summarizeUsage = (entries: UsageEntry[], since = 0): UsageSummary => {
+    const summary: UsageSummary = { cost: 0, calls: 0, byModel: {} };
+    entries.filter(entry => entry.at >= since).forEach(entry => {
+        summary.cost += entry.cost;
+        summary.calls += entry.count;
+        const model = summary.byModel[entry.model] ?? { calls: 0, cost: 0 };
+        summary.byModel[entry.model] = { calls: model.calls + entry.count, cost: model.cost + entry.cost };
+    });
+    return summary;
+};
+
+/** Estimated cost of everything recorded for one generation, including reruns. */
+export const runCost = (runId: string) =>
+    loadUsage().filter(entry => entry.runId === runId).reduce((total, entry) => total + entry.cost, 0);
+
+/** Estimated cost of a run before it starts. URL imports are counted as if they need the Gemini fallback. */
+export const estimateRunCost = (run: { imageModel: string; views: number; providerId?: string; urlImport?: boolean }, prices = loadPrices()) =>
+    (prices[run.imageModel] ?? 0) * run.views
+    + (run.providerId ? prices[run.providerId] ?? 0 : 0)
+    + (run.urlImport ? (prices[URL_IMPORT_MODEL] ?? 0) * URL_IMPORT_CALLS : 0);
+
+export const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+
+/** Null when a run estimated at `estimate` fits the budget (or there is none). */
+export const checkBudget = (estimate: number, budget = loadBudget()): BudgetCheck | null => {
+    if (budget.limit === null) return null;
+    const spent = summarizeUsage(loadUsage(), periodStart(budget.period)).cost;
+    if (spent + estimate <= budget.limit) return null;
+    const period = budget.period === 'month' ? 'this month' : 'so far';
+    return {
+        budget,
+        spent,
+        estimate,
+        message: `This run is estimated at ${formatCost(estimate)}. With ${formatCost(spent)} spent ${period}, it would exceed the ${formatCost(budget.limit)} budget.`,
+    };
+};
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { generateViewImage } from './api';
+import { ExportResult, prepareExportRoot } from './exporters';
+import { referenceImages, GeneratedView, ViewImageGenerator } from './generation';
+import { createGenerationId, VariantRecord } from './historyStore';
+import { materialsOf } from './materials';
+import { browserGenerationServices } from './pipeline/browserServices';
+import { createGenerationPipeline, GenerationPipelineHooks } from './pipeline/generationPipeline';
+import type { ProductMetadata } from './productPage';
+import type { ReconstructionProvider } from './reconstruction';
+import type { GenerationSettings } from './settings';
+import { estimateRunCost } from './usage';
+import { loadModel } from './viewer/studioViewer';
+import { dataUrlToBlob } from '../utils/files';
+import { createZip, uniqueEntryName } from '../utils/zip';
+
+/**
+ * Colorway variants: the approved views are recolored by the image model and
+ * each colorway is reconstructed on its own, so one product can be shown and
+ * exported in all of its colors.
+ */
+
+export interface Colorway {
+    name: string;
+    // Colors and finishes, e.g. "navy canvas with tan leather trim".
+    description: string;
+}
+
+/** A finished variant in the app; `url` is an object URL of its model. */
+export interface ProductVariant extends VariantRecord {
+    url: string;
+}
+
+export interface VariantRequest {
+    colorway: Colorway;
+    // The approved views of the original run.
+    views: GeneratedView[];
+    // The original photos, kept with the run.
+    files: File[];
+    product: ProductMetadata | null;
+    settings: GenerationSettings;
+    provider: ReconstructionProvider;
+}
+
+// How the original model is listed next to its colorways.
+export const ORIGINAL_VARIANT_NAME = 'Original';
+
+const KHR_MATERIALS_VARIANTS = 'KHR_materials_variants';
+
+// Longest side of the texture copy that colors are measured on.
+const STATS_SIZE = 128;
+
+export const buildRecolorPrompt = (viewLabel: string, { name, description }: Colorway) =>
+    `Recolor the product in this ${viewLabel.toLowerCase()} to the "${name}" colorway${description.trim() ? `: ${description.trim()}` : ''}. `
+    + 'Change only the colors and finishes. Keep the shape, proportions, details, camera angle, lighting and background exactly the same.';
+
+/** Asks the image model for `view` in another colorway. */
+export const recolorView = async (generate: ViewImageGenerator, view: GeneratedView, colorway: Colorway, settings: GenerationSettings): Promise<GeneratedView> => {
+    // Views are data URLs, or object URLs when reopened from the history.
+    const blob = await (await fetch(view.url)).blob();
+    const images = await referenceImages([new File([blob], view.label, { type: blob.type })]);
+    const prompt = buildRecolorPrompt(view.label, colorway);
+    let image;
+    try {
+        image = await generate({ images, prompt, model: settings.imageModel });
+    } catch (e: any) {
+        throw new Error(`Gemini failed to recolor the ${view.label.toLowerCase()} to ${colorway.name}. ${e.message || ''}`.trim());
+    }
+    return { key: view.key, label: view.label, url: `data:${image.mimeType};base64,${image.data}`, prompt };
+};
+
+/**
+ * The generation pipeline for one colorway: its view step recolors the
+ * approved views instead of generating them from the photos. The fidelity
+ * check is left out, as the photos show the original colorway.
+ */
+export const createVariantPipeline = ({ colorway, views, files, product, settings, provider }: VariantRequest, hooks: GenerationPipelineHooks = {}) =>
+    createGenerationPipeline(
+        { files, photos: files, inputs: files, product, provider, settings: { ...settings, fidelityCheck: false, fidelityAutoRetry: false } },
+        {
+            ...browserGenerationServices,
+            generateViews: (_inputs, _views, viewSettings, runId) =>
+                Promise.all(views.map(view => recolorView(request => generateViewImage(request, runId), view, colorway, viewSettings))),
+        },
+        hooks,
+    );
+
+/** Estimated cost of one colorway: a recolored image per view and a reconstruction. */
+export const estimateVariantCost = (views: number, settings: GenerationSettings, provider: ReconstructionProvider) =>
+    estimateRunCost({ imageModel: settings.imageModel, views, providerId: provider.id });
+
+/** Assembles the stored variant from a finished variant run, converting the view data URLs to blobs. */
+export const buildVariantRecord = async (run: {
+    colorway: Colorway;
+    views: GeneratedView[];
+    model: Blob;
+    modelSourceUrl?: string;
+    requestId?: string | null;
+    cost: number | null;
+}): Promise<VariantRecord> => ({
+    id: createGenerationId(),
+    name: run.colorway.name,
+    description: run.colorway.description,
+    views: await Promise.all(run.views.map(async view => ({ key: view.key, label: view.label, blob: await dataUrlToBlob(view.url) }))),
+    prompts: run.views.map(view => ({ view: view.label, prompt: view.prompt })),
+    model: run.model,
+    modelSourceUrl: run.modelSourceUrl?.startsWith('blob:') ? undefined : run.modelSourceUrl,
+    requestId: run.requestId ?? undefined,
+    cost: run.cost,
+});
+
+export const showVariant = (record: VariantRecord): ProductVariant => ({ ...record, url: URL.createObjectURL(record.model) });
+
+/** The stored form of a variant shown in the app. */
+export const variantRecord = ({ url, ...record }: ProductVariant): VariantRecord => record;
+
+/** Every colorway's model as generated, in one ZIP of GLBs. */
+export const zipVariantModels = (models: { name: string; model: Blob }[], baseName: string) => {
+    const taken = new Set<string>();
+    return createZip(models.map(({ name, model }) => ({
+        path: uniqueEntryName(`${baseName}-${name}`, taken, '.glb'),
+        data: model,
+    })));
+};
+
+interface ColorStats {
+    // Per sRGB channel, 0-255.
+    mean: number[];
+    deviation: number[];
+}
+
+const pixelsOf = (image: any, width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(image, 0, 0, width, height);
+    return { canvas, ctx, pixels: ctx.getImageData(0, 0, width, height) };
+};
+
+const colorFactor = (material: any): number[] => material.color.getRGB(new THREE.Color(), THREE.SRGBColorSpace).toArray();
+
+/** Mean and spread of the material's base color, texture and color factor combined. */
+const colorStats = (material: any): ColorStats => {
+    const factor = colorFactor(material);
+    const flat = { mean: factor.map(f => f * 255), deviation: [0, 0, 0] };
+    const image = material.map?.image;
+    if (!image?.width) return flat;
+    const scale = Math.min(1, STATS_SIZE / Math.max(image.width, image.height));
+    const { data } = pixelsOf(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale))).pixels;
+    const sum = [0, 0, 0];
+    const squares = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        // Skip transparent pixels and the black padding between UV islands.
+        if (data[i + 3] === 0 || data[i] + data[i + 1] + data[i + 2] === 0) continue;
+        for (let c = 0; c < 3; c++) {
+            const value = data[i + c] * factor[c];
+            sum[c] += value;
+            squares[c] += value * value;
+        }
+        count++;
+    }
+    if (count === 0) return flat;
+    const mean = sum.map(total => total / count);
+    return { mean, deviation: squares.map((total, c) => Math.sqrt(Math.max(0, total / count - mean[c] ** 2))) };
+};
+
+/** A copy of `material` whose base color is shifted from `from`'s colors to `to`'s, keeping the texture's detail. */
+const recoloredMaterial = (material: any, from: ColorStats, to: ColorStats, variantName: string) => {
+    const recolored = material.clone();
+    recolored.name = `${material.name || 'Material'} (${variantName})`;
+    const image = material.map?.image;
+    if (!image?.width) {
+        recolored.color.setRGB(...to.mean.map(value => Math.min(1, value / 255)) as [number, number, number], THREE.SRGBColorSpace);
+        return recolored;
+    }
+
+    const factor = colorFactor(material);
+    // A flat colorway keeps the original's shading rather than flattening it.
+    const gain = [0, 1, 2].map(c => from.deviation[c] > 1 && to.deviation[c] > 1 ? to.deviation[c] / from.deviation[c] : 1);
+    const { canvas, ctx, pixels } = pixelsOf(image, image.width, image.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] * factor[c] - from.mean[c]) * gain[c] + to.mean[c];
+    }
+    ctx.putImageData(pixels, 0, 0);
+    // The color factor is baked into the new texture.
+    recolored.color.setRGB(1, 1, 1);
+    // A clone keeps the original's color space, wrapping, flipY and UV channel.
+    const map = material.map.clone();
+    map.source = new THREE.Source(canvas);
+    map.needsUpdate = true;
+    recolored.map = map;
+    return recolored;
+};
+
+/**
+ * GLTFExporter plugin writing `KHR_materials_variants`. `replacements` maps
+ * each material to its stand-in per variant; null keeps the material itself.
+ */
+const materialsVariantsPlugin = (names: string[], replacements: Map<any, (any | null)[]>) => (writer: any) => {
+    const written = new Map<any, (number | null)[]>();
+    return {
+        name: KHR_MATERIALS_VARIANTS,
+        // Awaited while the mesh is written, so the replacements' textures are finished with the file.
+        async writeMaterialAsync(material: any) {
+            const variants = replacements.get(material);
+            if (!variants) return;
+            const indices: (number | null)[] = [];
+            for (const replacement of variants) indices.push(replacement ? await writer.processMaterialAsync(replacement) : null);
+            written.set(material, indices);
+        },
+        writeMesh(_mesh: any, meshDef: any) {
+            const byIndex = new Map<number, (number | null)[]>();
+            written.forEach((indices, material) => byIndex.set(writer.cache.materials.get(material), indices));
+            meshDef.primitives.forEach((primitive: any) => {
+                const indices = byIndex.get(primitive.material);
+                if (!indices) return;
+                primitive.extensions = {
+                    ...primitive.extensions,
+                    [KHR_MATERIALS_VARIANTS]: { mappings: indices.map((index, variant) => ({ material: index ?? primitive.material, variants: [variant] })) },
+                };
+                writer.extensionsUsed[KHR_MATERIALS_VARIANTS] = true;
+            });
+        },
+        afterParse() {
+            writer.json.extensions = { ...writer.json.extensions, [KHR_MATERIALS_VARIANTS]: { variants: names.map(name => ({ name })) } };
+        },
+    };
+};
+
+/**
+ * One GLB with every colorway, switchable with `KHR_materials_variants`.
+ * The extension only swaps materials, so all colorways share the shape of
+ * `model`, the one shown (as adjusted in the viewer); the others get copies
+ * of its materials with the colors of their own reconstruction.
+ */
+export const exportVariantsGlb = async (model: any, variants: { name: string; url: string }[], shown: number, baseName: string): Promise<ExportResult> => {
+    const materials = materialsOf(model);
+    if (materials.length === 0) throw new Error('The model has no materials to vary.');
+    const replacements = new Map<any, (any | null)[]>(materials.map(material => [material, []]));
+    const stats = materials.map(colorStats);
+    for (const [index, variant] of variants.entries()) {
+        const others = index === shown ? [] : materialsOf(await loadModel(variant.url));
+        materials.forEach((material, i) => {
+            // Reconstructions rarely have the same materials; the closest by order is used.
+            const target = others[Math.min(i, others.length - 1)];
+            replacements.get(material)!.push(target ? recoloredMaterial(material, stats[i], colorStats(target), variant.name) : null);
+        });
+    }
+
+    const exporter = new GLTFExporter();
+    exporter.register(materialsVariantsPlugin(variants.map(variant => variant.name), replacements));
+    const data = await exporter.parseAsync(prepareExportRoot(model), { binary: true });
+    return {
+        blob: new Blob([data], { type: 'model/gltf-binary' }),
+        filename: `${baseName}-variants.glb`,
+        warnings: [
+            `All colorways use the shape of ${variants[shown].name}, with colors matched to each colorway's model.`,
+            `Viewers without ${KHR_MATERIALS_VARIANTS} support show ${variants[shown].name} only.`,
+        ],
+    };
+};
@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { CSS2DObject } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
+
+// Styled inline so the labels look the same wherever the viewer is mounted.
+const LABEL_STYLE = 'padding: 2px 6px; border-radius: 4px; background: rgba(0, 0, 0, 0.75); color: #ffc857; font: 600 12px/1.4 sans-serif; white-space: nowrap; pointer-events: none;';
+const LINE_COLOR = 0xffc857;
+
+const label = (text: string, position: any) => {
+    const element = document.createElement('div');
+    element.setAttribute('style', LABEL_STYLE);
+    element.textContent = text;
+    const object = new CSS2DObject(element);
+    object.position.copy(position);
+    return object;
+};
+
+const lineMaterial = () => new THREE.LineBasicMaterial({ color: LINE_COLOR, depthTest: false, transparent: true });
+
+const segment = (from: any, to: any) => {
+    const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints([from, to]), lineMaterial());
+    line.renderOrder = 999;
+    return line;
+};
+
+const annotationGroup = () => {
+    const group = new THREE.Group();
+    group.layers.enableAll();
+    return group;
+};
+
+const finalize = (group: any) => {
+    group.traverse((object: any) => object.layers.enableAll());
+    return group;
+};
+
+/** Width, height and depth callouts along three edges of a world-space bounding box. */
+export const createDimensionCallouts = (box: any, format: (value: number) => string) => {
+    const group = annotationGroup();
+    const { min, max } = box;
+    const edges: [any, any, number][] = [
+        [new THREE.Vector3(min.x, min.y, max.z), new THREE.Vector3(max.x, min.y, max.z), max.x - min.x],
+        [new THREE.Vector3(max.x, min.y, max.z), new THREE.Vector3(max.x, max.y, max.z), max.y - min.y],
+        [new THREE.Vector3(max.x, min.y, min.z), new THREE.Vector3(max.x, min.y, max.z), max.z - min.z],
+    ];
+    edges.forEach(([from, to, length]) => {
+        group.add(segment(from, to));
+        group.add(label(format(length), from.clone().add(to).multiplyScalar(0.5)));
+    });
+    return finalize(group);
+};
+
+/** Markers for the picked points and, once both are set, the line and distance between them. */
+export const createMeasurement = (points: any[], markerSize: number, format: (value: number) => string) => {
+    const group = annotationGroup();
+    const markerGeometry = new THREE.SphereGeometry(markerSize, 16, 8);
+    points.forEach(point => {
+        const marker = new THREE.Mesh(markerGeometry, new THREE.MeshBasicMaterial({ color: LINE_COLOR, depthTest: false }));
+        marker.position.copy(point);
+        marker.renderOrder = 999;
+        group.add(marker);
+    });
+    if (points.length === 2) {
+        group.add(segment(points[0], points[1]));
+        group.add(label(format(points[0].distanceTo(points[1])), points[0].clone().add(points[1]).multiplyScalar(0.5)));
+    }
+    return finalize(group);
+};
+
+export const disposeAnnotation = (group: any) => {
+    group.parent?.remove(group);
+    group.traverse((object: any) => {
+        object.geometry?.dispose();
+        object.material?.dispose();
+        if (object.isCSS2DObject) object.element.remove();
+    });
+};
+
+const HOTSPOT_BUTTON_STYLE = 'width: 24px; height: 24px; padding: 0; border: 2px solid #fff; border-radius: 50%; background: rgba(0, 0, 0, 0.75); color: #fff; font: 600 12px/20px sans-serif; cursor: pointer;';
+const HOTSPOT_CARD_STYLE = 'position: absolute; left: 50%; bottom: 32px; transform: translateX(-50%); width: max-content; max-width: 220px; padding: 8px 10px; border-radius: 6px; background: rgba(0, 0, 0, 0.85); color: #fff; font: 12px/1.4 sans-serif; text-align: left; white-space: normal;';
+
+/**
+ * A numbered hotspot button that opens a card with the title, description and
+ * link. Built from text nodes, as the label may come from any GLB. The card
+ * is the element's last child; toggle it with `setHotspotOpen`.
+ */
+export const createHotspotMarker = (number: number, { title, description, link }: { title: string; description?: string; link?: string | null }, onClick: () => void) => {
+    const element = document.createElement('div');
+    element.style.pointerEvents = 'auto';
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.setAttribute('style', HOTSPOT_BUTTON_STYLE);
+    button.textContent = String(number);
+    button.title = title;
+    button.setAttribute('aria-label', `Hotspot ${number}: ${title}`);
+    button.addEventListener('click', onClick);
+
+    const card = document.createElement('div');
+    card.setAttribute('style', HOTSPOT_CARD_STYLE);
+    card.hidden = true;
+    const heading = document.createElement('strong');
+    heading.textContent = title;
+    card.appendChild(heading);
+    if (description) {
+        const text = document.createElement('div');
+        text.style.marginTop = '4px';
+        text.textContent = description;
+        card.appendChild(text);
+    }
+    if (link) {
+        const anchor = document.createElement('a');
+        anchor.href = link;
+        anchor.target = '_blank';
+        anchor.rel = 'noopener noreferrer';
+        anchor.textContent = 'Learn more';
+        anchor.setAttribute('style', 'display: inline-block; margin-top: 4px; color: #ffc857;');
+        card.appendChild(anchor);
+    }
+    element.append(button, card);
+
+    const object = new CSS2DObject(element);
+    object.layers.enableAll();
+    return object;
+};
+
+export const setHotspotOpen = (marker: any, open: boolean) => {
+    (marker.element.lastChild as HTMLElement).hidden = !open;
+};
@@ -0,0 +1,3 @@
+export * from './presets';
+export * from './studioViewer';
+export * from './preferences';
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import { StudioViewer, ViewerOptions } from './studioViewer';
+
+/**
+ * Runs `render` with a hidden viewer of exactly `size` pixels, so the
+ * on-screen viewer is left untouched. The viewer shows a copy of `model`;
+ * pass null to load one into it with `viewer.load`.
+ */
+export const withOffscreenViewer = async <T>(
+    model: THREE.Object3D | null,
+    options: ViewerOptions,
+    size: number,
+    render: (viewer: StudioViewer) => Promise<T>,
+): Promise<T> => {
+    const container = document.createElement('div');
+    Object.assign(container.style, {
+        position: 'fixed', left: '-100000px', top: '0',
+        width: `${size}px`, height: `${size}px`, pointerEvents: 'none',
+    });
+    document.body.appendChild(container);
+
+    const viewer = new StudioViewer(container, options);
+    try {
+        viewer.renderer.setPixelRatio(1);
+        if (model) viewer.setModel(model.clone(true));
+        return await render(viewer);
+    } finally {
+        viewer.dispose();
+        container.remove();
+    }
+};
@@ -0,0 +1,16 @@
+import { readJson, writeJson } from '../../utils/storage';
+import { CameraBookmark, DEFAULT_VIEWER_OPTIONS, ViewerOptions } from './studioViewer';
+
+const OPTIONS_STORAGE_KEY = 'viewer-options';
+const BOOKMARKS_STORAGE_KEY = 'viewer-bookmarks';
+
+export const loadViewerOptions = (): ViewerOptions => ({
+    ...DEFAULT_VIEWER_OPTIONS,
+    ...readJson<Partial<ViewerOptions>>(OPTIONS_STORAGE_KEY, {}),
+});
+
+export const saveViewerOptions = (options: ViewerOptions) => writeJson(OPTIONS_STORAGE_KEY, options);
+
+export const loadBookmarks = (): CameraBookmark[] => readJson<CameraBookmark[]>(BOOKMARKS_STORAGE_KEY, []);
+
+export const saveBookmarks = (bookmarks: CameraBookmark[]) => writeJson(BOOKMARKS_STORAGE_KEY, bookmarks);
@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+
+export type LightingPresetId = 'studio' | 'softbox' | 'outdoor' | 'dramatic' | 'classic';
+
+export type ViewerBackground =
+    | { type: 'color'; color: string }
+    | { type: 'gradient'; top: string; bottom: string }
+    | { type: 'transparent' };
+
+export type DisplayMode = 'shaded' | 'untextured' | 'textureOnly' | 'normals';
+
+export interface LightingRig {
+    lights: THREE.Group;
+    // Casts the ground shadow.
+    keyLight: THREE.DirectionalLight;
+    // Use the neutral room environment for image-based lighting and reflections.
+    environment: boolean;
+    environmentIntensity: number;
+    exposure: number;
+}
+
+export const LIGHTING_PRESETS: { id: LightingPresetId; label: string }[] = [
+    { id: 'studio', label: 'Studio (image-based)' },
+    { id: 'softbox', label: 'Softbox' },
+    { id: 'outdoor', label: 'Outdoor daylight' },
+    { id: 'dramatic', label: 'Dramatic' },
+    { id: 'classic', label: 'Classic (flat)' },
+];
+
+export const DISPLAY_MODES: { id: DisplayMode; label: string }[] = [
+    { id: 'shaded', label: 'Shaded' },
+    { id: 'untextured', label: 'Clay (untextured)' },
+    { id: 'textureOnly', label: 'Texture only (unlit)' },
+    { id: 'normals', label: 'Normals' },
+];
+
+export const BACKGROUND_PRESETS: { label: string; background: ViewerBackground }[] = [
+    { label: 'Dark', background: { type: 'color', color: '#1e1e1e' } },
+    { label: 'White', background: { type: 'color', color: '#ffffff' } },
+    { label: 'Studio gradient', background: { type: 'gradient', top: '#f5f5f5', bottom: '#b8b8b8' } },
+    { label: 'Night gradient', background: { type: 'gradient', top: '#2b2d42', bottom: '#0d0d12' } },
+    { label: 'Transparent', background: { type: 'transparent' } },
+];
+
+const directional = (color: number, intensity: number, position: [number, number, number]) => {
+    const light = new THREE.DirectionalLight(color, intensity);
+    light.position.set(...position);
+    return light;
+};
+
+/** Builds the lights for a preset. Positions are unit directions; the viewer scales them to the model. */
+export const createLightingRig = (id: LightingPresetId): LightingRig => {
+    const lights = new THREE.Group();
+    let keyLight: THREE.DirectionalLight;
+    let environment = false;
+    let environmentIntensity = 1;
+    let exposure = 1;
+
+    switch (id) {
+        case 'studio':
+            environment = true;
+            keyLight = directional(0xffffff, 1.5, [0.5, 1, 0.75]);
+            lights.add(keyLight);
+            break;
+        case 'softbox':
+            keyLight = directional(0xffffff, 2, [0.6, 1, 0.8]);
+            lights.add(keyLight, directional(0xffffff, 1, [-0.8, 0.6, 0.4]), new THREE.HemisphereLight(0xffffff, 0x666666, 1.5));
+            break;
+        case 'outdoor':
+            environment = true;
+            environmentIntensity = 0.6;
+            exposure = 1.1;
+            keyLight = directional(0xfff1d6, 3, [1, 1.2, 0.3]);
+            lights.add(keyLight, new THREE.HemisphereLight(0xbfdfff, 0x6b5a45, 1));
+            break;
+        case 'dramatic':
+            keyLight = directional(0xffffff, 4, [1, 0.8, 0.2]);
+            lights.add(keyLight, directional(0x8fb4ff, 2, [-1, 0.5, -1]), new THREE.AmbientLight(0xffffff, 0.15));
+            break;
+        case 'classic':
+        default: {
+            // The original fixed setup.
+            keyLight = directional(0xffffff, 3, [0.5, 1, 0.75]);
+            const hemiLight = new THREE.HemisphereLight(0xffffff, 0x444444, 2);
+            hemiLight.position.set(0, 1, 0);
+            lights.add(new THREE.AmbientLight(0xffffff, 2), hemiLight, keyLight, directional(0xffffff, 2, [-0.5, 1, -0.75]));
+            break;
+        }
+    }
+
+    return { lights, keyLight, environment, environmentIntensity, exposure };
+};
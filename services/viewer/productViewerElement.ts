@@ -0,0 +1,106 @@
+import { parseBackgroundAttribute, parseLightingAttribute, PRODUCT_VIEWER_TAG } from '../embed';
+import { DEFAULT_VIEWER_OPTIONS, StudioViewer, ViewerOptions } from './studioViewer';
+
+const TEMPLATE = `
+<style>
+    :host { display: block; position: relative; min-height: 240px; overflow: hidden; }
+    .stage { position: absolute; inset: 0; }
+    .poster { position: absolute; inset: 0; width: 100%; height: 100%; object-fit: contain; transition: opacity 0.3s; pointer-events: none; }
+    .poster.hidden { opacity: 0; }
+    .status { position: absolute; left: 0; right: 0; bottom: 0.75rem; text-align: center; font: 12px sans-serif; color: #888; pointer-events: none; }
+</style>
+<div class="stage" part="stage"></div>
+<img class="poster" part="poster" alt="" hidden>
+<div class="status" part="status" role="status"></div>
+`;
+
+/**
+ * Framework-free wrapper around StudioViewer for third-party pages:
+ *
+ *     <product-3d-viewer src="chair.glb" poster="chair.png" auto-rotate
+ *         background="#ffffff" lighting="softbox"></product-3d-viewer>
+ *
+ * The poster is shown until the model has loaded. Attributes can be changed
+ * at any time; changing `src` loads the new model.
+ */
+export class ProductViewerElement extends HTMLElement {
+    static get observedAttributes() {
+        return ['src', 'poster', 'alt', 'auto-rotate', 'background', 'lighting'];
+    }
+
+    private viewer: StudioViewer | null = null;
+    private stage: HTMLElement;
+    private poster: HTMLImageElement;
+    private status: HTMLElement;
+    private loadedSrc: string | null = null;
+
+    constructor() {
+        super();
+        const root = this.attachShadow({ mode: 'open' });
+        root.innerHTML = TEMPLATE;
+        this.stage = root.querySelector('.stage')!;
+        this.poster = root.querySelector('.poster')!;
+        this.status = root.querySelector('.status')!;
+    }
+
+    connectedCallback() {
+        if (!this.viewer) this.viewer = new StudioViewer(this.stage, this.readOptions());
+        this.updatePoster();
+        this.loadModel();
+    }
+
+    disconnectedCallback() {
+        this.viewer?.dispose();
+        this.viewer = null;
+        this.loadedSrc = null;
+    }
+
+    attributeChangedCallback(name: string) {
+        if (name === 'poster' || name === 'alt') this.updatePoster();
+        else if (name === 'src') this.loadModel();
+        else this.viewer?.setOptions(this.readOptions());
+    }
+
+    private readOptions(): ViewerOptions {
+        return {
+            ...DEFAULT_VIEWER_OPTIONS,
+            autoRotate: this.hasAttribute('auto-rotate'),
+            background: parseBackgroundAttribute(this.getAttribute('background')) ?? DEFAULT_VIEWER_OPTIONS.background,
+            lighting: parseLightingAttribute(this.getAttribute('lighting')) ?? DEFAULT_VIEWER_OPTIONS.lighting,
+        };
+    }
+
+    private updatePoster() {
+        const poster = this.getAttribute('poster');
+        this.poster.hidden = !poster;
+        if (poster) this.poster.src = poster;
+        this.poster.alt = this.getAttribute('alt') ?? '';
+        this.setAttribute('role', 'img');
+        this.setAttribute('aria-label', this.getAttribute('alt') || '3D model');
+    }
+
+    private loadModel() {
+        const src = this.getAttribute('src');
+        const viewer = this.viewer;
+        if (!viewer || !src || src === this.loadedSrc) return;
+        this.loadedSrc = src;
+        this.poster.classList.remove('hidden');
+        this.status.textContent = 'Loading 3D model...';
+
+        viewer.load(src).then(() => {
+            if (this.viewer !== viewer || this.loadedSrc !== src) return;
+            this.poster.classList.add('hidden');
+            this.status.textContent = '';
+            this.dispatchEvent(new Event('load'));
+        }).catch(error => {
+            if (this.viewer !== viewer || this.loadedSrc !== src) return;
+            console.error(`<${PRODUCT_VIEWER_TAG}> failed to load ${src}:`, error);
+            this.status.textContent = 'The 3D model could not be loaded.';
+            this.dispatchEvent(new Event('error'));
+        });
+    }
+}
+
+export const defineProductViewer = () => {
+    if (!customElements.get(PRODUCT_VIEWER_TAG)) customElements.define(PRODUCT_VIEWER_TAG, ProductViewerElement);
+};
@@ -0,0 +1,566 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { CSS2DRenderer } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
+import { createLightingRig, DisplayMode, LightingPresetId, LightingRig, ViewerBackground } from './presets';
+import { createDimensionCallouts, createHotspotMarker, createMeasurement, disposeAnnotation, setHotspotOpen } from './annotations';
+import { formatLength } from '../../utils/units';
+import { findHotspotNodes, hotspotExtras, safeHotspotLink } from '../hotspots';
+import type { TransformMode } from '../transform';
+
+export interface ViewerOptions {
+    lighting: LightingPresetId;
+    background: ViewerBackground;
+    shadow: boolean;
+    autoRotate: boolean;
+    displayMode: DisplayMode;
+    wireframe: boolean;
+    showDimensions: boolean;
+}
+
+export const DEFAULT_VIEWER_OPTIONS: ViewerOptions = {
+    lighting: 'studio',
+    background: { type: 'color', color: '#1e1e1e' },
+    shadow: true,
+    autoRotate: true,
+    displayMode: 'shaded',
+    wireframe: false,
+    showDimensions: false,
+};
+
+/**
+ * Camera position and target relative to the model's center, in multiples of
+ * its bounding radius, so a bookmark works for any model.
+ */
+export interface CameraBookmark {
+    name: string;
+    position: [number, number, number];
+    target: [number, number, number];
+}
+
+// Overlays (display modes, wireframe) render on their own layer so the model
+// itself is never modified; exporters always see the original materials.
+const MODEL_LAYER = 0;
+const OVERLAY_LAYER = 1;
+
+const gradientTexture = (top: string, bottom: string) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 256;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+    gradient.addColorStop(0, top);
+    gradient.addColorStop(1, bottom);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+};
+
+const overlayMaterial = (mode: DisplayMode, source: any) => {
+    switch (mode) {
+        case 'untextured':
+            return new THREE.MeshStandardMaterial({ color: 0xd0d0d0, roughness: 0.6, metalness: 0, side: source.side });
+        case 'textureOnly':
+            return new THREE.MeshBasicMaterial({ map: source.map ?? null, color: source.map ? 0xffffff : source.color, side: source.side });
+        case 'normals':
+            return new THREE.MeshNormalMaterial({ side: source.side });
+        default:
+            return source;
+    }
+};
+
+/** Loads a glTF or GLB file without showing it. */
+export const loadModel = async (url: string): Promise<THREE.Object3D> => {
+    const loader = new GLTFLoader();
+    loader.setMeshoptDecoder(MeshoptDecoder);
+    const gltf: any = await loader.loadAsync(url);
+    return gltf.scene;
+};
+
+/**
+ * The product viewer: a Three.js scene with lighting presets, backgrounds, a
+ * shadow-catching ground, inspection overlays and camera bookmarks. It owns
+ * its renderer and render loop; call dispose() when the container goes away.
+ */
+export class StudioViewer {
+    readonly scene = new THREE.Scene();
+    readonly camera: THREE.PerspectiveCamera;
+    readonly renderer: THREE.WebGLRenderer;
+    readonly controls: any;
+    model: THREE.Object3D | null = null;
+
+    private options: ViewerOptions;
+    private pivot = new THREE.Group();
+    private ground: THREE.Mesh;
+    private rig: LightingRig | null = null;
+    private overlay: THREE.Object3D | null = null;
+    private wireframe: THREE.Object3D | null = null;
+    private environmentMap: THREE.Texture | null = null;
+    private backgroundTexture: THREE.Texture | null = null;
+    private radius = 1;
+    private frameId = 0;
+    private resizeObserver: ResizeObserver;
+    private labelRenderer: any;
+    private calibrated = false;
+    private dimensions: THREE.Object3D | null = null;
+    private measurePoints: THREE.Vector3[] = [];
+    private measurement: THREE.Object3D | null = null;
+    private onMeasure: ((distance: number | null) => void) | null = null;
+    private pointerDown: { x: number; y: number } | null = null;
+    private transformControls: any = null;
+    private originHelper: THREE.Object3D | null = null;
+    // Markers for the model's hotspot nodes; kept in the scene, not the model, so they are never exported.
+    private hotspotMarkers: { node: THREE.Object3D; marker: any }[] = [];
+    private openHotspot: number | null = null;
+    private onPickHotspot: ((point: THREE.Vector3, normal: THREE.Vector3) => void) | null = null;
+
+    constructor(private container: HTMLElement, options: ViewerOptions = DEFAULT_VIEWER_OPTIONS) {
+        this.options = { ...options };
+        const width = container.clientWidth || 1;
+        const height = container.clientHeight || 1;
+
+        this.camera = new THREE.PerspectiveCamera(45, width / height, 0.01, 1000);
+        this.camera.layers.enable(MODEL_LAYER);
+
+        // preserveDrawingBuffer lets callers capture stills from the canvas.
+        this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+        this.renderer.setSize(width, height);
+        this.renderer.setPixelRatio(window.devicePixelRatio);
+        this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+        this.renderer.shadowMap.enabled = true;
+        this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+        container.appendChild(this.renderer.domElement);
+
+        // Dimension and measurement labels are HTML elements layered over the canvas.
+        this.labelRenderer = new CSS2DRenderer();
+        this.labelRenderer.setSize(width, height);
+        Object.assign(this.labelRenderer.domElement.style, { position: 'absolute', top: '0', left: '0', pointerEvents: 'none' });
+        if (getComputedStyle(container).position === 'static') container.style.position = 'relative';
+        container.appendChild(this.labelRenderer.domElement);
+
+        this.renderer.domElement.addEventListener('pointerdown', this.handlePointerDown);
+        this.renderer.domElement.addEventListener('pointerup', this.handlePointerUp);
+
+        this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+        this.controls.enableDamping = true;
+
+        this.ground = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), new THREE.ShadowMaterial({ opacity: 0.3 }));
+        this.ground.rotation.x = -Math.PI / 2;
+        this.ground.receiveShadow = true;
+        this.ground.layers.enableAll();
+
+        this.scene.add(this.pivot, this.ground);
+        this.applyOptions(this.options, true);
+
+        this.resizeObserver = new ResizeObserver(() => this.resize());
+        this.resizeObserver.observe(container);
+
+        const animate = () => {
+            this.frameId = requestAnimationFrame(animate);
+            this.controls.update();
+            this.renderer.render(this.scene, this.camera);
+            this.updateHotspotMarkers();
+            this.labelRenderer.render(this.scene, this.camera);
+        };
+        animate();
+    }
+
+    get currentOptions(): ViewerOptions {
+        return { ...this.options };
+    }
+
+    async load(url: string): Promise<THREE.Object3D> {
+        const model = await loadModel(url);
+        this.setModel(model);
+        return model;
+    }
+
+    /** Shows an already loaded model, replacing the current one. */
+    setModel(model: THREE.Object3D) {
+        this.stopTransforming();
+        model.traverse((object: any) => {
+            if (object.isMesh) object.castShadow = true;
+        });
+
+        if (this.model) this.pivot.remove(this.model);
+        this.model = model;
+        this.pivot.add(model);
+        this.updateBounds();
+        this.refreshHotspots();
+        this.frame();
+    }
+
+    /** Re-centers the model and resizes the ground and lights. Call after changing the model's transform. */
+    updateBounds() {
+        if (!this.model) return;
+        this.pivot.position.set(0, 0, 0);
+        this.pivot.updateMatrixWorld(true);
+        // Precise: the model may have been turned (see ../transform).
+        const box = new THREE.Box3().setFromObject(this.model, true);
+        const center = box.getCenter(new THREE.Vector3());
+        const size = box.getSize(new THREE.Vector3());
+        this.radius = Math.max(size.length() / 2, 1e-3);
+
+        // Offset a wrapper rather than the model itself so exports keep the original coordinates.
+        this.pivot.position.set(-center.x, -center.y, -center.z);
+        this.ground.position.set(0, -size.y / 2 - this.radius * 0.001, 0);
+        this.ground.scale.setScalar(this.radius * 10);
+        this.camera.near = this.radius / 100;
+        this.camera.far = this.radius * 100;
+        this.camera.updateProjectionMatrix();
+        this.positionLights();
+        this.rebuildOverlays();
+        this.rebuildDimensions();
+        this.clearMeasurement();
+        if (this.transformControls) this.rebuildOriginHelper();
+    }
+
+    /** Whether model units are meters; only changes how lengths are labelled. */
+    setCalibrated(calibrated: boolean) {
+        this.calibrated = calibrated;
+        this.rebuildDimensions();
+        this.rebuildMeasurement();
+    }
+
+    /**
+     * While enabled, clicks on the model pick the two ends of a distance
+     * measurement. `onChange` receives the distance in model units.
+     */
+    setMeasuring(onChange: ((distance: number | null) => void) | null) {
+        this.onMeasure = onChange;
+        if (!onChange) this.clearMeasurement();
+    }
+
+    /**
+     * While a mode is given, shows a rotate or translate gizmo on the model
+     * together with the origin and ground plane (y = 0) of exported files.
+     * `onChange` runs after each drag, once the model's transform has changed.
+     */
+    setTransforming(mode: TransformMode | null, onChange?: () => void) {
+        this.stopTransforming();
+        if (!mode || !this.model) return;
+        const model = this.model;
+        const controls = new TransformControls(this.camera, this.renderer.domElement);
+        controls.setMode(mode);
+        controls.attach(model);
+        controls.addEventListener('objectChange', () => {
+            // Overlays are copies of the model; keep them on top of it while dragging.
+            [this.overlay, this.wireframe].forEach(overlay => {
+                overlay?.position.copy(model.position);
+                overlay?.quaternion.copy(model.quaternion);
+            });
+        });
+        controls.addEventListener('dragging-changed', (event: any) => {
+            this.controls.enabled = !event.value;
+            if (event.value) return;
+            this.updateBounds();
+            onChange?.();
+        });
+        const helper = controls.getHelper();
+        helper.traverse((object: any) => object.layers.enableAll());
+        this.scene.add(helper);
+        this.transformControls = controls;
+        this.rebuildOriginHelper();
+    }
+
+    /**
+     * While enabled, clicks on the model report the world-space point and
+     * surface normal hit, for placing a hotspot there.
+     */
+    setHotspotPicking(onPick: ((point: THREE.Vector3, normal: THREE.Vector3) => void) | null) {
+        this.onPickHotspot = onPick;
+    }
+
+    /** Rebuilds the hotspot markers from the model's hotspot nodes. Call after changing them. */
+    refreshHotspots() {
+        this.hotspotMarkers.forEach(({ marker }) => disposeAnnotation(marker));
+        this.hotspotMarkers = [];
+        if (!this.model) return;
+        this.hotspotMarkers = findHotspotNodes(this.model).map((node, i) => {
+            const { title, description, url } = hotspotExtras(node);
+            const marker = createHotspotMarker(i + 1, { title, description, link: safeHotspotLink(url) },
+                () => this.showHotspot(this.openHotspot === i ? null : i));
+            this.scene.add(marker);
+            return { node, marker };
+        });
+        this.showHotspot(this.openHotspot !== null && this.openHotspot < this.hotspotMarkers.length ? this.openHotspot : null);
+    }
+
+    /** Opens the card of the hotspot at `index`, closing any other; null closes all. */
+    showHotspot(index: number | null) {
+        this.openHotspot = index;
+        this.hotspotMarkers.forEach(({ marker }, i) => setHotspotOpen(marker, i === index));
+    }
+
+    clearMeasurement() {
+        this.measurePoints = [];
+        this.rebuildMeasurement();
+        this.onMeasure?.(null);
+    }
+
+    /** Points the camera at the model from the front, slightly above. */
+    frame() {
+        const fov = this.camera.fov * (Math.PI / 180);
+        const distance = (this.radius / Math.sin(fov / 2)) * 1.1;
+        this.camera.position.set(0, this.radius * 0.3, distance);
+        this.controls.target.set(0, 0, 0);
+        this.controls.update();
+    }
+
+    setOptions(patch: Partial<ViewerOptions>) {
+        const next = { ...this.options, ...patch };
+        this.applyOptions(next, false);
+        this.options = next;
+    }
+
+    getBookmark(name: string): CameraBookmark {
+        const scale = 1 / this.radius;
+        const position = this.camera.position.clone().multiplyScalar(scale);
+        const target = this.controls.target.clone().multiplyScalar(scale);
+        return { name, position: position.toArray() as [number, number, number], target: target.toArray() as [number, number, number] };
+    }
+
+    applyBookmark(bookmark: CameraBookmark) {
+        this.camera.position.fromArray(bookmark.position).multiplyScalar(this.radius);
+        this.controls.target.fromArray(bookmark.target).multiplyScalar(this.radius);
+        this.controls.update();
+    }
+
+    /** PNG still of the current view, e.g. for a poster image. */
+    capture(): Promise<Blob> {
+        this.renderer.render(this.scene, this.camera);
+        return new Promise((resolve, reject) => this.renderer.domElement.toBlob(
+            (blob: Blob | null) => blob ? resolve(blob) : reject(new Error('Failed to capture the viewer.')),
+            'image/png',
+        ));
+    }
+
+    dispose() {
+        cancelAnimationFrame(this.frameId);
+        this.resizeObserver.disconnect();
+        this.controls.dispose();
+        this.clearOverlays();
+        this.stopTransforming();
+        if (this.dimensions) disposeAnnotation(this.dimensions);
+        if (this.measurement) disposeAnnotation(this.measurement);
+        this.hotspotMarkers.forEach(({ marker }) => disposeAnnotation(marker));
+        this.renderer.domElement.removeEventListener('pointerdown', this.handlePointerDown);
+        this.renderer.domElement.removeEventListener('pointerup', this.handlePointerUp);
+        this.labelRenderer.domElement.remove();
+        this.environmentMap?.dispose();
+        this.backgroundTexture?.dispose();
+        this.renderer.dispose();
+        this.renderer.domElement.remove();
+        this.model = null;
+    }
+
+    private resize() {
+        const width = this.container.clientWidth;
+        const height = this.container.clientHeight;
+        if (!width || !height) return;
+        this.camera.aspect = width / height;
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(width, height);
+        this.labelRenderer.setSize(width, height);
+    }
+
+    private formatLength = (value: number) => formatLength(value, this.calibrated);
+
+    private handlePointerDown = (event: PointerEvent) => {
+        this.pointerDown = { x: event.clientX, y: event.clientY };
+    };
+
+    private handlePointerUp = (event: PointerEvent) => {
+        const start = this.pointerDown;
+        this.pointerDown = null;
+        // Ignore drags, which orbit the camera.
+        if ((!this.onMeasure && !this.onPickHotspot) || !this.model || !start || Math.hypot(event.clientX - start.x, event.clientY - start.y) > 4) return;
+
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        const pointer = new THREE.Vector2(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1);
+        const raycaster = new THREE.Raycaster();
+        raycaster.setFromCamera(pointer, this.camera);
+        const hit = raycaster.intersectObject(this.model, true)[0];
+        if (!hit) return;
+
+        if (this.onPickHotspot) {
+            const normal = hit.face ? hit.face.normal.clone().transformDirection(hit.object.matrixWorld) : new THREE.Vector3();
+            // Face normals of double-sided meshes may point into the surface.
+            if (normal.dot(raycaster.ray.direction) > 0) normal.negate();
+            this.onPickHotspot(hit.point, normal);
+            return;
+        }
+        if (!this.onMeasure) return;
+        this.measurePoints = this.measurePoints.length >= 2 ? [hit.point] : [...this.measurePoints, hit.point];
+        this.rebuildMeasurement();
+        this.onMeasure(this.measurePoints.length === 2 ? this.measurePoints[0].distanceTo(this.measurePoints[1]) : null);
+    };
+
+    /** Follows the hotspot nodes and dims markers on the far side of the model. */
+    private updateHotspotMarkers() {
+        const toCamera = new THREE.Vector3();
+        const normal = new THREE.Vector3();
+        this.hotspotMarkers.forEach(({ node, marker }) => {
+            node.getWorldPosition(marker.position);
+            const stored = hotspotExtras(node).normal;
+            toCamera.subVectors(this.camera.position, marker.position);
+            const facing = !stored || normal.fromArray(stored).transformDirection(node.parent!.matrixWorld).dot(toCamera) >= 0;
+            marker.element.style.opacity = facing ? '1' : '0.35';
+        });
+    }
+
+    private stopTransforming() {
+        if (this.transformControls) {
+            this.scene.remove(this.transformControls.getHelper());
+            this.transformControls.detach();
+            this.transformControls.dispose();
+            this.transformControls = null;
+            this.controls.enabled = true;
+        }
+        if (this.originHelper) disposeAnnotation(this.originHelper);
+        this.originHelper = null;
+    }
+
+    /** Grid and axes at the origin of the model's coordinates, i.e. where exported files put it. */
+    private rebuildOriginHelper() {
+        if (this.originHelper) disposeAnnotation(this.originHelper);
+        const helper = new THREE.Group();
+        helper.add(new THREE.GridHelper(this.radius * 4, 20, 0x888888, 0x444444), new THREE.AxesHelper(this.radius * 0.75));
+        helper.traverse((object: any) => object.layers.enableAll());
+        this.originHelper = helper;
+        this.pivot.add(helper);
+    }
+
+    private rebuildDimensions() {
+        if (this.dimensions) disposeAnnotation(this.dimensions);
+        this.dimensions = null;
+        if (!this.model || !this.options.showDimensions) return;
+        this.scene.updateMatrixWorld(true);
+        this.dimensions = createDimensionCallouts(new THREE.Box3().setFromObject(this.model, true), this.formatLength);
+        this.scene.add(this.dimensions);
+    }
+
+    private rebuildMeasurement() {
+        if (this.measurement) disposeAnnotation(this.measurement);
+        this.measurement = null;
+        if (this.measurePoints.length === 0) return;
+        this.measurement = createMeasurement(this.measurePoints, this.radius * 0.012, this.formatLength);
+        this.scene.add(this.measurement);
+    }
+
+    private applyOptions(next: ViewerOptions, force: boolean) {
+        const previous = this.options;
+        if (force || next.lighting !== previous.lighting) this.applyLighting(next.lighting);
+        if (force || JSON.stringify(next.background) !== JSON.stringify(previous.background)) this.applyBackground(next.background);
+        this.controls.autoRotate = next.autoRotate;
+        this.ground.visible = next.shadow;
+        if (this.rig) this.rig.keyLight.castShadow = next.shadow;
+        if (force || next.displayMode !== previous.displayMode || next.wireframe !== previous.wireframe) {
+            this.options = next;
+            this.rebuildOverlays();
+        }
+        if (force || next.showDimensions !== previous.showDimensions) {
+            this.options = next;
+            this.rebuildDimensions();
+        }
+    }
+
+    private applyLighting(id: LightingPresetId) {
+        if (this.rig) {
+            this.scene.remove(this.rig.lights, this.rig.keyLight.target);
+            this.rig.lights.traverse((light: any) => light.dispose?.());
+        }
+        const rig = createLightingRig(id);
+        rig.lights.traverse((light: any) => light.layers.enableAll());
+        rig.keyLight.castShadow = this.options.shadow;
+        rig.keyLight.shadow.mapSize.set(2048, 2048);
+        rig.keyLight.shadow.bias = -0.0005;
+        this.rig = rig;
+        this.scene.add(rig.lights, rig.keyLight.target);
+
+        if (rig.environment && !this.environmentMap) {
+            const pmrem = new THREE.PMREMGenerator(this.renderer);
+            this.environmentMap = pmrem.fromScene(new RoomEnvironment(), 0.04).texture;
+            pmrem.dispose();
+        }
+        this.scene.environment = rig.environment ? this.environmentMap : null;
+        this.scene.environmentIntensity = rig.environmentIntensity;
+        this.renderer.toneMappingExposure = rig.exposure;
+        this.positionLights();
+    }
+
+    private positionLights() {
+        if (!this.rig) return;
+        this.rig.lights.children.forEach((light: any) => {
+            if (!light.isDirectionalLight) return;
+            light.userData.direction ??= light.position.clone().normalize();
+            light.position.copy(light.userData.direction).multiplyScalar(this.radius * 4);
+        });
+        const shadowCamera = this.rig.keyLight.shadow.camera;
+        shadowCamera.left = shadowCamera.bottom = -this.radius * 1.5;
+        shadowCamera.right = shadowCamera.top = this.radius * 1.5;
+        shadowCamera.near = this.radius * 0.1;
+        shadowCamera.far = this.radius * 10;
+        shadowCamera.updateProjectionMatrix();
+    }
+
+    private applyBackground(background: ViewerBackground) {
+        this.backgroundTexture?.dispose();
+        this.backgroundTexture = null;
+        if (background.type === 'transparent') {
+            this.scene.background = null;
+            this.renderer.setClearColor(0x000000, 0);
+        } else if (background.type === 'gradient') {
+            this.backgroundTexture = gradientTexture(background.top, background.bottom);
+            this.scene.background = this.backgroundTexture;
+        } else {
+            this.scene.background = new THREE.Color(background.color);
+        }
+    }
+
+    private clearOverlays() {
+        [this.overlay, this.wireframe].forEach(overlay => {
+            if (!overlay) return;
+            overlay.parent?.remove(overlay);
+            overlay.traverse((object: any) => {
+                if (!object.isMesh) return;
+                (Array.isArray(object.material) ? object.material : [object.material]).forEach((m: any) => m.dispose());
+            });
+        });
+        this.overlay = null;
+        this.wireframe = null;
+    }
+
+    /** Overlays share geometry with the model; only their materials are created here. */
+    private rebuildOverlays() {
+        this.clearOverlays();
+        const { displayMode, wireframe } = this.options;
+        this.camera.layers.set(displayMode === 'shaded' ? MODEL_LAYER : OVERLAY_LAYER);
+        if (!this.model) return;
+
+        const makeOverlay = (material: (source: any) => any) => {
+            const copy = this.model!.clone(true);
+            copy.traverse((object: any) => {
+                object.layers.set(OVERLAY_LAYER);
+                if (!object.isMesh) return;
+                object.material = Array.isArray(object.material) ? object.material.map(material) : material(object.material);
+            });
+            this.pivot.add(copy);
+            return copy;
+        };
+
+        if (displayMode !== 'shaded') this.overlay = makeOverlay(source => overlayMaterial(displayMode, source));
+        if (wireframe) {
+            this.wireframe = makeOverlay(() => new THREE.MeshBasicMaterial({ color: 0x000000, wireframe: true, transparent: true, opacity: 0.35, depthWrite: false }));
+            this.wireframe.traverse((object: any) => {
+                object.layers.enableAll();
+                object.castShadow = false;
+            });
+        }
+    }
+}
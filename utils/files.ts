@@ -0,0 +1,34 @@
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+export const stripExtension = (filename: string) => filename.replace(/\.[^/.]+$/, '');
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export const saveBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'model/gltf-binary': 'glb',
+};
+
+export const extensionForMimeType = (mimeType: string, fallback = 'bin') => MIME_EXTENSIONS[mimeType] ?? fallback;
+
+export const mimeTypeOfDataUrl = (dataUrl: string) => dataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
@@ -0,0 +1,168 @@
+/**
+ * Minimal animated GIF89a encoder. All frames share one 256-color palette,
+ * built up front from a few sample frames, and the animation loops forever.
+ */
+
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+const ALPHA_THRESHOLD = 128;
+
+export interface GifPalette {
+    // 256 RGB triplets.
+    colors: Uint8Array;
+    // Palette index for every 15-bit color (5 bits per channel).
+    lookup: Uint8Array;
+    transparentIndex: number | null;
+}
+
+const binOf = (r: number, g: number, b: number) =>
+    ((r >> (8 - HISTOGRAM_BITS)) << (HISTOGRAM_BITS * 2)) | ((g >> (8 - HISTOGRAM_BITS)) << HISTOGRAM_BITS) | (b >> (8 - HISTOGRAM_BITS));
+
+/** Popularity quantization: the most frequent colors of the samples, each mapped to its nearest palette entry. */
+export const buildGifPalette = (samples: ImageData[], transparent: boolean): GifPalette => {
+    const counts = new Uint32Array(HISTOGRAM_SIZE);
+    const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+    samples.forEach(({ data }) => {
+        for (let i = 0; i < data.length; i += 4) {
+            if (transparent && data[i + 3] < ALPHA_THRESHOLD) continue;
+            const bin = binOf(data[i], data[i + 1], data[i + 2]);
+            counts[bin]++;
+            sums[bin * 3] += data[i];
+            sums[bin * 3 + 1] += data[i + 1];
+            sums[bin * 3 + 2] += data[i + 2];
+        }
+    });
+
+    const maxColors = transparent ? 255 : 256;
+    const bins = [...counts.keys()].filter(bin => counts[bin] > 0).sort((a, b) => counts[b] - counts[a]).slice(0, maxColors);
+    const colors = new Uint8Array(256 * 3);
+    bins.forEach((bin, i) => {
+        for (let c = 0; c < 3; c++) colors[i * 3 + c] = Math.round(sums[bin * 3 + c] / counts[bin]);
+    });
+    const used = Math.max(bins.length, 1);
+
+    const lookup = new Uint8Array(HISTOGRAM_SIZE);
+    const step = 1 << (8 - HISTOGRAM_BITS);
+    for (let bin = 0; bin < HISTOGRAM_SIZE; bin++) {
+        const r = ((bin >> (HISTOGRAM_BITS * 2)) & 31) * step + step / 2;
+        const g = ((bin >> HISTOGRAM_BITS) & 31) * step + step / 2;
+        const b = (bin & 31) * step + step / 2;
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let i = 0; i < used; i++) {
+            const dr = colors[i * 3] - r;
+            const dg = colors[i * 3 + 1] - g;
+            const db = colors[i * 3 + 2] - b;
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = i;
+            }
+        }
+        lookup[bin] = best;
+    }
+
+    return { colors, lookup, transparentIndex: transparent ? 255 : null };
+};
+
+/** GIF variable-width LZW, packed into 255-byte sub-blocks. */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+    const output: number[] = [];
+    let buffer = 0;
+    let bufferBits = 0;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let nextCode = endCode + 1;
+    let codeSize = minCodeSize + 1;
+    let table = new Map<number, number>();
+
+    const emit = (code: number) => {
+        buffer |= code << bufferBits;
+        bufferBits += codeSize;
+        while (bufferBits >= 8) {
+            output.push(buffer & 0xff);
+            buffer >>= 8;
+            bufferBits -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (current << 8) | k;
+        const code = table.get(key);
+        if (code !== undefined) {
+            current = code;
+            continue;
+        }
+        emit(current);
+        if (nextCode === 4096) {
+            emit(clearCode);
+            nextCode = endCode + 1;
+            codeSize = minCodeSize + 1;
+            table = new Map();
+        } else {
+            // The decoder widens its codes one entry late, so widen before adding the entry that overflows.
+            if (nextCode >= (1 << codeSize)) codeSize++;
+            table.set(key, nextCode++);
+        }
+        current = k;
+    }
+    emit(current);
+    emit(endCode);
+    if (bufferBits > 0) output.push(buffer & 0xff);
+
+    const blocks = new Uint8Array(output.length + Math.ceil(output.length / 255) + 1);
+    let offset = 0;
+    for (let i = 0; i < output.length; i += 255) {
+        const size = Math.min(255, output.length - i);
+        blocks[offset++] = size;
+        for (let j = 0; j < size; j++) blocks[offset++] = output[i + j];
+    }
+    blocks[offset] = 0;
+    return blocks;
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export class GifEncoder {
+    private chunks: Uint8Array[] = [];
+
+    constructor(private width: number, private height: number, private palette: GifPalette, private delayMs: number) {
+        this.chunks.push(new Uint8Array([
+            ...new TextEncoder().encode('GIF89a'),
+            ...uint16(width), ...uint16(height),
+            // Global color table of 256 entries, 8 bits per channel.
+            0xf7, 0, 0,
+            ...palette.colors,
+            // NETSCAPE2.0 extension: loop forever.
+            0x21, 0xff, 0x0b, ...new TextEncoder().encode('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0,
+        ]));
+    }
+
+    addFrame(image: ImageData) {
+        const { data } = image;
+        const { lookup, transparentIndex } = this.palette;
+        const indices = new Uint8Array(this.width * this.height);
+        for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+            indices[p] = transparentIndex !== null && data[i + 3] < ALPHA_THRESHOLD
+                ? transparentIndex
+                : lookup[binOf(data[i], data[i + 1], data[i + 2])];
+        }
+
+        const transparent = transparentIndex !== null;
+        // Transparent frames must clear the previous one, otherwise they accumulate.
+        const packed = ((transparent ? 2 : 1) << 2) | (transparent ? 1 : 0);
+        this.chunks.push(new Uint8Array([
+            0x21, 0xf9, 0x04, packed, ...uint16(Math.round(this.delayMs / 10)), transparentIndex ?? 0, 0,
+            0x2c, 0, 0, 0, 0, ...uint16(this.width), ...uint16(this.height), 0,
+            8,
+        ]));
+        this.chunks.push(lzwEncode(indices, 8));
+    }
+
+    finish(): Blob {
+        return new Blob([...this.chunks, new Uint8Array([0x3b])], { type: 'image/gif' });
+    }
+}
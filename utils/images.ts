@@ -0,0 +1,40 @@
+export const resizeImage = (imageUrl: string, maxSize: number = 1024): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d');
+
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context'));
+            }
+
+            let { width, height } = img;
+
+            if (width > height) {
+                if (width > maxSize) {
+                    height = Math.round((height * maxSize) / width);
+                    width = maxSize;
+                }
+            } else {
+                if (height > maxSize) {
+                    width = Math.round((width * maxSize) / height);
+                    height = maxSize;
+                }
+            }
+
+            canvas.width = width;
+            canvas.height = height;
+
+            ctx.drawImage(img, 0, 0, width, height);
+
+            const resizedDataUrl = canvas.toDataURL('image/webp', 0.9);
+            resolve(resizedDataUrl);
+        };
+        img.onerror = (err) => {
+            reject(new Error('Failed to load image for resizing.'));
+        };
+        img.src = imageUrl;
+    });
+};
@@ -0,0 +1,12 @@
+/** Parses a JSON value from localStorage, falling back when it is missing or unreadable. */
+export const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : fallback;
+    } catch (e) {
+        console.error(`Ignoring unreadable ${key} in localStorage:`, e);
+        return fallback;
+    }
+};
+
+export const writeJson = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
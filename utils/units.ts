@@ -0,0 +1,17 @@
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export const METERS_PER_UNIT: Record<LengthUnit, number> = {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    in: 0.0254,
+    ft: 0.3048,
+};
+
+/** Formats a length in meters, switching to centimeters below one meter. */
+export const formatMeters = (meters: number) =>
+    meters >= 1 ? `${meters.toFixed(2)} m` : `${(meters * 100).toFixed(1)} cm`;
+
+/** Formats a length that is in meters only once the model's scale is known. */
+export const formatLength = (value: number, calibrated: boolean) =>
+    calibrated ? formatMeters(value) : `${value.toFixed(3)} units`;
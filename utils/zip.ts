@@ -0,0 +1,31 @@
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+
+export interface ZipEntry {
+    path: string;
+    data: Blob | Uint8Array | string;
+}
+
+const toBytes = async (data: ZipEntry['data']): Promise<Uint8Array> => {
+    if (typeof data === 'string') return new TextEncoder().encode(data);
+    if (data instanceof Uint8Array) return data;
+    return new Uint8Array(await data.arrayBuffer());
+};
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const files: Record<string, Uint8Array> = {};
+    for (const entry of entries) {
+        files[entry.path] = await toBytes(entry.data);
+    }
+    // Images and GLBs are already compressed; deflating them again only costs time.
+    const zipped: Uint8Array = zipSync(files, { level: 0 });
+    return new Blob([zipped], { type: 'application/zip' });
+};
+
+/** Makes `name` safe as a single path segment and unique within `taken`, keeping `extension` last. */
+export const uniqueEntryName = (name: string, taken: Set<string>, extension = '') => {
+    const base = name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'item';
+    let candidate = `${base}${extension}`;
+    for (let i = 2; taken.has(candidate); i++) candidate = `${base}-${i}${extension}`;
+    taken.add(candidate);
+    return candidate;
+};
@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the headless Node API (cli/headless.ts) and the model-maker command
+// for Node. Dependencies stay external and are loaded from node_modules. Runs
+// after the app build, so it must not empty the output directory.
+export default defineConfig({
+    build: {
+        ssr: true,
+        outDir: 'dist/cli',
+        emptyOutDir: false,
+        rollupOptions: {
+            input: {
+                'model-maker': path.resolve(__dirname, 'cli/model-maker.ts'),
+                'headless': path.resolve(__dirname, 'cli/headless.ts'),
+            },
+            output: {
+                entryFileNames: '[name].js',
+                banner: (chunk) => chunk.name === 'model-maker' ? '#!/usr/bin/env node' : '',
+            },
+        },
+    },
+});
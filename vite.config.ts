@@ -1,13 +1,13 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { apiPlugin } from './server/apiPlugin';
 
 export default defineConfig(({ mode }) => {
+    // Credentials stay on the dev/preview server; nothing from .env.local is
+    // injected into the client bundle.
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [apiPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
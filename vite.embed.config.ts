@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the <product-3d-viewer> web component as one self-contained ES module
+// that merchants can host next to their product pages. Runs after the app
+// build, so it must not empty the output directory.
+export default defineConfig({
+    build: {
+        outDir: 'dist/embed',
+        emptyOutDir: false,
+        lib: {
+            entry: path.resolve(__dirname, 'embed/product-3d-viewer.ts'),
+            formats: ['es'],
+            fileName: () => 'product-3d-viewer.js',
+        },
+    },
+});